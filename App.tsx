@@ -4,43 +4,35 @@ import { FileUpload } from './components/FileUpload.tsx';
 import { AnalysisDisplay } from './components/AnalysisDisplay.tsx';
 import { Loader } from './components/Loader.tsx';
 import { Header } from './components/Header.tsx';
-import { analyzeDocument } from './services/geminiService.ts';
-import type { AnalysisResult } from './types.ts';
-import { ChatAssistant } from './components/ChatAssistant.tsx';
-
-const getCurrentLocation = (): Promise<{ latitude: number; longitude: number } | null> => {
-  return new Promise((resolve) => {
-    if (!navigator.geolocation) {
-      console.warn("Geolocation is not supported by this browser.");
-      resolve(null);
-      return;
-    }
-    navigator.geolocation.getCurrentPosition(
-      (position) => {
-        resolve({
-          latitude: position.coords.latitude,
-          longitude: position.coords.longitude,
-        });
-      },
-      (error) => {
-        console.warn(`Geolocation error: ${error.message}`);
-        resolve(null);
-      },
-      {
-        enableHighAccuracy: false,
-        timeout: 10000,
-        maximumAge: 600000, 
-      }
-    );
-  });
-};
+import { SettingsPanel } from './components/SettingsPanel.tsx';
+import { CaseLibrary } from './components/CaseLibrary.tsx';
+import { createAnalysisProvider } from './services/analysisService.ts';
+import { analyzeCase, buildChunkPayloads, buildTextPayload, needsChunking } from './services/chunkingService.ts';
+import { analyzeWithConsensus, createConsensusProviders } from './services/consensusService.ts';
+import { loadAnalysisSettings, saveAnalysisSettings } from './services/settingsService.ts';
+import { hashFile, verifyEvidenceFile, PRIMARY_HASH_ALGORITHM } from './services/hashService.ts';
+import type { DocumentHashes } from './services/hashService.ts';
+import { createRedactor, isTextBearing } from './services/redactionService.ts';
+import { toBase64 } from './services/reportSerializer.ts';
+import { extractPageTexts } from './services/textExtractionService.ts';
+import type { CasePageTexts } from './services/textExtractionService.ts';
+import { verifyCitations } from './services/citationService.ts';
+import { createAuditRecorder, recordAuditEvent, withAuditTrail } from './services/auditService.ts';
+import { askCaseQuestion } from './services/chatService.ts';
+import { unlockCaseLibrary } from './services/caseLibraryService.ts';
+import type { CaseLibrary as CaseLibraryStore, SaveCaseInput } from './services/caseLibraryService.ts';
+import type { AnalysisSection } from './services/validationService.ts';
+import type { AnalysisProgress, AnalysisResult, ReportSignatureInfo, SignatureStatus, EvidenceVerification, EvidencePayload, AnalysisSettings, ReportDocumentFormat, ChatMessage, CaseJurisdiction, ReportDiff } from './types.ts';
+import { Welcome } from './components/Welcome.tsx';
 
-type View = 'chat' | 'upload' | 'loading' | 'analysis';
+type View = 'welcome' | 'upload' | 'loading' | 'analysis' | 'library';
 
 type WorkerMessageData =
   | { type: 'progress'; message: string }
-  | { type: 'success'; blob: Blob; result: AnalysisResult; fileName: string }
-  | { type: 'pdfGenerated'; blob: Blob }
+  | { type: 'success'; blob: Blob; result: AnalysisResult; fileName: string; signature: ReportSignatureInfo }
+  | { type: 'exportProgress'; message: string }
+  | { type: 'reportGenerated'; format: ReportDocumentFormat; blob: Blob }
+  | { type: 'exportError'; message: string }
   | { type: 'error'; message: string };
 
 
@@ -56,22 +48,62 @@ const triggerDownload = (blob: Blob, fileName: string) => {
 };
 
 
+const readFileAsBase64 = (file: File): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const dataUrl = reader.result as string;
+      resolve(dataUrl.split(',')[1]);
+    };
+    reader.onerror = () => reject(new Error(`Error reading file '${file.name}'.`));
+    reader.readAsDataURL(file);
+  });
+};
+
+
 const App: React.FC = () => {
-  const [view, setView] = useState<View>('chat');
+  const [view, setView] = useState<View>('welcome');
   const [analysisResult, setAnalysisResult] = useState<AnalysisResult | null>(null);
   const [loadedPdfBlob, setLoadedPdfBlob] = useState<Blob | null>(null);
+  const [reportSignature, setReportSignature] = useState<ReportSignatureInfo | null>(null);
+  // How the report the result on screen was imported from was signed; null
+  // when it was analysed on this device. Unlike reportSignature it survives
+  // review, since a reviewed import is still not this device's own analysis.
+  const [importedSignature, setImportedSignature] = useState<SignatureStatus | null>(null);
+  const [evidenceVerification, setEvidenceVerification] = useState<EvidenceVerification | null>(null);
+  const [isVerifyingEvidence, setIsVerifyingEvidence] = useState<boolean>(false);
   const [isLoading, setIsLoading] = useState<boolean>(false);
-  const [isGeneratingPdf, setIsGeneratingPdf] = useState<boolean>(false);
+  const [exportingFormat, setExportingFormat] = useState<ReportDocumentFormat | null>(null);
+  const [exportProgress, setExportProgress] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [currentFile, setCurrentFile] = useState<File | null>(null);
+  const [caseTitle, setCaseTitle] = useState<string | null>(null);
+  const [evidenceFiles, setEvidenceFiles] = useState<Record<string, File>>({});
   const [loaderMessage, setLoaderMessage] = useState<string | null>(null);
+  const [analysisProgress, setAnalysisProgress] = useState<AnalysisProgress | null>(null);
+  // The sections received so far while a single-request analysis streams in.
+  const [partialResult, setPartialResult] = useState<AnalysisResult | null>(null);
+  const [pendingSections, setPendingSections] = useState<AnalysisSection[]>([]);
+  const [settings, setSettings] = useState<AnalysisSettings>(loadAnalysisSettings);
+  const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  // The unlocked case library, held only in memory; null while locked.
+  const [caseLibrary, setCaseLibrary] = useState<CaseLibraryStore | null>(null);
+  const [libraryCaseId, setLibraryCaseId] = useState<string | null>(null);
+  const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
+  const [isAnswering, setIsAnswering] = useState<boolean>(false);
+  // Evidence page texts for the case assistant; null until extracted.
+  const [casePageTexts, setCasePageTexts] = useState<CasePageTexts | null>(null);
   const workerRef = useRef<Worker | null>(null);
+  // Aborts the running analysis; null when none is running.
+  const abortRef = useRef<AbortController | null>(null);
+  // Only this device's own analyses, and reports it signed itself, are signed
+  // on export; anything else would be vouched for by a key that never saw it.
+  const canSign = importedSignature === null || importedSignature === 'verified';
 
   // Effect to create and terminate the worker. Runs only once.
   useEffect(() => {
-    // Use a root-relative path to ensure the worker is found correctly,
-    // and specify 'classic' type as it uses importScripts.
-    workerRef.current = new Worker('/services/report.worker.js', { type: 'classic' });
+    // Vite bundles the worker and its dependencies as a separate module chunk.
+    workerRef.current = new Worker(new URL('./services/report.worker.ts', import.meta.url), { type: 'module' });
 
     const worker = workerRef.current;
     return () => {
@@ -79,6 +111,19 @@ const App: React.FC = () => {
     };
   }, []);
 
+  // Saves a finished analysis to the library when it is unlocked. A failed
+  // save is reported but never discards the analysis on screen.
+  const autoSaveCase = useCallback(async (input: SaveCaseInput) => {
+    if (!caseLibrary) return;
+    try {
+      const summary = await caseLibrary.saveCase(input);
+      setLibraryCaseId(summary.id);
+    } catch (e: any) {
+      console.error("Auto-save to the case library failed:", e);
+      setError(`The analysis could not be saved to the case library: ${e.message}`);
+    }
+  }, [caseLibrary]);
+
   // Effect to handle messages from the worker. Re-attaches the handler
   // when analysisResult changes to avoid stale closures.
   useEffect(() => {
@@ -95,75 +140,182 @@ const App: React.FC = () => {
         setCurrentFile(new File([data.blob], data.fileName, { type: 'application/pdf' }));
         setAnalysisResult(data.result);
         setLoadedPdfBlob(data.blob);
+        setReportSignature(data.signature);
+        setImportedSignature(data.signature.status);
         setView('analysis');
-      } else if (data.type === 'pdfGenerated') {
+        setLibraryCaseId(null);
+        autoSaveCase({ name: data.result.fileName, result: data.result, evidenceFiles: {}, reportPdf: data.blob, importedSignature: data.signature.status });
+      } else if (data.type === 'exportProgress') {
+        setExportProgress(data.message);
+      } else if (data.type === 'reportGenerated') {
         const safeFileName = (analysisResult?.fileName || 'report').replace(/[^a-z0-9]/gi, '_').toLowerCase();
-        triggerDownload(data.blob, `${safeFileName}_verum_omnis_report.pdf`);
-        setIsGeneratingPdf(false);
+        triggerDownload(data.blob, `${safeFileName}_verum_omnis_report.${data.format}`);
+        setExportingFormat(null);
+        setExportProgress(null);
+        if (data.format === 'pdf' && caseLibrary && libraryCaseId) {
+          caseLibrary.attachReportPdf(libraryCaseId, data.blob).catch(e => {
+            console.error("Could not store the report PDF in the case library:", e);
+          });
+        }
+      } else if (data.type === 'exportError') {
+        setExportingFormat(null);
+        setExportProgress(null);
+        setError(`The report could not be generated: ${data.message}`);
       } else if (data.type === 'error') {
         setIsLoading(false);
-        setIsGeneratingPdf(false);
+        setExportingFormat(null);
+        setExportProgress(null);
         setError(`An error occurred in the background worker: ${data.message}`);
         setView('upload');
       }
     };
-  }, [analysisResult]);
+  }, [analysisResult, caseLibrary, libraryCaseId, autoSaveCase]);
 
-  const handleFileAnalysis = useCallback(async (file: File) => {
+  const handleFileAnalysis = useCallback(async (files: File[], caseName: string, jurisdiction: CaseJurisdiction | null) => {
     setIsLoading(true);
     setView('loading');
     setError(null);
     setAnalysisResult(null);
     setLoadedPdfBlob(null);
-    setCurrentFile(file);
-    setLoaderMessage('Acquiring jurisdictional context...');
+    setReportSignature(null);
+    setEvidenceVerification(null);
+    setCurrentFile(files[0]);
+    setCaseTitle(caseName);
+    setEvidenceFiles({});
+    setLibraryCaseId(null);
+    setChatMessages([]);
+    setCasePageTexts(null);
+    setImportedSignature(null);
+    setPartialResult(null);
+    setAnalysisProgress({ stage: 'hashing', message: 'Preparing the case for analysis...' });
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
 
     try {
-      const location = await getCurrentLocation();
       const language = navigator.language || 'en-US';
-      
-      setLoaderMessage(null); // Switch to automated brain messages
-
-      const reader = new FileReader();
-      reader.onload = async (event) => {
-        if (!event.target?.result) {
-          setError('Failed to read file.');
-          setIsLoading(false);
-          setView('upload');
-          return;
+
+      const redactor = createRedactor();
+      const audit = createAuditRecorder();
+      const evidence: EvidencePayload[] = [];
+      const pageTexts: CasePageTexts = {};
+      // Every file is hashed before any of its content is read for analysis.
+      const fileHashes: DocumentHashes[] = [];
+      for (const [index, file] of files.entries()) {
+        signal.throwIfAborted();
+        const documentId = `D-${String(index + 1).padStart(2, '0')}`;
+        fileHashes.push(await hashFile(file, (processed, total) => {
+          const percent = total > 0 ? Math.round((processed / total) * 100) : 100;
+          setAnalysisProgress({ stage: 'hashing', message: `Computing SHA-512 evidence hash for ${documentId} (${index + 1}/${files.length})... ${percent}%` });
+        }));
+      }
+      for (const [index, file] of files.entries()) {
+        signal.throwIfAborted();
+        const documentId = `D-${String(index + 1).padStart(2, '0')}`;
+        const hashes = fileHashes[index];
+        // Page texts stay on the device; they are used to check the model's citations.
+        pageTexts[documentId] = await extractPageTexts(file, (page, total) => {
+          setAnalysisProgress({ stage: 'preparing', message: `Extracting text from ${documentId} (${index + 1}/${files.length})... page ${page} of ${total}` });
+        });
+        const document = {
+          documentId,
+          fileName: file.name,
+          mimeType: file.type,
+          sizeBytes: file.size,
+          documentHash: hashes.sha512,
+          hashAlgorithm: PRIMARY_HASH_ALGORITHM,
+          documentHashSha256: hashes.sha256,
+        };
+        audit.record('evidence-ingested', `${documentId} '${file.name}' (${file.type || 'unknown type'}, ${file.size} bytes) SHA-512 ${hashes.sha512}`);
+        // The file name appears in the prompt manifest, so it is redacted too;
+        // the result carries the original name again once rehydrated.
+        const sentDocument = { ...document, fileName: redactor.redact(file.name) };
+        const extracted = pageTexts[documentId];
+        // Large PDFs are sent as page-ranged chunks of their extracted text,
+        // which is redacted like any other text-bearing evidence.
+        if (needsChunking(file, extracted)) {
+          setAnalysisProgress({ stage: 'preparing', message: `Splitting ${documentId} into page ranges and redacting personal data...` });
+          evidence.push(...buildChunkPayloads(sentDocument, extracted!, text => redactor.redact(text)));
+          audit.record('redaction-applied', `${documentId}: extracted text of ${extracted!.length} pages redacted before sending`);
+          continue;
         }
-        
-        const dataUrl = event.target.result as string;
-        const fileContent = dataUrl.split(',')[1];
-        const fileType = file.type;
-
-        try {
-          const result = await analyzeDocument(fileContent, fileType, file.name, location, language);
-          setAnalysisResult(result);
-          setView('analysis');
-        } catch (e: any) {
-          console.error(e);
-          setError(`Analysis failed: ${e.message}`);
-          setView('upload'); // Go back to upload on error
-        } finally {
-          setIsLoading(false);
+        // Evidence leaves the device only in redacted form: text files as they
+        // are, PDFs and Word documents as their extracted text.
+        if (isTextBearing(file)) {
+          setAnalysisProgress({ stage: 'preparing', message: `Redacting personal data in ${documentId} (${index + 1}/${files.length})...` });
+          const content = toBase64(new TextEncoder().encode(redactor.redact(await file.text())));
+          evidence.push({ document: sentDocument, content });
+          audit.record('redaction-applied', `${documentId}: text redacted before sending`);
+        } else if (extracted && extracted.some(page => page.trim() !== '')) {
+          setAnalysisProgress({ stage: 'preparing', message: `Redacting personal data in ${documentId} (${index + 1}/${files.length})...` });
+          evidence.push(buildTextPayload(sentDocument, extracted, text => redactor.redact(text)));
+          audit.record('redaction-applied', `${documentId}: extracted text of ${extracted.length} page(s) redacted and sent in place of the original file`);
+        } else if (settings.allowUnredactedEvidence) {
+          evidence.push({ document: sentDocument, content: await readFileAsBase64(file) });
+          audit.record('redaction-applied', `${documentId}: no extractable text; sent without redaction with the user's consent`);
+        } else {
+          throw new Error(`'${file.name}' has no extractable text, so it cannot be redacted before analysis. Remove it from the case, or allow unredactable evidence in Settings to send it as it is.`);
         }
-      };
-      
-      reader.onerror = () => {
-        setError('Error reading file.');
-        setIsLoading(false);
-        setView('upload');
-      };
+      }
+
+      const sentCaseName = redactor.redact(caseName);
+      const pseudonyms = Object.entries(redactor.summary()).map(([category, count]) => `${category} ${count}`).join(', ');
+      if (pseudonyms) audit.record('redaction-applied', `Pseudonyms issued: ${pseudonyms}`);
 
-      reader.readAsDataURL(file);
+      signal.throwIfAborted();
 
+      // Sections are previewed as they stream in; consensus runs compare whole results and show progress only.
+      const redactedResult = settings.consensusEnabled
+        ? await analyzeWithConsensus(evidence, sentCaseName, jurisdiction, language, createConsensusProviders(settings).map(provider => withAuditTrail(provider, audit)), { signal, onProgress: setAnalysisProgress })
+        : await analyzeCase(evidence, sentCaseName, jurisdiction, language, withAuditTrail(createAnalysisProvider(settings), audit), {
+            signal,
+            onProgress: setAnalysisProgress,
+            onPartialResult: (partial, pending) => {
+              setPartialResult(redactor.rehydrate(partial));
+              setPendingSections(pending);
+            },
+          });
+      redactedResult.corrections.forEach(c => audit.record('validation-corrected', `${c.path}: ${c.message}`));
+      const rehydratedResult = redactor.rehydrate(redactedResult);
+      setAnalysisProgress({ stage: 'verifying', message: 'Verifying citations against the evidence text...' });
+      const citationChecks = verifyCitations(rehydratedResult, pageTexts);
+      const verified = citationChecks.filter(c => c.status === 'verified').length;
+      audit.record('citations-verified', `${verified} of ${citationChecks.length} citations verified against the evidence text`);
+      // The trail is attached after rehydration, which must not rewrite hashed entries.
+      const result = { ...rehydratedResult, citationChecks, auditLog: audit.entries() };
+      const caseFiles = Object.fromEntries(files.map((file, i) => [`D-${String(i + 1).padStart(2, '0')}`, file]));
+      setEvidenceFiles(caseFiles);
+      setCasePageTexts(pageTexts);
+      setAnalysisResult(result);
+      setView('analysis');
+      await autoSaveCase({ name: caseName, result, evidenceFiles: caseFiles });
     } catch (e: any) {
-        console.error("Error during analysis setup:", e);
-        setError(`An error occurred before file analysis: ${e.message}`);
+      if (signal.aborted) {
+        // Cancelled by the user; handleReset may already have moved on.
+        if (abortRef.current === controller) setView('upload');
+        return;
+      }
+      console.error(e);
+      setError(`Analysis failed: ${e.message}`);
+      setView('upload'); // Go back to upload on error
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
         setIsLoading(false);
-        setView('upload');
+        setAnalysisProgress(null);
+        setPartialResult(null);
+      }
     }
+  }, [settings, autoSaveCase]);
+
+  const handleCancelAnalysis = useCallback(() => {
+    abortRef.current?.abort();
+  }, []);
+
+  const handleSaveSettings = useCallback((next: AnalysisSettings) => {
+    saveAnalysisSettings(next);
+    setSettings(next);
+    setIsSettingsOpen(false);
   }, []);
   
   const handleReportUpload = useCallback((file: File) => {
@@ -176,33 +328,198 @@ const App: React.FC = () => {
     setError(null);
     setAnalysisResult(null);
     setCurrentFile(file);
+    setCaseTitle(file.name);
+    setEvidenceFiles({});
+    setLibraryCaseId(null);
     setLoadedPdfBlob(null);
+    setReportSignature(null);
+    setEvidenceVerification(null);
+    setChatMessages([]);
+    setCasePageTexts(null);
     setLoaderMessage('Initializing report loader...');
     workerRef.current.postMessage(file);
   }, []);
 
-  const handleRequestPdf = useCallback((result: AnalysisResult, fileName: string) => {
+  // Checks that a dropped file is the evidence a loaded report was sealed against.
+  // On a match the evidence replaces the regenerated report PDF in the preview.
+  const handleVerifyEvidence = useCallback(async (file: File) => {
+    if (!analysisResult) return;
+    setIsVerifyingEvidence(true);
+    setError(null);
+    try {
+      const verification = await verifyEvidenceFile(file, analysisResult);
+      setEvidenceVerification(verification);
+      if (verification.status === 'match') {
+        // The assistant re-extracts evidence text to include the verified file.
+        setCasePageTexts(null);
+        if (verification.documentId) {
+          setEvidenceFiles(prev => ({ ...prev, [verification.documentId as string]: file }));
+        } else {
+          setCurrentFile(file);
+        }
+      }
+    } catch (e: any) {
+      console.error("Evidence verification failed:", e);
+      setError(`Evidence verification failed: ${e.message}`);
+    } finally {
+      setIsVerifyingEvidence(false);
+    }
+  }, [analysisResult]);
+
+  // Answers a follow-up question about the case on screen. Cases that were
+  // loaded rather than analysed here have their evidence text extracted on
+  // first use. Each answered turn is saved with the case when it is in the library.
+  const handleAskQuestion = useCallback(async (question: string) => {
+    if (!analysisResult) return;
+    const history = chatMessages;
+    const asked: ChatMessage = { role: 'user', text: question, createdAt: new Date().toISOString() };
+    setChatMessages([...history, asked]);
+    setIsAnswering(true);
+    setError(null);
+    try {
+      let pageTexts = casePageTexts;
+      if (!pageTexts) {
+        pageTexts = {};
+        for (const documentId of Object.keys(evidenceFiles)) {
+          pageTexts[documentId] = await extractPageTexts(evidenceFiles[documentId]);
+        }
+        setCasePageTexts(pageTexts);
+      }
+      const language = navigator.language || 'en-US';
+      const answer = await askCaseQuestion(createAnalysisProvider(settings), analysisResult, pageTexts, history, question, language);
+      const conversation = [...history, asked, answer];
+      setChatMessages(conversation);
+      if (caseLibrary && libraryCaseId) {
+        caseLibrary.saveConversation(libraryCaseId, conversation).catch(e => {
+          console.error("Could not store the conversation in the case library:", e);
+        });
+      }
+    } catch (e: any) {
+      console.error("Case assistant failed:", e);
+      setChatMessages(history);
+      setError(`The assistant could not answer: ${e.message}`);
+    } finally {
+      setIsAnswering(false);
+    }
+  }, [analysisResult, chatMessages, casePageTexts, evidenceFiles, settings, caseLibrary, libraryCaseId]);
+
+  // Shows an updated result and keeps the open case's library copy in step.
+  const storeResult = useCallback((updated: AnalysisResult) => {
+    setAnalysisResult(updated);
+    if (caseLibrary && libraryCaseId) {
+      caseLibrary.saveResult(libraryCaseId, updated).catch(e => {
+        console.error("Could not store the result in the case library:", e);
+        setError(`The case could not be saved to the case library: ${e.message}`);
+      });
+    }
+  }, [caseLibrary, libraryCaseId]);
+
+  // Applies an analyst's review. The result on screen then differs from any
+  // loaded report PDF and its signature, so both are dropped; the next
+  // download is generated from the reviewed result.
+  const handleReviewChange = useCallback((reviewed: AnalysisResult) => {
+    storeResult(reviewed);
+    setLoadedPdfBlob(null);
+    setReportSignature(null);
+  }, [storeResult]);
+
+  // The export is logged before the report is generated, so the report's own
+  // audit trail includes it.
+  const handleRequestReport = useCallback((result: AnalysisResult, fileName: string, format: ReportDocumentFormat, comparison?: ReportDiff) => {
     if (!workerRef.current) {
-      setError('PDF generation service is not available.');
+      setError('Report generation service is not available.');
       return;
     }
-    setIsGeneratingPdf(true);
-    workerRef.current.postMessage({ type: 'generatePdf', result, fileName });
+    const detail = comparison
+      ? `${format.toUpperCase()} report generated with a comparison appendix (${comparison.before.label} vs ${comparison.after.label})`
+      : `${format.toUpperCase()} report generated`;
+    const audited = recordAuditEvent(result, 'report-exported', detail);
+    storeResult(audited);
+    setExportingFormat(format);
+    setExportProgress(null);
+    workerRef.current.postMessage({ type: 'generateReport', format, result: audited, fileName, comparison, sign: canSign });
+  }, [storeResult, canSign]);
+
+  // Unlocking while an unsaved analysis is on screen saves it straight away.
+  const handleUnlockLibrary = useCallback(async (passphrase: string) => {
+    const library = await unlockCaseLibrary(passphrase);
+    setCaseLibrary(library);
+    if (analysisResult && !libraryCaseId) {
+      try {
+        const summary = await library.saveCase({
+          name: caseTitle ?? analysisResult.fileName,
+          result: analysisResult,
+          evidenceFiles,
+          reportPdf: loadedPdfBlob,
+          conversation: chatMessages,
+          importedSignature: importedSignature ?? undefined,
+        });
+        setLibraryCaseId(summary.id);
+      } catch (e: any) {
+        console.error("Could not save the current analysis to the case library:", e);
+        setError(`The current analysis could not be saved to the case library: ${e.message}`);
+      }
+    }
+  }, [analysisResult, libraryCaseId, caseTitle, evidenceFiles, loadedPdfBlob, chatMessages, importedSignature]);
+
+  const handleLockLibrary = useCallback(() => {
+    setCaseLibrary(null);
+    setLibraryCaseId(null);
   }, []);
 
+  const handleOpenCase = useCallback(async (id: string) => {
+    if (!caseLibrary) return;
+    setError(null);
+    try {
+      const stored = await caseLibrary.loadCase(id);
+      const documentFiles = Object.values(stored.evidenceFiles);
+      const reportFile = stored.reportPdf && new File([stored.reportPdf], `${stored.summary.name}.pdf`, { type: 'application/pdf' });
+      setAnalysisResult(stored.result);
+      setEvidenceFiles(stored.evidenceFiles);
+      setCurrentFile(documentFiles[0] ?? reportFile ?? new File([], stored.result.fileName));
+      setCaseTitle(stored.summary.name);
+      setLoadedPdfBlob(null);
+      setReportSignature(null);
+      setImportedSignature(stored.summary.importedSignature ?? null);
+      setEvidenceVerification(null);
+      setChatMessages(stored.conversation);
+      setCasePageTexts(null);
+      setLibraryCaseId(id);
+      setView('analysis');
+    } catch (e: any) {
+      console.error("Could not open saved case:", e);
+      setError(`The saved case could not be opened: ${e.message}`);
+    }
+  }, [caseLibrary]);
+
   const handleReset = useCallback(() => {
-    setView('chat');
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setAnalysisProgress(null);
+    setPartialResult(null);
+    setView('welcome');
     setAnalysisResult(null);
     setCurrentFile(null);
+    setCaseTitle(null);
+    setEvidenceFiles({});
     setError(null);
     setIsLoading(false);
     setLoadedPdfBlob(null);
+    setReportSignature(null);
+    setImportedSignature(null);
+    setEvidenceVerification(null);
+    setLibraryCaseId(null);
+    setChatMessages([]);
+    setCasePageTexts(null);
   }, []);
 
   return (
     <div className="bg-gray-900 text-white min-h-screen p-4 sm:p-8">
       <div className="max-w-7xl mx-auto">
-        <Header onReset={handleReset} />
+        <Header onReset={handleReset} onOpenSettings={() => setIsSettingsOpen(true)} onOpenLibrary={() => setView('library')} />
+        {isSettingsOpen && (
+          <SettingsPanel settings={settings} onSave={handleSaveSettings} onClose={() => setIsSettingsOpen(false)} />
+        )}
         <main className="mt-12">
           {error && (
             <div className="bg-red-900/50 border border-red-700 text-red-300 p-4 rounded-lg mb-6 animate-fade-in">
@@ -222,17 +539,60 @@ const App: React.FC = () => {
             </div>
           )}
 
-          {view === 'chat' && <ChatAssistant onProceed={() => setView('upload')} />}
+          {view === 'welcome' && <Welcome onProceed={() => setView('upload')} />}
           {view === 'upload' && <FileUpload onFileUpload={handleFileAnalysis} onReportUpload={handleReportUpload} />}
-          {view === 'loading' && currentFile && <Loader fileName={currentFile.name} message={loaderMessage} />}
+          {view === 'library' && (
+            <CaseLibrary
+              library={caseLibrary}
+              activeCaseId={libraryCaseId}
+              onUnlock={handleUnlockLibrary}
+              onLock={handleLockLibrary}
+              onOpenCase={handleOpenCase}
+            />
+          )}
+          {view === 'loading' && currentFile && (
+            <Loader
+              fileName={caseTitle ?? currentFile.name}
+              message={loaderMessage}
+              progress={analysisProgress}
+              onCancel={analysisProgress ? handleCancelAnalysis : undefined}
+              compact={partialResult !== null}
+            />
+          )}
+          {view === 'loading' && partialResult && currentFile && (
+            <AnalysisDisplay
+              result={partialResult}
+              file={currentFile}
+              onReset={handleReset}
+              onGenerateReportRequest={handleRequestReport}
+              exportingFormat={null}
+              onReviewChange={() => {}}
+              onExportRecorded={() => {}}
+              pendingSections={pendingSections}
+            />
+          )}
           {view === 'analysis' && analysisResult && currentFile && (
             <AnalysisDisplay 
               result={analysisResult} 
               file={currentFile} 
+              evidenceFiles={evidenceFiles}
               onReset={handleReset} 
               pdfBlob={loadedPdfBlob}
-              onGeneratePdfRequest={handleRequestPdf}
-              isGeneratingPdf={isGeneratingPdf}
+              signature={reportSignature}
+              onVerifyEvidence={analysisResult.documentHash ? handleVerifyEvidence : undefined}
+              evidenceVerification={evidenceVerification}
+              isVerifyingEvidence={isVerifyingEvidence}
+              onGenerateReportRequest={handleRequestReport}
+              exportingFormat={exportingFormat}
+              exportProgress={exportProgress}
+              chatMessages={chatMessages}
+              isAnswering={isAnswering}
+              onAskQuestion={handleAskQuestion}
+              onReviewChange={handleReviewChange}
+              onExportRecorded={storeResult}
+              canSign={canSign}
+              library={caseLibrary}
+              activeCaseId={libraryCaseId}
             />
           )}
         </main>
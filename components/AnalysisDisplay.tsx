@@ -1,16 +1,53 @@
 
 import React, { useState, useCallback, useMemo, useEffect } from 'react';
-import type { AnalysisResult } from '../types.ts';
-import { DownloadIcon, ResetIcon, CopyIcon, CheckIcon, CheckboxIcon, GavelIcon, EyeIcon, TargetIcon, AlertTriangleIcon, CheckCircleIcon, FileTextIcon, StarIcon, ChevronDownIcon, BinaryIcon } from './icons.tsx';
-import { encodeReport } from '../services/reportSerializer.ts';
+import type { AnalysisResult, ReportSignatureInfo, EvidenceVerification, CitationStatus, ReportDocumentFormat, ChatMessage, ReportDiff } from '../types.ts';
+import { DownloadIcon, ResetIcon, CopyIcon, CheckIcon, CheckboxIcon, GavelIcon, EyeIcon, TargetIcon, AlertTriangleIcon, CheckCircleIcon, FileTextIcon, StarIcon, ChevronDownIcon, BinaryIcon, ArrowsRightLeftIcon, ClockIcon, ScaleIcon, ClipboardTextIcon, DocumentDuplicateIcon } from './icons.tsx';
+import { encodeReport, encodeSignedReport } from '../services/reportSerializer.ts';
+import { JSON_REPORT_EXTENSION, encodeJsonReport } from '../services/jsonReportService.ts';
+import { EvidenceVerifier } from './EvidenceVerifier.tsx';
+import { ChatAssistant } from './ChatAssistant.tsx';
+import { TimelineView } from './TimelineView.tsx';
+import { ConsensusDeltaView } from './ConsensusDeltaView.tsx';
+import { CitationBadge } from './CitationBadge.tsx';
+import { ReviewControls } from './ReviewControls.tsx';
+import { ReviewQueue } from './ReviewQueue.tsx';
+import { ReportDiffView } from './ReportDiffView.tsx';
+import type { CaseLibrary as CaseLibraryStore } from '../services/caseLibraryService.ts';
+import type { AnalysisSection } from '../services/validationService.ts';
+import { REVIEW_CATEGORIES, clearReview, loadReviewerName, recordReview, reviewFor, reviewTarget, saveReviewerName } from '../services/reviewService.ts';
+import type { ReviewCategory, ReviewItem } from '../services/reviewService.ts';
+import { AUDIT_EVENT_LABELS, describeAuditTrail, recordAuditEvent, verifyAuditLog } from '../services/auditService.ts';
 
 interface AnalysisDisplayProps {
   result: AnalysisResult;
   file: File;
+  evidenceFiles?: Record<string, File>;
   onReset: () => void;
   pdfBlob?: Blob | null;
-  onGeneratePdfRequest: (result: AnalysisResult, fileName: string) => void;
-  isGeneratingPdf: boolean;
+  signature?: ReportSignatureInfo | null;
+  onVerifyEvidence?: (file: File) => void;
+  evidenceVerification?: EvidenceVerification | null;
+  isVerifyingEvidence?: boolean;
+  // `comparison` adds a comparison appendix to a PDF report.
+  onGenerateReportRequest: (result: AnalysisResult, fileName: string, format: ReportDocumentFormat, comparison?: ReportDiff) => void;
+  exportingFormat: ReportDocumentFormat | null;
+  exportProgress?: string | null;
+  chatMessages?: ChatMessage[];
+  isAnswering?: boolean;
+  onAskQuestion?: (question: string) => void;
+  // Receives the result with an analyst's review applied.
+  onReviewChange: (result: AnalysisResult) => void;
+  // Receives the result with a .verum.bin or JSON export added to its audit trail.
+  onExportRecorded: (result: AnalysisResult) => void;
+  // False for results imported from a report this device did not sign; their
+  // .verum.bin exports are left unsigned.
+  canSign?: boolean;
+  // The unlocked case library, offered as a source of analyses to compare with.
+  library?: CaseLibraryStore | null;
+  activeCaseId?: string | null;
+  // Set while the analysis is still streaming in: the sections not yet
+  // received show as pending, and reviewing and exporting are unavailable.
+  pendingSections?: AnalysisSection[];
 }
 
 interface EvidenceViewerProps {
@@ -74,6 +111,82 @@ const EvidenceViewer: React.FC<EvidenceViewerProps> = ({ file, pageNumber }) =>
 };
 
 
+const SignatureStatusPanel: React.FC<{ signature?: ReportSignatureInfo | null; canSign: boolean }> = ({ signature, canSign }) => {
+  if (!signature && !canSign) {
+    return (
+      <div className="p-4 rounded-lg bg-yellow-900/30 border border-yellow-700 text-sm text-gray-300">
+        <p className="font-bold text-yellow-300">Signature: Not signed by this device</p>
+        <p className="mt-1">This analysis was imported from a report this device did not sign, so its reports are saved unsigned.</p>
+      </div>
+    );
+  }
+  if (!signature) {
+    return (
+      <div className="p-4 rounded-lg bg-gray-900/50 border border-gray-700 text-sm text-gray-400">
+        <p className="font-semibold text-gray-300">Signature: Not yet sealed</p>
+        <p className="mt-1">This analysis will be signed with this device's local key when saved as a <code>.verum.bin</code> report.</p>
+      </div>
+    );
+  }
+
+  const styles = {
+    verified: { box: 'bg-green-900/30 border-green-700', text: 'text-green-300', label: 'Verified', note: "The report payload matches its digital signature, made with this device's signing key." },
+    untrusted: { box: 'bg-yellow-900/30 border-yellow-700', text: 'text-yellow-300', label: 'Signed by an Unknown Key', note: "The report payload matches its digital signature, but the signing key is not this device's key. Anyone can re-sign an edited report with a key of their own, so this does not show who produced the report or that its contents are original." },
+    tampered: { box: 'bg-red-900/40 border-red-700', text: 'text-red-300', label: 'Tampered', note: 'The report payload does not match its digital signature. Its contents must not be relied upon.' },
+    unsigned: { box: 'bg-yellow-900/30 border-yellow-700', text: 'text-yellow-300', label: 'Unsigned', note: 'This report was saved without a signed envelope, so its integrity cannot be verified.' },
+  }[signature.status];
+
+  return (
+    <div className={`p-4 rounded-lg border ${styles.box}`}>
+      <div className="flex items-center">
+        {signature.status === 'verified'
+          ? <CheckCircleIcon className={`w-5 h-5 mr-2 ${styles.text}`} />
+          : <AlertTriangleIcon className={`w-5 h-5 mr-2 ${styles.text}`} />}
+        <p className={`font-bold ${styles.text}`}>Signature: {styles.label}</p>
+      </div>
+      <p className="text-sm text-gray-300 mt-2">{styles.note}</p>
+      {signature.keyId && (
+        <p className="font-mono text-xs text-gray-400 mt-2 break-all">{signature.algorithm} · Key ID {signature.keyId}</p>
+      )}
+    </div>
+  );
+};
+
+const DocumentSources: React.FC<{ documentIds: string[]; onSelect: (documentId: string) => void }> = ({ documentIds, onSelect }) => {
+  if (!documentIds || documentIds.length === 0) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-1 mt-2 text-xs">
+      <span className="text-gray-500 mr-1">Sources:</span>
+      {documentIds.map(id => (
+        <button key={id} onClick={() => onSelect(id)} className="px-2 py-0.5 rounded bg-gray-700/60 font-mono text-gray-300 hover:bg-gray-600">
+          {id}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+// The tab each kind of reviewable finding is shown on.
+const REVIEW_CATEGORY_TABS: Record<ReviewCategory, string> = {
+  legalSubject: 'legal',
+  dishonestyFlag: 'legal',
+  liability: 'summary',
+  spotlight: 'evidence',
+  recommendedAction: 'summary',
+};
+
+const findingElementId = (target: string) => `finding-${target}`;
+
+// Emphasises citation markers such as "(E-3)" or "(Page 4)" as React nodes;
+// report text may come from imports or model output and is never parsed as HTML.
+const CITATION_MARKERS = { evidence: /(\(E-\d+\))/, page: /(\(Page \d+\))/ };
+
+const HighlightedText: React.FC<{ text: string; marker: RegExp; className: string }> = ({ text, marker, className }) => (
+  <>
+    {text.split(marker).map((part, index) => (index % 2 === 1 ? <strong key={index} className={className}>{part}</strong> : part))}
+  </>
+);
+
 const SeverityBadge: React.FC<{ severity: 'Low' | 'Medium' | 'High' | 'Critical' }> = ({ severity }) => {
   const styles = {
     Low: 'bg-gray-600 text-gray-200',
@@ -101,9 +214,11 @@ interface CollapsibleSectionProps {
   icon: React.ReactNode;
   children: React.ReactNode;
   defaultOpen?: boolean;
+  // The model has not produced this section yet.
+  pending?: boolean;
 }
 
-const CollapsibleSection: React.FC<CollapsibleSectionProps> = ({ title, icon, children, defaultOpen = true }) => {
+const CollapsibleSection: React.FC<CollapsibleSectionProps> = ({ title, icon, children, defaultOpen = true, pending = false }) => {
   const [isOpen, setIsOpen] = useState(defaultOpen);
 
   return (
@@ -121,19 +236,85 @@ const CollapsibleSection: React.FC<CollapsibleSectionProps> = ({ title, icon, ch
       </button>
       {isOpen && (
         <div className="p-6">
-          {children}
+          {pending ? <p className="text-gray-500 animate-pulse">Waiting for the model to write this section...</p> : children}
         </div>
       )}
     </div>
   );
 };
 
-export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file, onReset, pdfBlob, onGeneratePdfRequest, isGeneratingPdf }) => {
+export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file, evidenceFiles = {}, onReset, pdfBlob, signature, onVerifyEvidence, evidenceVerification = null, isVerifyingEvidence = false, onGenerateReportRequest, exportingFormat, exportProgress = null, chatMessages = [], isAnswering = false, onAskQuestion, onReviewChange, onExportRecorded, canSign = true, library = null, activeCaseId = null, pendingSections }) => {
   const [activeTab, setActiveTab] = useState('summary');
   const [isEncoding, setIsEncoding] = useState(false);
   const [isHashCopied, setIsHashCopied] = useState(false);
   const [targetPage, setTargetPage] = useState<number | null>(null);
-  const fileName = file.name;
+  const [activeDocumentId, setActiveDocumentId] = useState<string | null>(result.documents[0]?.documentId ?? null);
+  const fileName = result.fileName || file.name;
+  const isStreaming = pendingSections !== undefined;
+  const isPending = (section: AnalysisSection) => pendingSections?.includes(section) ?? false;
+  const auditVerification = useMemo(() => verifyAuditLog(result.auditLog), [result.auditLog]);
+  // Fall back to the primary file (e.g. a regenerated report PDF) when the cited document isn't loaded.
+  const viewerFile = (activeDocumentId && evidenceFiles[activeDocumentId]) || file;
+
+  const citations = useMemo(() => new Map(result.citationChecks.map(check => [check.target, check])), [result.citationChecks]);
+  const citationSummary = useMemo(() => result.citationChecks.reduce((acc, check) => {
+    acc[check.status] = (acc[check.status] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<CitationStatus, number>>), [result.citationChecks]);
+
+  const jumpToEvidence = useCallback((documentId: string, pageNumber: number) => {
+    if (documentId) setActiveDocumentId(documentId);
+    setTargetPage(pageNumber);
+  }, []);
+
+  // --- Analyst review ---
+  const [reviewer, setReviewer] = useState(loadReviewerName);
+  const [scrollTarget, setScrollTarget] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!scrollTarget) return;
+    document.getElementById(findingElementId(scrollTarget))?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    setScrollTarget(null);
+  }, [activeTab, scrollTarget]);
+
+  const handleReviewerChange = useCallback((name: string) => {
+    setReviewer(name);
+    saveReviewerName(name);
+  }, []);
+
+  const handleSelectReviewItem = useCallback((item: ReviewItem) => {
+    setActiveTab(REVIEW_CATEGORY_TABS[item.category]);
+    setScrollTarget(item.target);
+  }, []);
+
+  const applyReview = (update: (current: AnalysisResult) => AnalysisResult) => {
+    try {
+      onReviewChange(update(result));
+    } catch (error: any) {
+      console.error("Could not record the review:", error);
+      alert(error.message);
+    }
+  };
+
+  const renderReviewControls = (category: ReviewCategory, index: number) => {
+    if (isStreaming) return null;
+    const target = reviewTarget(category, index);
+    const definition = REVIEW_CATEGORIES[category];
+    return (
+      <ReviewControls
+        review={reviewFor(result, target)}
+        item={definition.items(result)[index]}
+        fields={definition.fields}
+        reviewer={reviewer}
+        onReview={(decision, reason, changes) => applyReview(current => recordReview(current, target, decision, reviewer, reason, changes))}
+        onClear={() => applyReview(current => clearReview(current, target, reviewer))}
+      />
+    );
+  };
+
+  // Rejected findings stay visible, dimmed, with the analyst's reason.
+  const rejectedClass = (category: ReviewCategory, index: number) =>
+    reviewFor(result, reviewTarget(category, index))?.decision === 'rejected' ? 'opacity-60' : '';
   
   const handleCopyHash = useCallback(() => {
     navigator.clipboard.writeText(result.documentHash).then(() => {
@@ -154,15 +335,17 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
       document.body.removeChild(a);
       URL.revokeObjectURL(url);
     } else {
-      onGeneratePdfRequest(result, fileName);
+      onGenerateReportRequest(result, fileName, 'pdf');
     }
-  }, [result, fileName, pdfBlob, onGeneratePdfRequest]);
+  }, [result, fileName, pdfBlob, onGenerateReportRequest]);
 
   const handleDownloadBinaryReport = useCallback(async () => {
     setIsEncoding(true);
     try {
-      const buffer = encodeReport(result);
+      const audited = recordAuditEvent(result, 'report-exported', `${canSign ? 'Signed' : 'Unsigned'} .verum.bin report saved`);
+      const buffer = canSign ? await encodeSignedReport(audited) : encodeReport(audited);
       if (buffer) {
+        onExportRecorded(audited);
         const blob = new Blob([buffer], { type: 'application/octet-stream' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
@@ -180,13 +363,37 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
     } finally {
       setIsEncoding(false);
     }
-  }, [result, fileName]);
+  }, [result, fileName, onExportRecorded, canSign]);
+
+  const handleDownloadJsonReport = useCallback(() => {
+    try {
+      const audited = recordAuditEvent(result, 'report-exported', 'JSON report saved');
+      const blob = new Blob([encodeJsonReport(audited)], { type: 'application/json' });
+      onExportRecorded(audited);
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      const safeFileName = fileName.replace(/[^a-z0-9]/gi, '_').toLowerCase();
+      a.download = `${safeFileName}${JSON_REPORT_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error("Error exporting JSON report:", error);
+      alert(`The JSON report could not be exported: ${error.message}`);
+    }
+  }, [result, fileName, onExportRecorded]);
 
   const tabs = [
     { id: 'summary', label: 'Summary & Actions', icon: <TargetIcon className="w-5 h-5 mr-2" /> },
     { id: 'narrative', label: 'Case Narrative', icon: <FileTextIcon className="w-5 h-5 mr-2" /> },
+    { id: 'timeline', label: 'Timeline', icon: <ClockIcon className="w-5 h-5 mr-2" /> },
     { id: 'evidence', label: 'Evidence', icon: <StarIcon className="w-5 h-5 mr-2" /> },
     { id: 'legal', label: 'Legal & Dishonesty', icon: <GavelIcon className="w-5 h-5 mr-2" /> },
+    { id: 'contradictions', label: 'Contradictions', icon: <ArrowsRightLeftIcon className="w-5 h-5 mr-2" /> },
+    ...(result.consensus ? [{ id: 'consensus', label: 'Consensus', icon: <ScaleIcon className="w-5 h-5 mr-2" /> }] : []),
+    ...(isStreaming ? [] : [{ id: 'compare', label: 'Compare', icon: <DocumentDuplicateIcon className="w-5 h-5 mr-2" /> }]),
     { id: 'declarations', label: 'Declarations', icon: <CheckboxIcon className="w-5 h-5 mr-2" /> },
   ];
 
@@ -195,10 +402,20 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
       <div className="text-center">
         <h2 className="text-3xl font-bold text-gray-100 font-roboto-mono">DEEPSEEK VERUM OMNIS: INSTITUTIONAL REVIEW</h2>
         <p className="text-gray-400 mt-1">Forensic Analysis of: <span className="font-semibold text-gray-200">{fileName}</span></p>
+        <p className="text-sm text-gray-500 mt-1">
+          Jurisdiction: <span className="text-gray-300">{result.jurisdiction ? `${result.jurisdiction.name} (${result.jurisdiction.code})` : 'Inferred from the documents'}</span>
+        </p>
+        {result.corrections.length > 0 && (
+          <button onClick={() => setActiveTab('declarations')} className="mt-3 inline-flex items-center px-3 py-1 text-xs font-semibold rounded-full bg-yellow-900/40 border border-yellow-700 text-yellow-300 hover:bg-yellow-900/60">
+            <AlertTriangleIcon className="w-4 h-4 mr-1.5" />
+            {result.corrections.length} automatic correction{result.corrections.length === 1 ? '' : 's'} applied to the model response
+          </button>
+        )}
       </div>
 
       <div className="flex flex-col lg:flex-row gap-8">
         <div className="flex-1 lg:w-1/2">
+            {!isStreaming && <ReviewQueue result={result} reviewer={reviewer} onReviewerChange={handleReviewerChange} onSelect={handleSelectReviewItem} />}
             <div className="mb-6 border-b border-gray-700 flex flex-wrap -mb-px">
               {tabs.map(tab => (
                 <button
@@ -218,15 +435,18 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
 
             <div className="space-y-6">
               {activeTab === 'summary' && (
-                <CollapsibleSection title="Actionable Output" icon={<TargetIcon className="w-7 h-7 text-teal-400"/>}>
+                <CollapsibleSection title="Actionable Output" icon={<TargetIcon className="w-7 h-7 text-teal-400"/>} pending={isPending('actionableOutput')}>
                   <div className="space-y-6">
                       <div className="p-4 rounded-lg bg-gray-900/50 border border-gray-700">
                           <h4 className="text-lg font-bold text-gray-100 mb-2">Top Liabilities</h4>
                           <ul className="space-y-2">
                           {result.actionableOutput.topLiabilities.map((item, i) => (
-                              <li key={i} className="flex items-center text-gray-300 p-2 bg-gray-800/50 rounded-md">
-                                  <AlertTriangleIcon className={`w-5 h-5 mr-3 flex-shrink-0 ${item.severity === 'Critical' ? 'text-red-400' : 'text-orange-400'}`} />
-                                  <span>{item.name}</span>
+                              <li key={i} id={findingElementId(reviewTarget('liability', i))} className={`p-2 bg-gray-800/50 rounded-md ${rejectedClass('liability', i)}`}>
+                                  <div className="flex items-center text-gray-300">
+                                    <AlertTriangleIcon className={`w-5 h-5 mr-3 flex-shrink-0 ${item.severity === 'Critical' ? 'text-red-400' : 'text-orange-400'}`} />
+                                    <span>{item.name}</span>
+                                  </div>
+                                  {renderReviewControls('liability', i)}
                               </li>
                           ))}
                           </ul>
@@ -251,15 +471,17 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
                                       <tr>
                                           <th className="p-3 rounded-tl-lg">Jurisdiction</th>
                                           <th className="p-3">Action</th>
-                                          <th className="p-3 rounded-tr-lg">Legal Basis</th>
+                                          <th className="p-3">Legal Basis</th>
+                                          <th className="p-3 rounded-tr-lg">Review</th>
                                       </tr>
                                   </thead>
                                   <tbody className="text-gray-300">
                                   {result.actionableOutput.recommendedActions.map((item, i) => (
-                                      <tr key={i} className="border-b border-gray-700 last:border-b-0 hover:bg-gray-800/40">
+                                      <tr key={i} id={findingElementId(reviewTarget('recommendedAction', i))} className={`border-b border-gray-700 last:border-b-0 hover:bg-gray-800/40 ${rejectedClass('recommendedAction', i)}`}>
                                           <td className="p-3 font-semibold">{item.jurisdiction}</td>
-                                          <td className="p-3" dangerouslySetInnerHTML={{ __html: item.action.replace(/(\(E-\d+\))/g, '<strong class="text-teal-300">$1</strong>') }}></td>
+                                          <td className="p-3"><HighlightedText text={item.action} marker={CITATION_MARKERS.evidence} className="text-teal-300" /></td>
                                           <td className="p-3 font-mono text-gray-400">{item.legalBasis}</td>
+                                          <td className="p-3 align-top min-w-[12rem]">{renderReviewControls('recommendedAction', i)}</td>
                                       </tr>
                                   ))}
                                   </tbody>
@@ -270,38 +492,81 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
                 </CollapsibleSection>
               )}
               {activeTab === 'narrative' && (
-                 <CollapsibleSection title="Case Narrative" icon={<FileTextIcon className="w-7 h-7 text-gray-300"/>}>
+                 <CollapsibleSection title="Case Narrative" icon={<FileTextIcon className="w-7 h-7 text-gray-300"/>} pending={isPending('caseNarrative')}>
                     <p className="text-gray-300 leading-relaxed whitespace-pre-wrap">{result.caseNarrative}</p>
                 </CollapsibleSection>
               )}
+              {activeTab === 'timeline' && (
+                <CollapsibleSection title="Timeline Reconstruction" icon={<ClockIcon className="w-7 h-7 text-cyan-400"/>} pending={isPending('timeline')}>
+                    <TimelineView events={result.timeline} onSelectEvent={jumpToEvidence} citationFor={(i) => citations.get(`timeline[${i}]`)} />
+                </CollapsibleSection>
+              )}
               {activeTab === 'evidence' && (
                 <>
-                  <CollapsibleSection title="Evidence Spotlight: Critical Findings" icon={<StarIcon className="w-7 h-7 text-yellow-400"/>}>
+                  {result.documents.length > 0 && (
+                    <CollapsibleSection title="Case Documents" icon={<FileTextIcon className="w-7 h-7 text-blue-300"/>}>
+                        <div className="overflow-x-auto">
+                            <table className="w-full text-left text-sm">
+                                <thead className="bg-gray-700/50 text-gray-300">
+                                    <tr>
+                                        <th className="p-3 rounded-tl-lg">ID</th>
+                                        <th className="p-3">File</th>
+                                        <th className="p-3 rounded-tr-lg">{result.hashAlgorithm || 'SHA-512'}</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="text-gray-300">
+                                {result.documents.map((doc) => (
+                                    <tr key={doc.documentId} onClick={() => jumpToEvidence(doc.documentId, 1)} className="border-b border-gray-700 last:border-b-0 hover:bg-gray-800/40 cursor-pointer transition-colors">
+                                        <td className="p-3 font-mono text-gray-400">{doc.documentId}</td>
+                                        <td className="p-3">{doc.fileName}</td>
+                                        <td className="p-3 font-mono text-xs text-gray-400">{doc.documentHash.substring(0, 24)}...</td>
+                                    </tr>
+                                ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </CollapsibleSection>
+                  )}
+                  {result.citationChecks.length > 0 && (
+                    <div className="p-4 rounded-lg bg-gray-800/50 border border-gray-700 text-sm text-gray-300">
+                      <strong className="font-semibold text-gray-200">Citation check:</strong>{' '}
+                      {citationSummary.verified ?? 0} verified, {citationSummary.approximate ?? 0} approximate, {citationSummary.unverifiable ?? 0} unverifiable against the locally extracted evidence text. Hover a badge for details.
+                    </div>
+                  )}
+                  <CollapsibleSection title="Evidence Spotlight: Critical Findings" icon={<StarIcon className="w-7 h-7 text-yellow-400"/>} pending={isPending('evidenceSpotlight')}>
                       <div className="space-y-4">
                           {result.evidenceSpotlight.map((item, index) => (
-                              <div key={index} onClick={() => setTargetPage(item.pageNumber)} className="p-4 bg-yellow-900/20 border-l-4 border-yellow-500 rounded-r-md cursor-pointer hover:bg-yellow-900/40 transition-colors">
-                                  <h4 className="text-lg font-bold text-yellow-300">★ {item.title} (Page {item.pageNumber})</h4>
+                              <div key={index} id={findingElementId(reviewTarget('spotlight', index))} onClick={() => jumpToEvidence(item.documentId, item.pageNumber)} className={`p-4 bg-yellow-900/20 border-l-4 border-yellow-500 rounded-r-md cursor-pointer hover:bg-yellow-900/40 transition-colors ${rejectedClass('spotlight', index)}`}>
+                                  <div className="flex items-start justify-between gap-3">
+                                    <h4 className="text-lg font-bold text-yellow-300">★ {item.title} ({item.documentId ? `${item.documentId}, ` : ''}Page {item.pageNumber})</h4>
+                                    <CitationBadge check={citations.get(`evidenceSpotlight[${index}]`)} />
+                                  </div>
                                   <p className="text-yellow-200 mt-2">{item.significance}</p>
+                                  {renderReviewControls('spotlight', index)}
                               </div>
                           ))}
                       </div>
                   </CollapsibleSection>
-                  <CollapsibleSection title="Evidence Index" icon={<FileTextIcon className="w-7 h-7 text-gray-300"/>}>
+                  <CollapsibleSection title="Evidence Index" icon={<FileTextIcon className="w-7 h-7 text-gray-300"/>} pending={isPending('evidenceIndex')}>
                       <div className="overflow-x-auto">
                           <table className="w-full text-left text-sm">
                               <thead className="bg-gray-700/50 text-gray-300">
                                   <tr>
                                       <th className="p-3 rounded-tl-lg">ID</th>
                                       <th className="p-3">Description</th>
-                                      <th className="p-3 rounded-tr-lg">Page</th>
+                                      <th className="p-3">Document</th>
+                                      <th className="p-3">Page</th>
+                                      <th className="p-3 rounded-tr-lg">Citation</th>
                                   </tr>
                               </thead>
                               <tbody className="text-gray-300">
                               {result.evidenceIndex.map((item, i) => (
-                                  <tr key={i} onClick={() => setTargetPage(item.pageNumber)} className="border-b border-gray-700 last:border-b-0 hover:bg-gray-800/40 cursor-pointer transition-colors">
+                                  <tr key={i} onClick={() => jumpToEvidence(item.documentId, item.pageNumber)} className="border-b border-gray-700 last:border-b-0 hover:bg-gray-800/40 cursor-pointer transition-colors">
                                       <td className="p-3 font-mono text-gray-400">{item.id}</td>
                                       <td className="p-3">{item.description}</td>
+                                      <td className="p-3 font-mono text-gray-400">{item.documentId}</td>
                                       <td className="p-3 font-semibold">{item.pageNumber}</td>
+                                      <td className="p-3"><CitationBadge check={citations.get(`evidenceIndex[${i}]`)} /></td>
                                   </tr>
                               ))}
                               </tbody>
@@ -312,32 +577,42 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
               )}
               {activeTab === 'legal' && (
                 <>
-                  <CollapsibleSection title="Critical Legal Subjects" icon={<GavelIcon className="w-7 h-7 text-amber-400"/>}>
+                  <CollapsibleSection title="Critical Legal Subjects" icon={<GavelIcon className="w-7 h-7 text-amber-400"/>} pending={isPending('criticalLegalSubjects')}>
                       <div className="space-y-4">
                           {result.criticalLegalSubjects.length > 0 ? result.criticalLegalSubjects.map((item, index) => (
-                              <div key={index} className="p-4 rounded-lg bg-gray-900/40 border border-gray-700/80 transition-shadow hover:shadow-lg hover:border-gray-600">
+                              <div key={index} id={findingElementId(reviewTarget('legalSubject', index))} className={`p-4 rounded-lg bg-gray-900/40 border border-gray-700/80 transition-shadow hover:shadow-lg hover:border-gray-600 ${rejectedClass('legalSubject', index)}`}>
                                   <div className="flex items-center justify-between mb-2">
                                       <h4 className="text-lg font-bold text-gray-100">{item.subject}</h4>
-                                      <SeverityBadge severity={item.severity} />
+                                      <div className="flex items-center gap-2">
+                                        <CitationBadge check={citations.get(`criticalLegalSubjects[${index}]`)} />
+                                        <SeverityBadge severity={item.severity} />
+                                      </div>
                                   </div>
                                   <div className="space-y-2 mt-3">
                                     <p className="text-sm text-gray-400"><strong className="font-semibold text-gray-300">Key Points:</strong> {item.keyPoints.join(', ')}</p>
-                                    <p className="text-sm text-gray-300"><strong className="font-semibold text-gray-300">Evidence:</strong> <span dangerouslySetInnerHTML={{ __html: item.evidence.replace(/(\(Page \d+\))/g, '<strong class="text-amber-300">$1</strong>') }}></span></p>
+                                    <p className="text-sm text-gray-300"><strong className="font-semibold text-gray-300">Evidence:</strong> <HighlightedText text={item.evidence} marker={CITATION_MARKERS.page} className="text-amber-300" /></p>
+                                    <DocumentSources documentIds={item.documentIds} onSelect={setActiveDocumentId} />
                                   </div>
+                                  {renderReviewControls('legalSubject', index)}
                               </div>
                           )) : <p className="text-gray-400">No critical legal subjects were flagged in this analysis.</p>}
                       </div>
                   </CollapsibleSection>
-                  <CollapsibleSection title="Dishonesty Detection Matrix" icon={<EyeIcon className="w-7 h-7 text-purple-400"/>}>
+                  <CollapsibleSection title="Dishonesty Detection Matrix" icon={<EyeIcon className="w-7 h-7 text-purple-400"/>} pending={isPending('dishonestyDetectionMatrix')}>
                       <div className="space-y-4">
                           {result.dishonestyDetectionMatrix.length > 0 ? result.dishonestyDetectionMatrix.map((item, index) => (
-                               <div key={index} className="p-4 rounded-lg bg-gray-900/40 border border-gray-700/80 transition-shadow hover:shadow-lg hover:border-gray-600">
+                               <div key={index} id={findingElementId(reviewTarget('dishonestyFlag', index))} className={`p-4 rounded-lg bg-gray-900/40 border border-gray-700/80 transition-shadow hover:shadow-lg hover:border-gray-600 ${rejectedClass('dishonestyFlag', index)}`}>
                                   <div className="flex items-start">
                                       <SeverityDots severity={item.severity} />
                                       <div className="flex-1">
-                                          <h4 className="font-bold text-gray-200">{item.flag}</h4>
+                                          <div className="flex items-start justify-between gap-3">
+                                            <h4 className="font-bold text-gray-200">{item.flag}</h4>
+                                            <CitationBadge check={citations.get(`dishonestyDetectionMatrix[${index}]`)} />
+                                          </div>
                                           <p className="text-gray-300">{item.description}</p>
-                                          <p className="text-sm text-gray-400 mt-2 pt-2 border-t border-gray-700" dangerouslySetInnerHTML={{ __html: `<strong>Evidence:</strong> ${item.evidence.replace(/(\(Page \d+\))/g, '<strong class="text-purple-300">$1</strong>')}` }}></p>
+                                          <p className="text-sm text-gray-400 mt-2 pt-2 border-t border-gray-700"><strong>Evidence:</strong> <HighlightedText text={item.evidence} marker={CITATION_MARKERS.page} className="text-purple-300" /></p>
+                                          <DocumentSources documentIds={item.documentIds} onSelect={setActiveDocumentId} />
+                                          {renderReviewControls('dishonestyFlag', index)}
                                       </div>
                                   </div>
                                </div>
@@ -346,8 +621,49 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
                   </CollapsibleSection>
                 </>
               )}
+              {activeTab === 'contradictions' && (
+                <CollapsibleSection title="Contradiction Engine" icon={<ArrowsRightLeftIcon className="w-7 h-7 text-rose-400"/>} pending={isPending('contradictions')}>
+                    <div className="space-y-4">
+                        {result.contradictions.length > 0 ? result.contradictions.map((item, index) => (
+                            <div key={index} className="p-4 rounded-lg bg-gray-900/40 border border-gray-700/80 transition-shadow hover:shadow-lg hover:border-gray-600">
+                                <div className="flex items-center justify-between mb-3">
+                                    <span className="text-xs font-semibold uppercase tracking-wider text-rose-300">{item.layer}</span>
+                                    <SeverityBadge severity={item.severity} />
+                                </div>
+                                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                                    {[{ label: 'Claim A', claim: item.claimA, source: item.sourceA, target: 'sourceA' }, { label: 'Claim B', claim: item.claimB, source: item.sourceB, target: 'sourceB' }].map(({ label, claim, source, target }) => (
+                                        <div key={label} onClick={() => jumpToEvidence(source.documentId, source.pageNumber)} className="p-3 rounded-md bg-gray-800/60 border-l-4 border-rose-500 cursor-pointer hover:bg-gray-800 transition-colors">
+                                            <p className="text-xs text-gray-500 mb-1">{label} · {source.documentId ? `${source.documentId}, ` : ''}Page {source.pageNumber}</p>
+                                            <p className="text-gray-200">{claim}</p>
+                                            <div className="mt-2"><CitationBadge check={citations.get(`contradictions[${index}].${target}`)} /></div>
+                                        </div>
+                                    ))}
+                                </div>
+                                <p className="text-sm text-gray-300 mt-3"><strong className="font-semibold text-gray-300">Explanation:</strong> {item.explanation}</p>
+                            </div>
+                        )) : <p className="text-gray-400">No contradictions were detected across the evidence.</p>}
+                    </div>
+                </CollapsibleSection>
+              )}
+              {activeTab === 'consensus' && result.consensus && (
+                <CollapsibleSection title="Triple-AI Consensus Delta" icon={<ScaleIcon className="w-7 h-7 text-indigo-400"/>}>
+                    <ConsensusDeltaView consensus={result.consensus} />
+                </CollapsibleSection>
+              )}
+              {activeTab === 'compare' && (
+                <CollapsibleSection title="Compare Analyses" icon={<DocumentDuplicateIcon className="w-7 h-7 text-blue-400"/>}>
+                    <ReportDiffView
+                      result={result}
+                      library={library}
+                      activeCaseId={activeCaseId}
+                      onExportPdf={diff => onGenerateReportRequest(result, fileName, 'pdf', diff)}
+                      isExporting={exportingFormat !== null}
+                    />
+                </CollapsibleSection>
+              )}
               {activeTab === 'declarations' && (
                 <>
+                  <SignatureStatusPanel signature={signature} canSign={canSign} />
                   <CollapsibleSection title="Pre-Analysis Declaration" icon={<CheckboxIcon className="w-7 h-7 text-blue-400"/>} defaultOpen={false}>
                       <ul className="space-y-2 text-gray-300">
                           <li className="flex items-center"><CheckCircleIcon className="w-5 h-5 text-green-400 mr-2"/>Initiating extraction under Forensic-Chain Protocol</li>
@@ -355,40 +671,156 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
                           <li className="flex items-center"><CheckCircleIcon className="w-5 h-5 text-green-400 mr-2"/>Scope: Entire file content and metadata</li>
                       </ul>
                   </CollapsibleSection>
-                  <CollapsibleSection title="Post-Analysis Declaration" icon={<CheckboxIcon className="w-7 h-7 text-blue-400"/>} defaultOpen={false}>
+                  <CollapsibleSection title="Post-Analysis Declaration" icon={<CheckboxIcon className="w-7 h-7 text-blue-400"/>} pending={isPending('postAnalysisDeclaration')} defaultOpen={false}>
                       <ul className="space-y-2 text-gray-300 mb-4">
                           <li className="flex items-center"><CheckCircleIcon className="w-5 h-5 text-green-400 mr-2"/>Extraction complete. Integrity seals verified.</li>
-                          <li className="flex items-center"><CheckCircleIcon className="w-5 h-5 text-green-400 mr-2"/>Contradictions/redaction breaks logged in: <span className="font-mono ml-2 text-gray-400">{result.postAnalysisDeclaration.logs}</span></li>
+                          <li className="flex items-center"><CheckCircleIcon className="w-5 h-5 text-green-400 mr-2"/><span className="text-gray-400">{describeAuditTrail(result)}</span></li>
                           <li className="flex items-center"><CheckCircleIcon className="w-5 h-5 text-green-400 mr-2"/>Ready for redeployment: New case initialization unlocked.</li>
                       </ul>
                       <div className="mt-4 pt-4 border-t border-gray-700/50">
                           <div className="flex items-center justify-between font-mono text-xs">
                               <p className="text-gray-400 break-all">{result.postAnalysisDeclaration.seal}</p>
                               <div className="flex items-center ml-4">
-                                  <p className="text-gray-500 mr-2">SHA-512:</p>
+                                  <p className="text-gray-500 mr-2">{result.hashAlgorithm || 'SHA-512'}:</p>
                                   <p className="text-gray-400 truncate">{result.documentHash.substring(0,40)}...</p>
                                   <button onClick={handleCopyHash} className="ml-2 p-1.5 rounded-md bg-gray-700/50 hover:bg-gray-700 text-gray-400 hover:text-white">
                                       {isHashCopied ? <CheckIcon className="w-4 h-4 text-green-400" /> : <CopyIcon className="w-4 h-4" />}
                                   </button>
                               </div>
                           </div>
+                          {result.documentHashSha256 && (
+                            <div className="flex items-center justify-end font-mono text-xs mt-2">
+                                <p className="text-gray-500 mr-2">SHA-256:</p>
+                                <p className="text-gray-400 truncate">{result.documentHashSha256}</p>
+                            </div>
+                          )}
                       </div>
                   </CollapsibleSection>
+                  {result.corrections.length > 0 && (
+                    <CollapsibleSection title={`Validation Corrections (${result.corrections.length})`} icon={<AlertTriangleIcon className="w-7 h-7 text-yellow-400"/>} defaultOpen={false}>
+                        <p className="text-sm text-gray-400 mb-3">The model response did not fully match the report contract. These repairs were applied automatically before the report was sealed.</p>
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-gray-700 text-gray-400">
+                                    <th className="py-2 pr-4 font-semibold">Location</th>
+                                    <th className="py-2 font-semibold">Correction</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.corrections.map((item, index) => (
+                                    <tr key={index} className="border-b border-gray-800 align-top">
+                                        <td className="py-2 pr-4 font-mono text-xs text-gray-400 break-all">{item.path}</td>
+                                        <td className="py-2 text-gray-300">{item.message}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </CollapsibleSection>
+                  )}
+                  {auditVerification.status !== 'missing' && (
+                    <CollapsibleSection title={`Audit Trail (${result.auditLog!.length})`} icon={<ClockIcon className="w-7 h-7 text-blue-400"/>} defaultOpen={false}>
+                        {auditVerification.status === 'intact' ? (
+                          <p className="text-sm text-green-300 mb-3">Hash chain verified: every entry links to the one before it and none has been altered.</p>
+                        ) : (
+                          <div className="mb-3 p-3 rounded-md bg-red-900/30 border border-red-700 text-sm text-red-300">
+                            <p className="font-semibold mb-1">The audit trail has been altered.</p>
+                            <ul className="list-disc list-inside">
+                              {auditVerification.problems.map((problem, i) => <li key={i}>{problem}</li>)}
+                            </ul>
+                          </div>
+                        )}
+                        <table className="w-full text-left text-sm">
+                            <thead>
+                                <tr className="border-b border-gray-700 text-gray-400">
+                                    <th className="py-2 pr-4 font-semibold">#</th>
+                                    <th className="py-2 pr-4 font-semibold">Event</th>
+                                    <th className="py-2 font-semibold">Detail</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {result.auditLog!.map(entry => (
+                                    <tr key={entry.sequence} className="border-b border-gray-800 align-top">
+                                        <td className="py-2 pr-4 font-mono text-xs text-gray-500">{entry.sequence}</td>
+                                        <td className="py-2 pr-4 text-gray-300 whitespace-nowrap">
+                                            {AUDIT_EVENT_LABELS[entry.event] ?? entry.event}
+                                            <span className="block text-xs text-gray-500">{new Date(entry.timestamp).toLocaleString()}</span>
+                                        </td>
+                                        <td className="py-2 text-gray-300 break-all">
+                                            {entry.detail}
+                                            <span className="block font-mono text-xs text-gray-500" title={entry.hash}>{entry.hash.substring(0, 16)}...</span>
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </CollapsibleSection>
+                  )}
                 </>
               )}
             </div>
         </div>
         <div className="flex-1 lg:w-1/2">
             <div className="lg:sticky lg:top-8">
-                <EvidenceViewer file={file} pageNumber={targetPage} />
+                {onAskQuestion && (
+                  <ChatAssistant
+                    messages={chatMessages}
+                    isAnswering={isAnswering}
+                    onAsk={onAskQuestion}
+                    onCite={jumpToEvidence}
+                  />
+                )}
+                {onVerifyEvidence && (
+                  <EvidenceVerifier
+                    result={result}
+                    verification={evidenceVerification}
+                    isVerifying={isVerifyingEvidence}
+                    onVerify={onVerifyEvidence}
+                  />
+                )}
+                {result.documents.length > 1 && (
+                  <div className="flex flex-wrap gap-2 mb-4">
+                    {result.documents.map(doc => (
+                      <button
+                        key={doc.documentId}
+                        onClick={() => { setActiveDocumentId(doc.documentId); setTargetPage(null); }}
+                        title={doc.fileName}
+                        className={`px-3 py-1 rounded-md text-xs font-mono border transition-colors ${
+                          activeDocumentId === doc.documentId
+                            ? 'bg-blue-600 border-blue-500 text-white'
+                            : 'bg-gray-800/50 border-gray-600 text-gray-300 hover:bg-gray-700'
+                        } ${evidenceFiles[doc.documentId] ? '' : 'opacity-60'}`}
+                      >
+                        {doc.documentId}
+                      </button>
+                    ))}
+                  </div>
+                )}
+                <EvidenceViewer file={viewerFile} pageNumber={targetPage} />
             </div>
         </div>
       </div>
      
+      {!isStreaming && (
       <div className="mt-8 text-center flex items-center justify-center space-x-4 flex-wrap gap-y-4">
-        <button onClick={handleDownloadPdfReport} disabled={isGeneratingPdf} className="px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-75">
+        <button onClick={handleDownloadPdfReport} disabled={exportingFormat !== null} className="px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-75">
           <DownloadIcon className="w-5 h-5" />
-          <span>{isGeneratingPdf ? 'Generating...' : 'Download PDF Report'}</span>
+          <span>{exportingFormat === 'pdf' ? 'Generating...' : 'Download PDF Report'}</span>
+        </button>
+        <button
+          onClick={() => onGenerateReportRequest(result, fileName, 'docx')}
+          disabled={exportingFormat !== null}
+          className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-lg hover:bg-indigo-700 transition-colors flex items-center space-x-2 disabled:opacity-75"
+        >
+          <FileTextIcon className="w-5 h-5" />
+          <span>{exportingFormat === 'docx' ? 'Generating...' : 'Download Word (.docx)'}</span>
+        </button>
+        <button
+          onClick={() => onGenerateReportRequest(result, fileName, 'html')}
+          disabled={exportingFormat !== null}
+          className="px-6 py-3 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors flex items-center space-x-2 disabled:opacity-75"
+        >
+          <FileTextIcon className="w-5 h-5" />
+          <span>{exportingFormat === 'html' ? 'Generating...' : 'Download HTML'}</span>
         </button>
         <button
           onClick={handleDownloadBinaryReport}
@@ -398,11 +830,22 @@ export const AnalysisDisplay: React.FC<AnalysisDisplayProps> = ({ result, file,
           <BinaryIcon className="w-5 h-5" />
           <span>{isEncoding ? 'Encoding...' : 'Save .bin Report'}</span>
         </button>
+        <button
+          onClick={handleDownloadJsonReport}
+          className="px-6 py-3 bg-gray-700 text-white font-semibold rounded-lg hover:bg-gray-600 transition-colors flex items-center space-x-2"
+        >
+          <ClipboardTextIcon className="w-5 h-5" />
+          <span>Export JSON Report</span>
+        </button>
         <button onClick={onReset} className="px-6 py-3 bg-gray-700/50 border border-gray-600 text-gray-300 font-semibold rounded-lg hover:bg-gray-700 flex items-center space-x-2">
           <ResetIcon className="w-5 h-5" />
           <span>Analyze New File</span>
         </button>
       </div>
+      )}
+      {exportingFormat && exportProgress && (
+        <p className="mt-3 text-center text-sm text-gray-400" role="status">{exportProgress}</p>
+      )}
     </div>
   );
 };
@@ -0,0 +1,263 @@
+import React, { useEffect, useState } from 'react';
+import type { CaseSummary } from '../types.ts';
+import { REPORT_PDF_SLOT, hasCaseLibrary, matchesCaseQuery } from '../services/caseLibraryService.ts';
+import type { CaseLibrary as CaseLibraryStore } from '../services/caseLibraryService.ts';
+import { ArchiveBoxIcon, LockClosedIcon } from './icons.tsx';
+
+interface CaseLibraryProps {
+  library: CaseLibraryStore | null;
+  activeCaseId: string | null;
+  onUnlock: (passphrase: string) => Promise<void>;
+  onLock: () => void;
+  onOpenCase: (id: string) => void;
+}
+
+const inputClassName = "w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 text-sm focus:outline-none focus:border-blue-500";
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString();
+
+const parseTags = (text: string) => [...new Set(text.split(',').map(tag => tag.trim()).filter(Boolean))];
+
+const UnlockForm: React.FC<{ onUnlock: (passphrase: string) => Promise<void> }> = ({ onUnlock }) => {
+  const [exists, setExists] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState(false);
+
+  useEffect(() => {
+    hasCaseLibrary().then(setExists).catch(e => {
+      console.error("Could not open the case library:", e);
+      setError('The case library is not available in this browser.');
+    });
+  }, []);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (exists === false && passphrase !== confirmation) {
+      setError('The passphrases do not match.');
+      return;
+    }
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (e: any) {
+      setError(e.message);
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="max-w-md mx-auto p-6 rounded-lg bg-gray-800/50 border border-gray-700 space-y-4">
+      <div className="flex items-center">
+        <LockClosedIcon className="w-6 h-6 text-blue-400 mr-2" />
+        <h3 className="text-lg font-bold text-gray-100">{exists === false ? 'Create a passphrase' : 'Unlock the case library'}</h3>
+      </div>
+      <p className="text-sm text-gray-400">
+        {exists === false
+          ? 'Cases are encrypted on this device with a key derived from your passphrase. It cannot be recovered if forgotten.'
+          : 'Enter your passphrase to decrypt the cases stored on this device.'}
+      </p>
+      <input
+        type="password"
+        className={inputClassName}
+        placeholder="Passphrase"
+        value={passphrase}
+        onChange={e => setPassphrase(e.target.value)}
+        autoComplete={exists === false ? 'new-password' : 'current-password'}
+        autoFocus
+        required
+      />
+      {exists === false && (
+        <input
+          type="password"
+          className={inputClassName}
+          placeholder="Confirm passphrase"
+          value={confirmation}
+          onChange={e => setConfirmation(e.target.value)}
+          autoComplete="new-password"
+          required
+        />
+      )}
+      {error && <p className="text-sm text-red-400">{error}</p>}
+      <button
+        type="submit"
+        disabled={exists === null || isUnlocking}
+        className="w-full px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700 disabled:bg-gray-600 disabled:cursor-not-allowed"
+      >
+        {isUnlocking ? 'Deriving key...' : exists === false ? 'Create library' : 'Unlock'}
+      </button>
+    </form>
+  );
+};
+
+interface CaseRowProps {
+  summary: CaseSummary;
+  isActive: boolean;
+  onOpen: () => void;
+  onUpdate: (changes: Partial<Pick<CaseSummary, 'name' | 'tags' | 'notes'>>) => Promise<void>;
+  onDelete: () => Promise<void>;
+}
+
+const CaseRow: React.FC<CaseRowProps> = ({ summary, isActive, onOpen, onUpdate, onDelete }) => {
+  const [isEditing, setIsEditing] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+  const [name, setName] = useState(summary.name);
+  const [tags, setTags] = useState(summary.tags.join(', '));
+  const [notes, setNotes] = useState(summary.notes);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await onUpdate({ name: name.trim() || summary.name, tags: parseTags(tags), notes });
+    setIsEditing(false);
+  };
+
+  const evidenceCount = summary.files.filter(f => f.slot !== REPORT_PDF_SLOT).length;
+
+  return (
+    <li className={`p-4 rounded-lg border ${isActive ? 'border-blue-500 bg-blue-900/10' : 'border-gray-700 bg-gray-800/50'}`}>
+      <div className="flex flex-col sm:flex-row sm:items-start sm:justify-between gap-3">
+        <div className="min-w-0">
+          <h4 className="font-semibold text-gray-100 truncate">{summary.name}</h4>
+          <p className="text-xs text-gray-500 font-mono">
+            Updated {formatDate(summary.updatedAt)} · {evidenceCount} document(s) · Dishonesty score {summary.dishonestyScore}
+          </p>
+          {summary.tags.length > 0 && (
+            <div className="mt-2 flex flex-wrap gap-1">
+              {summary.tags.map(tag => (
+                <span key={tag} className="px-2 py-0.5 text-xs rounded-full bg-gray-700 text-gray-300">{tag}</span>
+              ))}
+            </div>
+          )}
+          {summary.notes && !isEditing && <p className="mt-2 text-sm text-gray-400 whitespace-pre-wrap">{summary.notes}</p>}
+        </div>
+        <div className="flex flex-shrink-0 space-x-2">
+          <button onClick={onOpen} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700">Open</button>
+          <button onClick={() => setIsEditing(!isEditing)} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600">
+            {isEditing ? 'Cancel' : 'Edit'}
+          </button>
+          {isConfirmingDelete ? (
+            <>
+              <button onClick={onDelete} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-red-700 text-white hover:bg-red-600">Confirm delete</button>
+              <button onClick={() => setIsConfirmingDelete(false)} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600">Keep</button>
+            </>
+          ) : (
+            <button onClick={() => setIsConfirmingDelete(true)} className="px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 text-red-300 hover:bg-gray-600">Delete</button>
+          )}
+        </div>
+      </div>
+      {isEditing && (
+        <form onSubmit={handleSave} className="mt-4 space-y-3">
+          <label className="block text-sm text-gray-300">
+            Name
+            <input className={`${inputClassName} mt-1`} value={name} onChange={e => setName(e.target.value)} required />
+          </label>
+          <label className="block text-sm text-gray-300">
+            Tags <span className="text-gray-500">(comma-separated)</span>
+            <input className={`${inputClassName} mt-1`} value={tags} onChange={e => setTags(e.target.value)} />
+          </label>
+          <label className="block text-sm text-gray-300">
+            Notes
+            <textarea className={`${inputClassName} mt-1`} rows={4} value={notes} onChange={e => setNotes(e.target.value)} />
+          </label>
+          <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700">Save</button>
+        </form>
+      )}
+    </li>
+  );
+};
+
+export const CaseLibrary: React.FC<CaseLibraryProps> = ({ library, activeCaseId, onUnlock, onLock, onOpenCase }) => {
+  const [cases, setCases] = useState<CaseSummary[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!library) {
+      setCases(null);
+      return;
+    }
+    library.listCases().then(setCases).catch(e => {
+      console.error("Could not list saved cases:", e);
+      setError('Saved cases could not be decrypted.');
+    });
+  }, [library]);
+
+  const handleUpdate = async (id: string, changes: Partial<Pick<CaseSummary, 'name' | 'tags' | 'notes'>>) => {
+    if (!library) return;
+    try {
+      const updated = await library.updateCase(id, changes);
+      setCases(prev => prev && [updated, ...prev.filter(c => c.id !== id)]);
+    } catch (e: any) {
+      console.error("Could not update case:", e);
+      setError(`Could not update the case: ${e.message}`);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    if (!library) return;
+    try {
+      await library.deleteCase(id);
+      setCases(prev => prev && prev.filter(c => c.id !== id));
+    } catch (e: any) {
+      console.error("Could not delete case:", e);
+      setError(`Could not delete the case: ${e.message}`);
+    }
+  };
+
+  const visibleCases = (cases ?? []).filter(summary => matchesCaseQuery(summary, query));
+
+  return (
+    <div className="max-w-4xl mx-auto animate-fade-in">
+      <div className="flex items-center justify-between mb-6">
+        <div className="flex items-center">
+          <ArchiveBoxIcon className="w-7 h-7 text-blue-400 mr-3" />
+          <h2 className="text-3xl font-bold text-gray-100">Case Library</h2>
+        </div>
+        {library && (
+          <button onClick={onLock} className="flex items-center px-3 py-1.5 text-sm font-semibold rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600">
+            <LockClosedIcon className="w-4 h-4 mr-2" />
+            Lock
+          </button>
+        )}
+      </div>
+
+      {!library ? (
+        <UnlockForm onUnlock={onUnlock} />
+      ) : (
+        <>
+          <p className="text-sm text-gray-400 mb-4">
+            New analyses and generated reports are saved here automatically while the library is unlocked.
+          </p>
+          <input
+            type="search"
+            className={`${inputClassName} mb-4`}
+            placeholder="Search by name, tag, note or file name"
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+          />
+          {error && <p className="text-sm text-red-400 mb-4">{error}</p>}
+          {cases === null ? (
+            <p className="text-gray-500">Decrypting saved cases...</p>
+          ) : visibleCases.length === 0 ? (
+            <p className="text-gray-500">{cases.length === 0 ? 'No cases saved yet.' : 'No cases match your search.'}</p>
+          ) : (
+            <ul className="space-y-3">
+              {visibleCases.map(summary => (
+                <CaseRow
+                  key={summary.id}
+                  summary={summary}
+                  isActive={summary.id === activeCaseId}
+                  onOpen={() => onOpenCase(summary.id)}
+                  onUpdate={changes => handleUpdate(summary.id, changes)}
+                  onDelete={() => handleDelete(summary.id)}
+                />
+              ))}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
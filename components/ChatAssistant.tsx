@@ -1,27 +1,115 @@
-
-import React from 'react';
+import React, { useEffect, useRef, useState } from 'react';
+import type { ChatMessage } from '../types.ts';
+import { splitCitations } from '../services/chatService.ts';
+import { ChatBubbleIcon, ChevronDownIcon } from './icons.tsx';
 
 interface ChatAssistantProps {
-  onProceed: () => void;
+  messages: ChatMessage[];
+  isAnswering: boolean;
+  onAsk: (question: string) => void;
+  // Moves the evidence viewer to a cited page.
+  onCite: (documentId: string, pageNumber: number) => void;
 }
 
-export const ChatAssistant: React.FC<ChatAssistantProps> = ({ onProceed }) => {
+const EXAMPLE_QUESTIONS = [
+  'Which findings rely only on a single page?',
+  'Draft a timeline of payments.',
+  'What evidence supports the highest-severity liability?',
+];
+
+const MessageText: React.FC<{ text: string; onCite: ChatAssistantProps['onCite'] }> = ({ text, onCite }) => (
+  <p className="whitespace-pre-wrap break-words">
+    {splitCitations(text).map((segment, i) => segment.kind === 'text'
+      ? <React.Fragment key={i}>{segment.text}</React.Fragment>
+      : (
+        <button
+          key={i}
+          onClick={() => onCite(segment.documentId, segment.pageNumber)}
+          className="mx-0.5 px-1.5 py-0.5 rounded bg-blue-900/50 border border-blue-700 text-blue-300 font-mono text-xs hover:bg-blue-800/60"
+          title={`Show ${segment.documentId}, page ${segment.pageNumber}`}
+        >
+          {segment.documentId} p.{segment.pageNumber}
+        </button>
+      ))}
+  </p>
+);
+
+export const ChatAssistant: React.FC<ChatAssistantProps> = ({ messages, isAnswering, onAsk, onCite }) => {
+  const [isOpen, setIsOpen] = useState(messages.length > 0);
+  const [question, setQuestion] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ block: 'nearest' });
+  }, [messages.length, isAnswering]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = question.trim();
+    if (!text || isAnswering) return;
+    onAsk(text);
+    setQuestion('');
+  };
+
   return (
-    <div className="max-w-3xl mx-auto text-center animate-fade-in">
-      <h2 className="text-3xl font-bold text-gray-100 mb-4">Welcome to Verum Omnis</h2>
-      <p className="text-gray-400 mb-8 max-w-2xl mx-auto">
-        I am an autonomous legal-verification engine. My purpose is to serve as an advanced forensic AI analyst. Provide any document, and I will perform a deep forensic analysis based on legal, behavioral, and financial intelligence to identify patterns of criminal or dishonest behavior.
-      </p>
-      <button
-        onClick={onProceed}
-        className="px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500"
-      >
-        Initiate Analysis
+    <div className="mb-6 rounded-lg bg-gray-800/50 border border-gray-700 animate-fade-in">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-4 text-left">
+        <span className="flex items-center text-lg font-bold text-gray-200">
+          <ChatBubbleIcon className="w-6 h-6 mr-2 text-blue-400" />
+          Ask About This Case
+          {messages.length > 0 && <span className="ml-2 text-xs font-normal text-gray-500">({messages.length})</span>}
+        </span>
+        <ChevronDownIcon className={`w-5 h-5 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
       </button>
-      <div className="mt-8 text-sm text-gray-500 space-y-2">
-          <p><span className="font-semibold text-gray-400">Objective & Evidence-Based:</span> All findings are derived directly from the provided evidence, ensuring an unbiased and factual report.</p>
-          <p><span className="font-semibold text-gray-400">Secure & Private:</span> Your documents are processed entirely on-device. No data is ever uploaded or stored on external servers.</p>
-      </div>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          <p className="text-xs text-gray-400 mb-3">
+            Answers draw only on this analysis and the evidence text, redacted as for the analysis. Click a citation to open the cited page.
+          </p>
+          <div className="max-h-96 overflow-y-auto space-y-3 mb-3 pr-1">
+            {messages.length === 0 && (
+              <div className="flex flex-wrap gap-2">
+                {EXAMPLE_QUESTIONS.map(example => (
+                  <button
+                    key={example}
+                    onClick={() => setQuestion(example)}
+                    className="px-3 py-1 rounded-full text-xs border border-gray-600 text-gray-300 hover:bg-gray-700"
+                  >
+                    {example}
+                  </button>
+                ))}
+              </div>
+            )}
+            {messages.map((message, i) => (
+              <div key={i} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[90%] rounded-lg px-3 py-2 text-sm ${message.role === 'user' ? 'bg-blue-600 text-white' : 'bg-gray-900/70 border border-gray-700 text-gray-200'}`}>
+                  {message.role === 'user' ? <p className="whitespace-pre-wrap break-words">{message.text}</p> : <MessageText text={message.text} onCite={onCite} />}
+                  {message.model && <p className="mt-1 text-[10px] text-gray-500">{message.model}</p>}
+                </div>
+              </div>
+            ))}
+            {isAnswering && <p className="text-sm text-gray-400 animate-pulse">Reviewing the analysis and evidence...</p>}
+            <div ref={endRef} />
+          </div>
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <input
+              type="text"
+              value={question}
+              onChange={e => setQuestion(e.target.value)}
+              placeholder="Ask a follow-up question..."
+              className="flex-1 px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 text-sm focus:outline-none focus:border-blue-500"
+            />
+            <button
+              type="submit"
+              disabled={!question.trim() || isAnswering}
+              className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+            >
+              Ask
+            </button>
+          </form>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,19 @@
+import React from 'react';
+import type { CitationCheck, CitationStatus } from '../types.ts';
+
+const statusStyles: Record<CitationStatus, { label: string; className: string }> = {
+  verified: { label: 'Citation verified', className: 'bg-emerald-900/50 border-emerald-700 text-emerald-300' },
+  approximate: { label: 'Citation approximate', className: 'bg-yellow-900/40 border-yellow-700 text-yellow-300' },
+  unverifiable: { label: 'Citation unverifiable', className: 'bg-red-900/40 border-red-700 text-red-300' },
+};
+
+// Reports predating citation verification carry no checks, so nothing is shown for them.
+export const CitationBadge: React.FC<{ check?: CitationCheck }> = ({ check }) => {
+  if (!check) return null;
+  const style = statusStyles[check.status] ?? statusStyles.unverifiable;
+  return (
+    <span title={check.detail} className={`inline-flex items-center px-2 py-0.5 text-xs font-semibold rounded-full border whitespace-nowrap ${style.className}`}>
+      {style.label}
+    </span>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import type { ConsensusAgreement, ConsensusCategory, ConsensusReport } from '../types.ts';
+
+interface ConsensusDeltaViewProps {
+  consensus: ConsensusReport;
+}
+
+const agreementStyles: Record<ConsensusAgreement, { label: string; className: string }> = {
+  all: { label: 'Agreed by all', className: 'bg-emerald-700 text-emerald-100' },
+  majority: { label: 'Agreed by majority', className: 'bg-sky-700 text-sky-100' },
+  single: { label: 'Single model only', className: 'bg-gray-600 text-gray-200' },
+};
+
+const categoryLabels: Record<ConsensusCategory, string> = {
+  legalSubject: 'Legal Subjects',
+  dishonestyFlag: 'Dishonesty Flags',
+  liability: 'Top Liabilities',
+};
+
+export const ConsensusDeltaView: React.FC<ConsensusDeltaViewProps> = ({ consensus }) => {
+  const [filter, setFilter] = useState<ConsensusAgreement | 'any'>('any');
+
+  const counts = consensus.items.reduce((acc, item) => {
+    acc[item.agreement] = (acc[item.agreement] ?? 0) + 1;
+    return acc;
+  }, {} as Partial<Record<ConsensusAgreement, number>>);
+
+  // Configured models that failed to respond count against every finding.
+  const silentModels = consensus.models.filter(model => !consensus.scores.some(score => score.model === model));
+
+  const visibleItems = filter === 'any' ? consensus.items : consensus.items.filter(item => item.agreement === filter);
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 rounded-lg bg-gray-900/50 border border-gray-700">
+        <h4 className="text-lg font-bold text-gray-100 mb-3">Dishonesty Score by Model</h4>
+        <ul className="space-y-2">
+          {consensus.scores.map(score => (
+            <li key={score.model} className="text-sm">
+              <div className="flex justify-between text-gray-300 mb-1">
+                <span className="font-mono">{score.model}</span>
+                <span className="font-bold">{score.dishonestyScore}</span>
+              </div>
+              <div className="w-full bg-gray-700 rounded-full h-1.5">
+                <div className="bg-gradient-to-r from-yellow-500 to-red-500 h-1.5 rounded-full" style={{ width: `${score.dishonestyScore}%` }}></div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {(['any', 'all', 'majority', 'single'] as const).map(option => (
+          <button
+            key={option}
+            onClick={() => setFilter(option)}
+            className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${filter === option ? 'bg-blue-600 text-white' : 'bg-gray-700/60 text-gray-300 hover:bg-gray-700'}`}
+          >
+            {option === 'any' ? `All findings (${consensus.items.length})` : `${agreementStyles[option].label} (${counts[option] ?? 0})`}
+          </button>
+        ))}
+      </div>
+
+      {(Object.keys(categoryLabels) as ConsensusCategory[]).map(category => {
+        const items = visibleItems.filter(item => item.category === category);
+        if (items.length === 0) return null;
+        return (
+          <div key={category}>
+            <h4 className="text-sm font-semibold uppercase tracking-wider text-gray-400 mb-2">{categoryLabels[category]}</h4>
+            <div className="space-y-2">
+              {items.map((item, index) => (
+                <div key={`${item.finding}-${index}`} className="p-3 rounded-md bg-gray-900/40 border border-gray-700/80">
+                  <div className="flex items-center justify-between gap-3">
+                    <p className="text-gray-200 font-semibold">{item.finding}</p>
+                    <span className={`flex-shrink-0 px-2 py-0.5 text-xs font-semibold rounded-full ${agreementStyles[item.agreement].className}`}>
+                      {item.models.length}/{consensus.models.length}
+                    </span>
+                  </div>
+                  <ul className="mt-2 text-xs font-mono text-gray-400 space-y-0.5">
+                    {consensus.models.map(model => {
+                      const i = item.models.indexOf(model);
+                      return (
+                        <li key={model} className={i === -1 ? 'text-gray-600 line-through' : ''}>
+                          {model}{i !== -1 && item.severities[i] ? ` · ${item.severities[i]}` : ''}{silentModels.includes(model) ? ' · no response' : ''}
+                        </li>
+                      );
+                    })}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+      <p className="text-xs text-gray-500">Only findings agreed by a majority of models appear in the other tabs.</p>
+    </div>
+  );
+};
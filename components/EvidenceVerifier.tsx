@@ -0,0 +1,146 @@
+import React, { useCallback, useState } from 'react';
+import type { AnalysisResult, EvidenceVerification, ReportPayloadVerification } from '../types.ts';
+import { FileIcon, CheckCircleIcon, AlertTriangleIcon } from './icons.tsx';
+import { verifyReportPayload } from '../services/verificationPayload.ts';
+
+interface EvidenceVerifierProps {
+  result: AnalysisResult;
+  verification: EvidenceVerification | null;
+  isVerifying: boolean;
+  onVerify: (file: File) => void;
+}
+
+export const EvidenceVerifier: React.FC<EvidenceVerifierProps> = ({ result, verification, isVerifying, onVerify }) => {
+  const [isDragging, setIsDragging] = useState(false);
+  const [scannedCode, setScannedCode] = useState('');
+  const [codeVerification, setCodeVerification] = useState<ReportPayloadVerification | null>(null);
+  const [codeError, setCodeError] = useState<string | null>(null);
+
+  const handleDragOver = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(true);
+  }, []);
+
+  const handleDragLeave = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+  }, []);
+
+  const handleDrop = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
+    e.preventDefault();
+    e.stopPropagation();
+    setIsDragging(false);
+    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
+      onVerify(e.dataTransfer.files[0]);
+    }
+  }, [onVerify]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    if (e.target.files && e.target.files.length > 0) {
+      onVerify(e.target.files[0]);
+    }
+    e.target.value = '';
+  };
+
+  // The text a phone's QR scanner reads off the PDF's declarations page.
+  const handleVerifyCode = (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCodeVerification(verifyReportPayload(scannedCode, result));
+      setCodeError(null);
+    } catch (err: any) {
+      setCodeVerification(null);
+      setCodeError(err.message);
+    }
+  };
+
+  return (
+    <div className="mb-6 p-4 rounded-lg bg-gray-800/50 border border-gray-700 animate-fade-in">
+      <h3 className="text-lg font-bold text-gray-200 mb-1">Verify Original Evidence</h3>
+      <p className="text-xs text-gray-400 mb-3">
+        Drop the original evidence file to recompute its hash and confirm it is the document this report was sealed against.
+      </p>
+
+      <label
+        htmlFor="evidence-verify-upload"
+        onDragOver={handleDragOver}
+        onDragLeave={handleDragLeave}
+        onDrop={handleDrop}
+        className={`relative flex items-center justify-center cursor-pointer border-2 border-dashed rounded-lg p-4 transition-colors
+          ${isDragging ? 'border-blue-500 bg-gray-800/50' : 'border-gray-600 hover:border-blue-600'}`}
+      >
+        <FileIcon className="w-6 h-6 text-gray-400 mr-3" />
+        <span className="text-sm text-gray-400">
+          {isVerifying ? 'Computing hash...' : <><span className="font-semibold text-blue-400">Select evidence file</span> or drag and drop</>}
+        </span>
+        <input
+          type="file"
+          id="evidence-verify-upload"
+          className="absolute inset-0 w-full h-full opacity-0"
+          onChange={handleFileChange}
+          disabled={isVerifying}
+        />
+      </label>
+
+      {verification && !isVerifying && (
+        <div className={`mt-3 p-3 rounded-md border text-sm ${verification.status === 'match' ? 'bg-green-900/30 border-green-700' : 'bg-red-900/40 border-red-700'}`}>
+          <div className="flex items-center">
+            {verification.status === 'match'
+              ? <CheckCircleIcon className="w-5 h-5 mr-2 text-green-300" />
+              : <AlertTriangleIcon className="w-5 h-5 mr-2 text-red-300" />}
+            <p className={`font-bold ${verification.status === 'match' ? 'text-green-300' : 'text-red-300'}`}>
+              {verification.status === 'match' ? 'Hash match' : 'Hash mismatch'}: {verification.fileName}
+              {verification.documentId && <span className="font-mono ml-2">({verification.documentId})</span>}
+            </p>
+          </div>
+          <div className="font-mono text-xs mt-2 space-y-1">
+            <p className="text-gray-400 truncate"><span className="text-gray-500">File {verification.hashAlgorithm}:</span> {verification.computedHash}</p>
+          </div>
+          {verification.status === 'mismatch' && (
+            <p className="text-red-300 mt-2">This file does not match any evidence document the report was generated from.</p>
+          )}
+        </div>
+      )}
+
+      <form onSubmit={handleVerifyCode} className="mt-5 pt-4 border-t border-gray-700">
+        <h3 className="text-lg font-bold text-gray-200 mb-1">Verify Report QR Code</h3>
+        <p className="text-xs text-gray-400 mb-3">
+          Scan the QR code on a printed report's declarations page and paste the scanned text to confirm it was sealed with this report's hash.
+        </p>
+        <textarea
+          value={scannedCode}
+          onChange={e => setScannedCode(e.target.value)}
+          rows={2}
+          placeholder="VO1|VO-..."
+          className="w-full bg-gray-900 border border-gray-600 rounded-md p-2 font-mono text-xs text-gray-300 focus:outline-none focus:border-blue-500"
+        />
+        <button
+          type="submit"
+          disabled={!scannedCode.trim()}
+          className="mt-2 px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+        >
+          Check Code
+        </button>
+        {codeError && <p className="mt-2 text-sm text-red-300">{codeError}</p>}
+        {codeVerification && (
+          <div className={`mt-3 p-3 rounded-md border text-sm ${codeVerification.status === 'match' ? 'bg-green-900/30 border-green-700' : 'bg-red-900/40 border-red-700'}`}>
+            <div className="flex items-center">
+              {codeVerification.status === 'match'
+                ? <CheckCircleIcon className="w-5 h-5 mr-2 text-green-300" />
+                : <AlertTriangleIcon className="w-5 h-5 mr-2 text-red-300" />}
+              <p className={`font-bold ${codeVerification.status === 'match' ? 'text-green-300' : 'text-red-300'}`}>
+                {codeVerification.status === 'match' ? 'QR code matches this report' : 'QR code does not match this report'}
+                <span className="font-mono ml-2">({codeVerification.reportId})</span>
+              </p>
+            </div>
+            {codeVerification.mismatches.length > 0 && (
+              <p className="text-red-300 mt-2">Differs in: {codeVerification.mismatches.join(', ')}.</p>
+            )}
+          </div>
+        )}
+      </form>
+    </div>
+  );
+};
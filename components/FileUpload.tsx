@@ -1,14 +1,28 @@
 
 import React, { useCallback, useState } from 'react';
-import { FileIcon } from './icons.tsx';
+import { FileIcon, XMarkIcon } from './icons.tsx';
+import { JSON_REPORT_EXTENSION } from '../services/jsonReportService.ts';
+import { isVerumPdfReport } from '../services/pdfEmbedService.ts';
+import { loadLastJurisdiction, saveLastJurisdiction } from '../services/jurisdictionService.ts';
+import type { CaseJurisdiction } from '../types.ts';
+import { JurisdictionPicker } from './JurisdictionPicker.tsx';
 
 interface FileUploadProps {
-  onFileUpload: (file: File) => void;
+  onFileUpload: (files: File[], caseName: string, jurisdiction: CaseJurisdiction | null) => void;
   onReportUpload: (file: File) => void;
 }
 
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
 export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onReportUpload }) => {
   const [isDragging, setIsDragging] = useState(false);
+  const [stagedFiles, setStagedFiles] = useState<File[]>([]);
+  const [caseName, setCaseName] = useState('');
+  const [jurisdiction, setJurisdiction] = useState<CaseJurisdiction | null>(loadLastJurisdiction);
 
   const handleDragEnter = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
@@ -27,35 +41,58 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onReportUp
     e.stopPropagation();
   }, []);
 
-  const handleFile = (file: File | undefined | null) => {
-    if (!file) return;
-    if (file.name.toLowerCase().endsWith('.verum.bin')) {
-      onReportUpload(file);
-    } else {
-      onFileUpload(file);
+  // A saved report opens on its own; anything else is staged as case evidence.
+  // Report PDFs look like any other PDF by name, so PDFs are checked for an
+  // embedded report before being staged.
+  const handleFiles = async (fileList: FileList | null) => {
+    if (!fileList || fileList.length === 0) return;
+    const files = Array.from(fileList);
+    let report = files.find(f => {
+      const name = f.name.toLowerCase();
+      return name.endsWith('.verum.bin') || name.endsWith(JSON_REPORT_EXTENSION);
+    });
+    for (const file of files) {
+      if (report) break;
+      if (await isVerumPdfReport(file)) report = file;
+    }
+    if (report) {
+      onReportUpload(report);
+      return;
     }
+    setStagedFiles(prev => [
+      ...prev,
+      ...files.filter(f => !prev.some(p => p.name === f.name && p.size === f.size && p.lastModified === f.lastModified)),
+    ]);
+  };
+
+  const handleRemoveFile = (index: number) => {
+    setStagedFiles(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleBeginAnalysis = () => {
+    if (stagedFiles.length === 0) return;
+    const name = caseName.trim() || (stagedFiles.length === 1 ? stagedFiles[0].name : `Case of ${stagedFiles.length} documents`);
+    saveLastJurisdiction(jurisdiction);
+    onFileUpload(stagedFiles, name, jurisdiction);
   };
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLLabelElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFile(e.dataTransfer.files[0]);
-    }
-  }, [onFileUpload, onReportUpload]);
+    handleFiles(e.dataTransfer.files);
+  }, [onReportUpload]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files && e.target.files.length > 0) {
-      handleFile(e.target.files[0]);
-    }
+    handleFiles(e.target.files);
+    e.target.value = '';
   };
 
   return (
     <div className="max-w-3xl mx-auto text-center animate-fade-in">
       <h2 className="text-3xl font-bold text-gray-100 mb-2">Ready for Analysis</h2>
       <p className="text-gray-400 mb-8 max-w-2xl mx-auto">
-        Please provide the document or evidence file you wish to analyze. Your data is processed securely in your browser and is never uploaded to a server.
+        Please provide the documents or evidence files for this case. Every file is hashed and analyzed together so findings can be cross-referenced. Your data is processed securely in your browser and is never uploaded to a server.
       </p>
       
       <label
@@ -72,18 +109,53 @@ export const FileUpload: React.FC<FileUploadProps> = ({ onFileUpload, onReportUp
             <FileIcon className="w-10 h-10 text-gray-400 transition-colors group-hover:text-blue-400" />
           </div>
           <p className="text-gray-400">
-            <span className="font-semibold text-blue-400">Click to upload evidence</span> or drag and drop
+            <span className="font-semibold text-blue-400">Click to add evidence files</span> or drag and drop
           </p>
           <p className="text-xs text-gray-500">Supports PDF, DOCX, TXT, PNG, JPG, and other common document formats.</p>
-          <p className="text-xs text-gray-500">You can also load a previously saved <code className="font-semibold text-gray-400">.verum.bin</code> report file.</p>
+          <p className="text-xs text-gray-500">You can also load a previously saved <code className="font-semibold text-gray-400">.verum.bin</code> or <code className="font-semibold text-gray-400">.verum.json</code> report file, or a Verum Omnis PDF report.</p>
         </div>
         <input
           type="file"
           id="file-upload"
           className="absolute inset-0 w-full h-full opacity-0"
           onChange={handleFileChange}
+          multiple
         />
       </label>
+      {stagedFiles.length > 0 && (
+        <div className="mt-6 text-left p-4 rounded-lg bg-gray-800/50 border border-gray-700 animate-fade-in">
+          <label htmlFor="case-name" className="block text-sm font-semibold text-gray-300 mb-2">Case name</label>
+          <input
+            id="case-name"
+            type="text"
+            value={caseName}
+            onChange={(e) => setCaseName(e.target.value)}
+            placeholder={stagedFiles.length === 1 ? stagedFiles[0].name : `Case of ${stagedFiles.length} documents`}
+            className="w-full mb-4 px-3 py-2 rounded-md bg-gray-900/60 border border-gray-600 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          />
+          <JurisdictionPicker value={jurisdiction} onChange={setJurisdiction} />
+          <ul className="space-y-2">
+            {stagedFiles.map((file, i) => (
+              <li key={`${file.name}-${file.lastModified}`} className="flex items-center justify-between p-2 bg-gray-900/40 rounded-md text-sm">
+                <span className="flex items-center text-gray-300 truncate">
+                  <span className="font-mono text-gray-500 mr-3">D-{String(i + 1).padStart(2, '0')}</span>
+                  <span className="truncate">{file.name}</span>
+                  <span className="text-gray-500 ml-2 flex-shrink-0">{formatSize(file.size)}</span>
+                </span>
+                <button onClick={() => handleRemoveFile(i)} className="ml-3 p-1 rounded-md text-gray-400 hover:text-white hover:bg-gray-700" aria-label={`Remove ${file.name}`}>
+                  <XMarkIcon className="w-4 h-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+          <button
+            onClick={handleBeginAnalysis}
+            className="mt-4 w-full px-6 py-3 bg-blue-600 text-white font-semibold rounded-lg hover:bg-blue-700 transition-colors focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-offset-gray-900 focus:ring-blue-500"
+          >
+            Analyze {stagedFiles.length === 1 ? 'Document' : `Case (${stagedFiles.length} Documents)`}
+          </button>
+        </div>
+      )}
       <div className="mt-8 text-sm text-gray-500 space-y-2">
           <p><span className="font-semibold text-gray-400">100% Stateless & On-Device:</span> No server, no storage, no central authority. Your data is processed in your browser.</p>
           <p><span className="font-semibold text-gray-400">A New Category of Legal Tech:</span> Gain clarity, protection, and justice without needing an institution to interpret the facts.</p>
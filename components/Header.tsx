@@ -1,12 +1,14 @@
 
 import React from 'react';
-import { LogoIcon } from './icons.tsx';
+import { LogoIcon, CogIcon, ArchiveBoxIcon } from './icons.tsx';
 
 interface HeaderProps {
     onReset: () => void;
+    onOpenSettings: () => void;
+    onOpenLibrary: () => void;
 }
 
-export const Header: React.FC<HeaderProps> = ({ onReset }) => {
+export const Header: React.FC<HeaderProps> = ({ onReset, onOpenSettings, onOpenLibrary }) => {
   const handleKeyDown = (event: React.KeyboardEvent<HTMLElement>) => {
     if (event.key === 'Enter' || event.key === ' ') {
       // Prevent the default action to stop scrolling when space is pressed
@@ -31,8 +33,28 @@ export const Header: React.FC<HeaderProps> = ({ onReset }) => {
           Verum Omnis
         </h1>
       </div>
-      <div className="hidden md:block text-sm text-gray-500 font-mono">
-        Adaptive Threat Intelligence Engine
+      <div className="flex items-center space-x-4">
+        <div className="hidden md:block text-sm text-gray-500 font-mono">
+          Adaptive Threat Intelligence Engine
+        </div>
+        <button
+          onClick={(e) => { e.stopPropagation(); onOpenLibrary(); }}
+          onKeyDown={(e) => e.stopPropagation()}
+          className="p-2 rounded-md text-gray-400 hover:text-gray-200 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Case library"
+          aria-label="Case library"
+        >
+          <ArchiveBoxIcon className="w-5 h-5" />
+        </button>
+        <button
+          onClick={(e) => { e.stopPropagation(); onOpenSettings(); }}
+          onKeyDown={(e) => e.stopPropagation()}
+          className="p-2 rounded-md text-gray-400 hover:text-gray-200 hover:bg-gray-800 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          title="Analysis settings"
+          aria-label="Analysis settings"
+        >
+          <CogIcon className="w-5 h-5" />
+        </button>
       </div>
     </header>
   );
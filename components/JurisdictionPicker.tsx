@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import type { CaseJurisdiction } from '../types.ts';
+import { JURISDICTION_PROFILES } from '../services/jurisdictionProfiles.ts';
+import { getCurrentLocation, suggestJurisdiction, toCaseJurisdiction } from '../services/jurisdictionService.ts';
+import { MapPinIcon } from './icons.tsx';
+
+interface JurisdictionPickerProps {
+  value: CaseJurisdiction | null;
+  onChange: (jurisdiction: CaseJurisdiction | null) => void;
+}
+
+const selectClassName = "w-full px-3 py-2 rounded-md bg-gray-900/60 border border-gray-600 text-gray-200 focus:outline-none focus:ring-2 focus:ring-blue-500";
+
+export const JurisdictionPicker: React.FC<JurisdictionPickerProps> = ({ value, onChange }) => {
+  const [isLocating, setIsLocating] = useState(false);
+  const [suggestionNote, setSuggestionNote] = useState<string | null>(null);
+
+  const countryCode = value?.code.split('-')[0] ?? '';
+  const country = JURISDICTION_PROFILES.find(profile => profile.code === countryCode);
+
+  const select = (code: string) => {
+    setSuggestionNote(null);
+    onChange(code ? toCaseJurisdiction(code) : null);
+  };
+
+  // The location never leaves the device and is not sent with the analysis;
+  // it only pre-selects the nearest bundled jurisdiction.
+  const handleSuggest = async () => {
+    setIsLocating(true);
+    setSuggestionNote(null);
+    const location = await getCurrentLocation();
+    setIsLocating(false);
+    if (!location) {
+      setSuggestionNote('Your location is unavailable. Choose a jurisdiction from the list.');
+      return;
+    }
+    const suggestion = suggestJurisdiction(location.latitude, location.longitude);
+    if (!suggestion) {
+      setSuggestionNote('No bundled jurisdiction is near your location. Choose one from the list.');
+      return;
+    }
+    onChange(suggestion);
+    setSuggestionNote(`Suggested from your location: ${suggestion.name}. Check it before analyzing; it can be wrong near borders.`);
+  };
+
+  return (
+    <div className="mb-4">
+      <div className="flex items-center justify-between mb-2">
+        <label htmlFor="jurisdiction-country" className="text-sm font-semibold text-gray-300">Jurisdiction</label>
+        <button
+          type="button"
+          onClick={handleSuggest}
+          disabled={isLocating}
+          className="flex items-center text-xs text-blue-400 hover:text-blue-300 disabled:opacity-50"
+        >
+          <MapPinIcon className="w-4 h-4 mr-1" />
+          {isLocating ? 'Locating...' : 'Suggest from my location'}
+        </button>
+      </div>
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+        <select id="jurisdiction-country" value={countryCode} onChange={e => select(e.target.value)} className={selectClassName}>
+          <option value="">Infer from the documents</option>
+          {JURISDICTION_PROFILES.map(profile => <option key={profile.code} value={profile.code}>{profile.name}</option>)}
+        </select>
+        {country?.subdivisions && (
+          <select aria-label="State or province" value={value?.code ?? ''} onChange={e => select(e.target.value)} className={selectClassName}>
+            <option value={country.code}>All of {country.name}</option>
+            {country.subdivisions.map(profile => <option key={profile.code} value={profile.code}>{profile.name}</option>)}
+          </select>
+        )}
+      </div>
+      <p className="mt-1 text-xs text-gray-500">
+        {suggestionNote ?? 'The analysis is given this jurisdiction\'s legal system, key statutes, courts and limitation basics, and the report records it. Your location is never sent.'}
+      </p>
+    </div>
+  );
+};
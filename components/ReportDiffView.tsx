@@ -0,0 +1,196 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import type { AnalysisResult, CaseSummary, DiffCategory, DiffStatus, ReportDiff, ReportDiffSide } from '../types.ts';
+import type { CaseLibrary as CaseLibraryStore } from '../services/caseLibraryService.ts';
+import { DIFF_CATEGORIES, DIFF_STATUS_LABELS, compareResults, decodeComparisonFile, describeScoreDelta, describeSeverity, summarizeDiff } from '../services/reportDiffService.ts';
+import { JSON_REPORT_EXTENSION } from '../services/jsonReportService.ts';
+import { AlertTriangleIcon, DownloadIcon } from './icons.tsx';
+
+interface ReportDiffViewProps {
+  result: AnalysisResult;
+  library: CaseLibraryStore | null;
+  // The open case, left out of the list of cases to compare with.
+  activeCaseId: string | null;
+  onExportPdf: (diff: ReportDiff) => void;
+  isExporting: boolean;
+}
+
+const statusStyles: Record<DiffStatus, string> = {
+  added: 'bg-emerald-700 text-emerald-100',
+  removed: 'bg-red-800 text-red-100',
+  changed: 'bg-amber-700 text-amber-100',
+  unchanged: 'bg-gray-600 text-gray-200',
+};
+
+const categoryHeadings: Record<DiffCategory, string> = {
+  legalSubject: 'Legal Subjects',
+  dishonestyFlag: 'Dishonesty Flags',
+  liability: 'Top Liabilities',
+  recommendedAction: 'Recommended Actions',
+  evidenceItem: 'Evidence Index',
+};
+
+const SideCard: React.FC<{ title: string; side: ReportDiffSide }> = ({ title, side }) => (
+  <div className="p-3 rounded-md bg-gray-900/50 border border-gray-700 text-sm">
+    <p className="text-xs uppercase tracking-wider text-gray-500">{title}</p>
+    <p className="font-semibold text-gray-200 truncate" title={side.label}>{side.label}</p>
+    <p className="text-xs text-gray-400">{side.analyzedAt ? new Date(side.analyzedAt).toLocaleString() : 'Analysis date unknown'}</p>
+    <p className="text-xs font-mono text-gray-500 truncate">{side.models.join(', ')}</p>
+    <p className="mt-1 text-gray-300">Dishonesty score <span className="font-bold">{side.dishonestyScore}%</span></p>
+  </div>
+);
+
+// Compares the open analysis with a saved report or another case in the library.
+export const ReportDiffView: React.FC<ReportDiffViewProps> = ({ result, library, activeCaseId, onExportPdf, isExporting }) => {
+  const [comparison, setComparison] = useState<{ result: AnalysisResult; label: string } | null>(null);
+  const [cases, setCases] = useState<CaseSummary[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [filter, setFilter] = useState<DiffStatus | 'differences'>('differences');
+
+  useEffect(() => {
+    if (!library) {
+      setCases([]);
+      return;
+    }
+    library.listCases()
+      .then(list => setCases(list.filter(summary => summary.id !== activeCaseId)))
+      .catch(e => {
+        console.error("Could not list cases for comparison:", e);
+        setError('The case library could not be read.');
+      });
+  }, [library, activeCaseId]);
+
+  // Recomputed as the open analysis changes, e.g. after a review.
+  const diff = useMemo(() => comparison
+    ? compareResults(comparison.result, comparison.label, result, `${result.fileName} (open analysis)`)
+    : null, [comparison, result]);
+  const summary = useMemo(() => diff ? summarizeDiff(diff) : null, [diff]);
+
+  const load = async (label: string, read: () => Promise<AnalysisResult>) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      setComparison({ result: await read(), label });
+    } catch (e: any) {
+      console.error("Could not load the analysis to compare with:", e);
+      setError(`The analysis could not be loaded: ${e.message}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) load(file.name, () => decodeComparisonFile(file));
+  };
+
+  const handleCase = (id: string) => {
+    const summary = cases.find(c => c.id === id);
+    if (library && summary) load(summary.name, async () => (await library.loadCase(id)).result);
+  };
+
+  const visibleItems = diff
+    ? diff.items.filter(item => filter === 'differences' ? item.status !== 'unchanged' : item.status === filter)
+    : [];
+
+  return (
+    <div className="space-y-6">
+      <div className="p-4 rounded-lg bg-gray-900/50 border border-gray-700 space-y-3">
+        <p className="text-sm text-gray-400">
+          Compare this analysis with an earlier or later run over the same evidence. Findings are matched by name, so reworded findings show as changed.
+        </p>
+        <div className="flex flex-wrap items-center gap-3">
+          <label className="px-3 py-2 text-sm font-semibold rounded-md bg-gray-700/60 text-gray-200 hover:bg-gray-700 cursor-pointer">
+            Load a saved report (.verum.bin or JSON)
+            <input type="file" accept={`.bin,${JSON_REPORT_EXTENSION},.json`} onChange={handleFile} className="hidden" />
+          </label>
+          {library ? (
+            <select
+              value=""
+              onChange={e => handleCase(e.target.value)}
+              disabled={cases.length === 0}
+              className="px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 text-sm focus:outline-none focus:border-blue-500 disabled:opacity-50"
+            >
+              <option value="">{cases.length > 0 ? 'Or choose a case from the library...' : 'No other cases in the library'}</option>
+              {cases.map(c => <option key={c.id} value={c.id}>{c.name} ({new Date(c.updatedAt).toLocaleDateString()})</option>)}
+            </select>
+          ) : (
+            <span className="text-xs text-gray-500">Unlock the case library to compare with saved cases.</span>
+          )}
+        </div>
+        {isLoading && <p className="text-sm text-gray-400">Loading analysis...</p>}
+        {error && <p className="text-sm text-red-400">{error}</p>}
+      </div>
+
+      {diff && summary && (
+        <>
+          {!diff.sameEvidence && (
+            <div className="flex items-start p-3 rounded-md bg-yellow-900/30 border border-yellow-700 text-sm text-yellow-200">
+              <AlertTriangleIcon className="w-5 h-5 mr-2 flex-shrink-0" />
+              These analyses were run over different evidence files, so some differences come from the evidence rather than the analysis.
+            </div>
+          )}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            <SideCard title="Before" side={diff.before} />
+            <SideCard title="After" side={diff.after} />
+          </div>
+          <p className={`text-sm font-semibold ${summary.scoreDelta > 0 ? 'text-red-300' : summary.scoreDelta < 0 ? 'text-emerald-300' : 'text-gray-300'}`}>
+            {describeScoreDelta(diff)}; {summary.severityShifts} severity shift(s)
+          </p>
+
+          <div className="flex flex-wrap gap-2">
+            {(['differences', 'added', 'removed', 'changed', 'unchanged'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setFilter(option)}
+                className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${filter === option ? 'bg-blue-600 text-white' : 'bg-gray-700/60 text-gray-300 hover:bg-gray-700'}`}
+              >
+                {option === 'differences'
+                  ? `All differences (${summary.added + summary.removed + summary.changed})`
+                  : `${DIFF_STATUS_LABELS[option]} (${summary[option]})`}
+              </button>
+            ))}
+          </div>
+
+          {(Object.keys(DIFF_CATEGORIES) as DiffCategory[]).map(category => {
+            const items = visibleItems.filter(item => item.category === category);
+            if (items.length === 0) return null;
+            return (
+              <div key={category}>
+                <h4 className="text-sm font-semibold uppercase tracking-wider text-gray-400 mb-2">{categoryHeadings[category]}</h4>
+                <div className="space-y-2">
+                  {items.map((item, index) => (
+                    <div key={`${item.before}-${item.after}-${index}`} className="p-3 rounded-md bg-gray-900/40 border border-gray-700/80 text-sm">
+                      <div className="flex items-center justify-between gap-3 mb-2">
+                        <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${statusStyles[item.status]}`}>{DIFF_STATUS_LABELS[item.status]}</span>
+                        {describeSeverity(item) && <span className="text-xs text-gray-400">{describeSeverity(item)}</span>}
+                      </div>
+                      <div className="grid grid-cols-2 gap-3">
+                        <p className={item.before ? 'text-gray-400' : 'text-gray-600 italic'}>{item.before || 'Not present'}</p>
+                        <p className={item.after ? 'text-gray-200' : 'text-gray-600 italic'}>{item.after || 'Not present'}</p>
+                      </div>
+                      {item.changedFields.length > 0 && (
+                        <p className="mt-2 text-xs text-gray-500">Changed: {item.changedFields.join(', ')}</p>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          {visibleItems.length === 0 && <p className="text-sm text-gray-400">No findings match this filter.</p>}
+
+          <button
+            onClick={() => onExportPdf(diff)}
+            disabled={isExporting}
+            className="px-4 py-2 bg-blue-600 text-white text-sm font-semibold rounded-lg hover:bg-blue-700 transition-colors flex items-center space-x-2 disabled:opacity-75"
+          >
+            <DownloadIcon className="w-5 h-5" />
+            <span>{isExporting ? 'Generating...' : 'Download PDF Report with Comparison Appendix'}</span>
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
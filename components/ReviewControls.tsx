@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import type { FindingReview, ReviewDecision } from '../types.ts';
+import { AI_GENERATED_LABEL, REVIEW_DECISION_LABELS } from '../services/reviewService.ts';
+import type { ReviewField } from '../services/reviewService.ts';
+
+interface ReviewControlsProps {
+  review?: FindingReview;
+  // The finding as currently shown, for pre-filling an amendment.
+  item: Record<string, any>;
+  fields: ReviewField[];
+  reviewer: string;
+  onReview: (decision: ReviewDecision, reason: string, changes?: Record<string, string>) => void;
+  onClear: () => void;
+}
+
+const decisionStyles: Record<ReviewDecision, string> = {
+  accepted: 'bg-emerald-900/50 border-emerald-700 text-emerald-300',
+  amended: 'bg-blue-900/50 border-blue-700 text-blue-300',
+  rejected: 'bg-red-900/40 border-red-700 text-red-300',
+};
+
+const inputClassName = "w-full px-2 py-1 rounded bg-gray-900 border border-gray-600 text-gray-200 text-sm focus:outline-none focus:border-blue-500";
+const buttonClassName = "px-2 py-0.5 text-xs font-semibold rounded border transition-colors disabled:opacity-50";
+
+export const ReviewControls: React.FC<ReviewControlsProps> = ({ review, item, fields, reviewer, onReview, onClear }) => {
+  const [mode, setMode] = useState<'idle' | 'rejecting' | 'amending'>('idle');
+  const [reason, setReason] = useState('');
+  const [draft, setDraft] = useState<Record<string, string>>({});
+
+  const close = () => {
+    setMode('idle');
+    setReason('');
+  };
+
+  const startAmending = () => {
+    setDraft(Object.fromEntries(fields.map(field => [field.key, String(item[field.key] ?? '')])));
+    setMode('amending');
+  };
+
+  const submit = (decision: ReviewDecision, changes?: Record<string, string>) => {
+    onReview(decision, reason, changes);
+    close();
+  };
+
+  // Clicks inside the controls must not also trigger the finding's own click handler.
+  const stop = (e: React.MouseEvent) => e.stopPropagation();
+
+  if (review) {
+    return (
+      <div onClick={stop} className="mt-2 text-xs">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className={`inline-flex items-center px-2 py-0.5 font-semibold rounded-full border whitespace-nowrap ${decisionStyles[review.decision]}`}>
+            {REVIEW_DECISION_LABELS[review.decision]}
+          </span>
+          <span className="text-gray-500">{review.reviewer}, {new Date(review.reviewedAt).toLocaleString()}</span>
+          <button onClick={onClear} className={`${buttonClassName} border-gray-600 text-gray-400 hover:bg-gray-700`} title={review.decision === 'amended' ? "Restore the model's version and return the finding to the review queue" : 'Return the finding to the review queue'}>
+            Undo
+          </button>
+        </div>
+        {review.reason && <p className="mt-1 text-gray-400"><strong className="text-gray-300">Reason:</strong> {review.reason}</p>}
+      </div>
+    );
+  }
+
+  const disabledTitle = reviewer.trim() ? undefined : 'Enter your name in the review queue first';
+
+  return (
+    <div onClick={stop} className="mt-2 text-xs">
+      {mode === 'idle' && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="inline-flex items-center px-2 py-0.5 font-semibold rounded-full border border-gray-600 text-gray-400 whitespace-nowrap">{AI_GENERATED_LABEL}</span>
+          <button onClick={() => submit('accepted')} disabled={!reviewer.trim()} title={disabledTitle} className={`${buttonClassName} border-emerald-700 text-emerald-300 hover:bg-emerald-900/40`}>Accept</button>
+          <button onClick={() => setMode('rejecting')} disabled={!reviewer.trim()} title={disabledTitle} className={`${buttonClassName} border-red-700 text-red-300 hover:bg-red-900/40`}>Reject</button>
+          <button onClick={startAmending} disabled={!reviewer.trim()} title={disabledTitle} className={`${buttonClassName} border-blue-700 text-blue-300 hover:bg-blue-900/40`}>Edit</button>
+        </div>
+      )}
+      {mode === 'rejecting' && (
+        <div className="flex gap-2">
+          <input autoFocus value={reason} onChange={e => setReason(e.target.value)} placeholder="Reason for rejecting (required)" className={inputClassName} />
+          <button onClick={() => submit('rejected')} disabled={!reason.trim()} className={`${buttonClassName} border-red-700 text-red-300 hover:bg-red-900/40`}>Reject</button>
+          <button onClick={close} className={`${buttonClassName} border-gray-600 text-gray-400 hover:bg-gray-700`}>Cancel</button>
+        </div>
+      )}
+      {mode === 'amending' && (
+        <div className="space-y-2 p-2 rounded bg-gray-900/60 border border-gray-700">
+          {fields.map(field => (
+            <label key={field.key} className="block">
+              <span className="block mb-0.5 text-gray-400">{field.label}</span>
+              {field.options ? (
+                <select value={draft[field.key]} onChange={e => setDraft({ ...draft, [field.key]: e.target.value })} className={inputClassName}>
+                  {field.options.map(option => <option key={option} value={option}>{option}</option>)}
+                </select>
+              ) : field.multiline ? (
+                <textarea value={draft[field.key]} onChange={e => setDraft({ ...draft, [field.key]: e.target.value })} rows={3} className={inputClassName} />
+              ) : (
+                <input value={draft[field.key]} onChange={e => setDraft({ ...draft, [field.key]: e.target.value })} className={inputClassName} />
+              )}
+            </label>
+          ))}
+          <input value={reason} onChange={e => setReason(e.target.value)} placeholder="What was changed and why (optional)" className={inputClassName} />
+          <div className="flex gap-2">
+            <button onClick={() => submit('amended', draft)} className={`${buttonClassName} border-blue-700 text-blue-300 hover:bg-blue-900/40`}>Save amendment</button>
+            <button onClick={close} className={`${buttonClassName} border-gray-600 text-gray-400 hover:bg-gray-700`}>Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
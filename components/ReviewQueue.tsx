@@ -0,0 +1,78 @@
+import React, { useMemo, useState } from 'react';
+import type { AnalysisResult } from '../types.ts';
+import { REVIEW_CATEGORIES, listReviewItems, summarizeReviews } from '../services/reviewService.ts';
+import type { ReviewItem } from '../services/reviewService.ts';
+import { CheckboxIcon, ChevronDownIcon } from './icons.tsx';
+
+interface ReviewQueueProps {
+  result: AnalysisResult;
+  reviewer: string;
+  onReviewerChange: (name: string) => void;
+  // Shows the finding where it can be reviewed.
+  onSelect: (item: ReviewItem) => void;
+}
+
+const SEVERITY_ORDER: Record<string, number> = { Critical: 0, High: 1, Medium: 2, Low: 3 };
+
+// Findings still awaiting an analyst's decision, most severe first.
+export const ReviewQueue: React.FC<ReviewQueueProps> = ({ result, reviewer, onReviewerChange, onSelect }) => {
+  const summary = useMemo(() => summarizeReviews(result), [result]);
+  const pending = useMemo(() => listReviewItems(result)
+    .filter(item => !item.review)
+    .sort((a, b) => (SEVERITY_ORDER[a.severity ?? ''] ?? 4) - (SEVERITY_ORDER[b.severity ?? ''] ?? 4)), [result]);
+  const [isOpen, setIsOpen] = useState(summary.pending > 0);
+  const reviewed = summary.total - summary.pending;
+
+  return (
+    <div className="mb-6 rounded-lg bg-gray-800/50 border border-gray-700">
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center justify-between p-4 text-left">
+        <span className="flex items-center text-lg font-bold text-gray-200">
+          <CheckboxIcon className="w-6 h-6 mr-2 text-emerald-400" />
+          Needs Human Review
+          <span className="ml-2 text-xs font-normal text-gray-500">({summary.pending} of {summary.total} pending)</span>
+        </span>
+        <ChevronDownIcon className={`w-5 h-5 text-gray-400 transition-transform ${isOpen ? 'rotate-180' : ''}`} />
+      </button>
+
+      {isOpen && (
+        <div className="px-4 pb-4">
+          <p className="text-xs text-gray-400 mb-3">
+            Every finding is AI-generated until an analyst accepts, amends or rejects it. Decisions are recorded in the report with your name and the time.
+          </p>
+          <label htmlFor="reviewer-name" className="block text-sm font-semibold text-gray-300 mb-1">Reviewer</label>
+          <input
+            id="reviewer-name"
+            type="text"
+            value={reviewer}
+            onChange={e => onReviewerChange(e.target.value)}
+            placeholder="Your name"
+            className="w-full mb-3 px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 text-sm focus:outline-none focus:border-blue-500"
+          />
+          <div className="w-full bg-gray-700 rounded-full h-2 mb-1">
+            <div className="bg-emerald-500 h-2 rounded-full" style={{ width: `${summary.total > 0 ? (reviewed / summary.total) * 100 : 100}%` }}></div>
+          </div>
+          <p className="text-xs text-gray-500 mb-3">
+            {summary.accepted} confirmed, {summary.amended} amended, {summary.rejected} rejected
+          </p>
+          {pending.length > 0 ? (
+            <ul className="max-h-64 overflow-y-auto space-y-1">
+              {pending.map(item => (
+                <li key={item.target}>
+                  <button onClick={() => onSelect(item)} className="w-full flex items-center justify-between gap-3 p-2 rounded-md text-left text-sm bg-gray-900/40 hover:bg-gray-700/60">
+                    <span className="truncate text-gray-300">
+                      <span className="text-gray-500 mr-2">{REVIEW_CATEGORIES[item.category].label}</span>
+                      {item.title}
+                    </span>
+                    {item.severity && <span className="flex-shrink-0 text-xs text-gray-400">{item.severity}</span>}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-emerald-300">Every finding has been reviewed.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
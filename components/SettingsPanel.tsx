@@ -0,0 +1,171 @@
+import React, { useState } from 'react';
+import type { AnalysisProviderId, AnalysisSettings, ConsensusMember } from '../types.ts';
+import { XMarkIcon } from './icons.tsx';
+
+interface SettingsPanelProps {
+  settings: AnalysisSettings;
+  onSave: (settings: AnalysisSettings) => void;
+  onClose: () => void;
+}
+
+const providerOptions: { id: AnalysisProviderId; label: string; description: string }[] = [
+  { id: 'gemini', label: 'Google Gemini', description: 'Cloud analysis through the Gemini API. Requires an API key at build time.' },
+  { id: 'local-http', label: 'Local model', description: 'Any OpenAI-compatible server (Ollama, llama.cpp, vLLM). Evidence never leaves your network.' },
+  { id: 'fixture', label: 'Fixture', description: 'Deterministic offline test data. No model is consulted.' },
+];
+
+const inputClassName = "w-full px-3 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 font-mono text-sm focus:outline-none focus:border-blue-500";
+
+export const SettingsPanel: React.FC<SettingsPanelProps> = ({ settings, onSave, onClose }) => {
+  const [draft, setDraft] = useState<AnalysisSettings>(settings);
+
+  const update = <K extends keyof AnalysisSettings>(key: K, value: AnalysisSettings[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const updateMember = (index: number, member: Partial<ConsensusMember>) => {
+    setDraft(prev => ({
+      ...prev,
+      consensusMembers: prev.consensusMembers.map((m, i) => i === index ? { ...m, ...member } : m),
+    }));
+  };
+
+  const usesLocalModel = draft.providerId === 'local-http'
+    || (draft.consensusEnabled && draft.consensusMembers.some(m => m.providerId === 'local-http'));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(draft);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 p-4 animate-fade-in" onClick={onClose}>
+      <form
+        onSubmit={handleSubmit}
+        onClick={e => e.stopPropagation()}
+        className="w-full max-w-lg p-6 rounded-lg bg-gray-800 border border-gray-700 shadow-xl"
+      >
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold text-gray-100">Analysis Settings</h2>
+          <button type="button" onClick={onClose} className="p-1 rounded-md text-gray-400 hover:text-gray-200 hover:bg-gray-700" aria-label="Close settings">
+            <XMarkIcon className="w-5 h-5" />
+          </button>
+        </div>
+
+        <fieldset className="space-y-2 mb-6">
+          <legend className="text-sm font-semibold text-gray-300 mb-2">Analysis provider</legend>
+          {providerOptions.map(option => (
+            <label
+              key={option.id}
+              className={`flex items-start p-3 rounded-md border cursor-pointer transition-colors ${draft.providerId === option.id ? 'border-blue-500 bg-blue-900/20' : 'border-gray-700 hover:border-gray-600'}`}
+            >
+              <input
+                type="radio"
+                name="providerId"
+                value={option.id}
+                checked={draft.providerId === option.id}
+                onChange={() => update('providerId', option.id)}
+                className="mt-1 mr-3"
+              />
+              <span>
+                <span className="block font-semibold text-gray-200">{option.label}</span>
+                <span className="block text-xs text-gray-400">{option.description}</span>
+              </span>
+            </label>
+          ))}
+        </fieldset>
+
+        {draft.providerId === 'gemini' && (
+          <div className="space-y-3 mb-6">
+            <label className="block text-sm text-gray-300">
+              Model
+              <input className={`${inputClassName} mt-1`} value={draft.geminiModel} onChange={e => update('geminiModel', e.target.value)} required />
+            </label>
+          </div>
+        )}
+
+        {usesLocalModel && (
+          <div className="space-y-3 mb-6">
+            <label className="block text-sm text-gray-300">
+              Endpoint
+              <input className={`${inputClassName} mt-1`} type="url" value={draft.localEndpoint} onChange={e => update('localEndpoint', e.target.value)} required />
+            </label>
+            {draft.providerId === 'local-http' && (
+              <label className="block text-sm text-gray-300">
+                Model
+                <input className={`${inputClassName} mt-1`} value={draft.localModel} onChange={e => update('localModel', e.target.value)} required />
+              </label>
+            )}
+            <label className="block text-sm text-gray-300">
+              API key <span className="text-gray-500">(optional)</span>
+              <input className={`${inputClassName} mt-1`} type="password" value={draft.localApiKey} onChange={e => update('localApiKey', e.target.value)} autoComplete="off" />
+            </label>
+          </div>
+        )}
+
+        <div className="mb-6 p-3 rounded-md border border-gray-700">
+          <label className="flex items-start cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.consensusEnabled}
+              onChange={e => update('consensusEnabled', e.target.checked)}
+              className="mt-1 mr-3"
+            />
+            <span>
+              <span className="block font-semibold text-gray-200">Triple-AI consensus</span>
+              <span className="block text-xs text-gray-400">Run every analysis through three models and keep only findings a majority agree on. Takes longer; intended for high-risk cases.</span>
+            </span>
+          </label>
+          {draft.consensusEnabled && (
+            <div className="mt-3 space-y-2">
+              {draft.consensusMembers.map((member, index) => (
+                <div key={index} className="flex space-x-2">
+                  <select
+                    value={member.providerId}
+                    onChange={e => updateMember(index, { providerId: e.target.value as AnalysisProviderId })}
+                    className="px-2 py-2 bg-gray-900 border border-gray-600 rounded-md text-gray-200 text-sm focus:outline-none focus:border-blue-500"
+                    aria-label={`Consensus model ${index + 1} provider`}
+                  >
+                    {providerOptions.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+                  </select>
+                  <input
+                    className={inputClassName}
+                    value={member.model}
+                    onChange={e => updateMember(index, { model: e.target.value })}
+                    aria-label={`Consensus model ${index + 1} name`}
+                    required
+                  />
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">Local models use the endpoint and API key configured above.</p>
+            </div>
+          )}
+        </div>
+
+        <div className="mb-6 p-3 rounded-md border border-gray-700">
+          <label className="flex items-start cursor-pointer">
+            <input
+              type="checkbox"
+              checked={draft.allowUnredactedEvidence}
+              onChange={e => update('allowUnredactedEvidence', e.target.checked)}
+              className="mt-1 mr-3"
+            />
+            <span>
+              <span className="block font-semibold text-gray-200">Send unredactable evidence</span>
+              <span className="block text-xs text-gray-400">Images, scanned PDFs and other files with no extractable text cannot be redacted. Without this, analyses that include them are stopped; with it, they are sent to the model unredacted.</span>
+            </span>
+          </label>
+        </div>
+
+        <div className="flex justify-end space-x-3">
+          <button type="button" onClick={onClose} className="px-4 py-2 text-sm font-semibold rounded-md bg-gray-700 text-gray-200 hover:bg-gray-600">
+            Cancel
+          </button>
+          <button type="submit" className="px-4 py-2 text-sm font-semibold rounded-md bg-blue-600 text-white hover:bg-blue-700">
+            Save
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
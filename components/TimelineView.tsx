@@ -0,0 +1,73 @@
+import React, { useMemo, useState } from 'react';
+import type { CitationCheck, TimelineEvent } from '../types.ts';
+import { CitationBadge } from './CitationBadge.tsx';
+
+interface TimelineViewProps {
+  events: TimelineEvent[];
+  onSelectEvent: (documentId: string, pageNumber: number) => void;
+  // Looks up the citation check for an event by its index in `events`.
+  citationFor?: (index: number) => CitationCheck | undefined;
+}
+
+const confidenceStyles = {
+  Low: 'bg-gray-600 text-gray-200',
+  Medium: 'bg-sky-700 text-sky-100',
+  High: 'bg-emerald-700 text-emerald-100',
+};
+
+export const TimelineView: React.FC<TimelineViewProps> = ({ events, onSelectEvent, citationFor }) => {
+  const [isAscending, setIsAscending] = useState(true);
+
+  const sortedEvents = useMemo(() => {
+    const sorted = events
+      .map((event, index) => ({ ...event, index }))
+      .sort((a, b) => a.date.localeCompare(b.date) || (a.endDate ?? '').localeCompare(b.endDate ?? ''));
+    return isAscending ? sorted : sorted.reverse();
+  }, [events, isAscending]);
+
+  if (events.length === 0) {
+    return <p className="text-gray-400">No dated events could be reconstructed from the evidence.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex justify-end mb-4">
+        <button
+          onClick={() => setIsAscending(prev => !prev)}
+          className="px-3 py-1 text-xs font-semibold rounded-md bg-gray-700/60 text-gray-300 hover:bg-gray-700"
+        >
+          {isAscending ? 'Oldest first ↓' : 'Newest first ↑'}
+        </button>
+      </div>
+      <ol className="relative border-l-2 border-gray-700 ml-3 space-y-6">
+        {sortedEvents.map((item, index) => (
+          <li
+            key={`${item.date}-${index}`}
+            onClick={() => onSelectEvent(item.source.documentId, item.source.pageNumber)}
+            className="ml-6 cursor-pointer group"
+          >
+            <span className="absolute -left-[9px] mt-1.5 w-4 h-4 rounded-full bg-cyan-500 border-2 border-gray-900 group-hover:bg-cyan-300 transition-colors"></span>
+            <div className="flex items-center justify-between">
+              <time className="font-mono text-sm text-cyan-300">
+                {item.date}{item.endDate ? ` → ${item.endDate}` : ''}
+              </time>
+              <span className={`px-2 py-0.5 text-xs font-semibold rounded-full ${confidenceStyles[item.confidence]}`}>{item.confidence} confidence</span>
+            </div>
+            <div className="mt-1 p-3 rounded-md bg-gray-900/40 border border-gray-700/80 group-hover:border-gray-600 transition-colors">
+              <p className="text-gray-200">{item.event}</p>
+              {item.actors.length > 0 && (
+                <p className="text-sm text-gray-400 mt-2"><strong className="font-semibold text-gray-300">Actors:</strong> {item.actors.join(', ')}</p>
+              )}
+              <div className="flex items-center justify-between gap-3 mt-2">
+                <p className="text-xs font-mono text-gray-500">
+                  {item.evidenceReference} · {item.source.documentId ? `${item.source.documentId}, ` : ''}Page {item.source.pageNumber}
+                </p>
+                <CitationBadge check={citationFor?.(item.index)} />
+              </div>
+            </div>
+          </li>
+        ))}
+      </ol>
+    </div>
+  );
+};
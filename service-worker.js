@@ -0,0 +1,41 @@
+// --- Offline service worker ---
+// Built by the offlineServiceWorker plugin in vite.config.ts, which prepends
+// CACHE_NAME and PRECACHE_URLS (every file in the production bundle). The app
+// is served from the cache so report loading, PDF generation, hashing and
+// verification work with no network. Requests to other origins, such as the
+// analysis providers, are never intercepted.
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(CACHE_NAME)
+      .then((cache) => cache.addAll(PRECACHE_URLS))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key.startsWith('verum-omnis-') && key !== CACHE_NAME).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET' || new URL(request.url).origin !== self.location.origin) {
+    return;
+  }
+
+  // Pages come from the network when it is available so a new build is
+  // picked up, and fall back to the cached shell when offline.
+  if (request.mode === 'navigate') {
+    event.respondWith(fetch(request).catch(() => caches.match('/index.html')));
+    return;
+  }
+
+  // Bundle files are content-hashed, so a cached copy is always current.
+  event.respondWith(caches.match(request).then((cached) => cached || fetch(request)));
+});
@@ -0,0 +1,38 @@
+
+import type { AnalysisProviderId } from '../types.ts';
+
+// --- Analysis provider contract ---
+// Providers only transport a prompt to a model and return its raw JSON text.
+// Prompt construction, hashing and validation live in analysisService.ts so
+// every provider yields the same AnalysisResult.
+
+export type PromptPart =
+  | { text: string }
+  | { inlineData: { mimeType: string; data: string } };
+
+export interface JsonGenerationRequest {
+  systemInstruction: string;
+  parts: PromptPart[];
+  // Response schema in Gemini's dialect (see analysisSchema.ts).
+  responseSchema: any;
+}
+
+// Per-call options. Providers that stream pass `onText` the response text
+// received so far after each chunk; `signal` cancels the request.
+export interface GenerationOptions {
+  signal?: AbortSignal;
+  onText?: (received: string) => void;
+}
+
+export interface AnalysisProvider {
+  id: AnalysisProviderId;
+  label: string;
+  model: string;
+  generateJson: (request: JsonGenerationRequest, options?: GenerationOptions) => Promise<string>;
+}
+
+// Thrown by providers in place of their own error when a request is cancelled.
+export const requestCancelledError = () => new Error('The request was cancelled.');
+
+// How a provider is named in reports, e.g. 'Google Gemini · gemini-2.5-pro'.
+export const describeModel = (provider: AnalysisProvider): string => `${provider.label} · ${provider.model}`;
@@ -0,0 +1,180 @@
+
+import { Type } from "@google/genai";
+import type { ContradictionLayer } from '../types.ts';
+
+// --- Analysis response schema ---
+// Written in Gemini's schema dialect; other providers receive the same schema
+// converted to standard JSON Schema by toJsonSchema().
+
+const evidenceSpotlightItemSchema = {
+  type: Type.OBJECT,
+  properties: {
+    title: { type: Type.STRING },
+    significance: { type: Type.STRING },
+    evidenceReference: { type: Type.STRING },
+    pageNumber: { type: Type.INTEGER },
+    documentId: { type: Type.STRING, description: "The ID of the case document the evidence comes from, e.g. 'D-01'." },
+  },
+  required: ['title', 'significance', 'evidenceReference', 'pageNumber', 'documentId'],
+};
+
+const evidenceIndexItemSchema = {
+  type: Type.OBJECT,
+  properties: {
+    id: { type: Type.STRING, description: "A unique identifier like 'E-01', 'E-02'." },
+    description: { type: Type.STRING },
+    pageNumber: { type: Type.INTEGER },
+    documentReference: { type: Type.STRING },
+    documentId: { type: Type.STRING, description: "The ID of the case document the evidence comes from, e.g. 'D-01'." },
+  },
+  required: ['id', 'description', 'pageNumber', 'documentReference', 'documentId'],
+};
+
+const legalSubjectFindingSchema = {
+  type: Type.OBJECT,
+  properties: {
+    subject: { type: Type.STRING },
+    keyPoints: { type: Type.ARRAY, items: { type: Type.STRING } },
+    evidence: { type: Type.STRING },
+    severity: { type: Type.STRING, description: "Must be one of: 'Low', 'Medium', 'High', 'Critical'." },
+    documentIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "IDs of every case document this finding relies on." },
+  },
+  required: ['subject', 'keyPoints', 'evidence', 'severity', 'documentIds'],
+};
+
+const dishonestyFindingSchema = {
+  type: Type.OBJECT,
+  properties: {
+    flag: { type: Type.STRING },
+    description: { type: Type.STRING },
+    evidence: { type: Type.STRING },
+    severity: { type: Type.STRING, description: "Must be one of: 'Low', 'Medium', 'High', 'Critical'." },
+    documentIds: { type: Type.ARRAY, items: { type: Type.STRING }, description: "IDs of every case document this finding relies on." },
+  },
+  required: ['flag', 'description', 'evidence', 'severity', 'documentIds'],
+};
+
+export const CONTRADICTION_LAYERS: ContradictionLayer[] = [
+  'timeline analysis',
+  'statement comparison',
+  'behavioural inconsistencies',
+  'document metadata mismatches',
+  'financial flows',
+  'coercion indicators',
+  'rights violations',
+  'intent vs action mismatch',
+];
+
+const evidenceSourceSchema = {
+  type: Type.OBJECT,
+  properties: {
+    documentId: { type: Type.STRING, description: "The ID of the case document, e.g. 'D-01'." },
+    pageNumber: { type: Type.INTEGER },
+  },
+  required: ['documentId', 'pageNumber'],
+};
+
+const contradictionFindingSchema = {
+  type: Type.OBJECT,
+  properties: {
+    claimA: { type: Type.STRING, description: "The first statement or fact, quoted or closely paraphrased." },
+    sourceA: evidenceSourceSchema,
+    claimB: { type: Type.STRING, description: "The statement or fact that conflicts with claim A." },
+    sourceB: evidenceSourceSchema,
+    layer: { type: Type.STRING, description: `The contradiction engine layer that detected it. Must be one of: ${CONTRADICTION_LAYERS.map(l => `'${l}'`).join(', ')}.` },
+    severity: { type: Type.STRING, description: "Must be one of: 'Low', 'Medium', 'High', 'Critical'." },
+    explanation: { type: Type.STRING, description: "A human-readable explanation of why the two claims cannot both be true." },
+  },
+  required: ['claimA', 'sourceA', 'claimB', 'sourceB', 'layer', 'severity', 'explanation'],
+};
+
+const timelineEventSchema = {
+  type: Type.OBJECT,
+  properties: {
+    date: { type: Type.STRING, description: "ISO 8601 date of the event (YYYY-MM-DD, or YYYY-MM / YYYY if only that precision is known)." },
+    endDate: { type: Type.STRING, description: "ISO 8601 end date, only when the event spans a date range." },
+    event: { type: Type.STRING },
+    actors: { type: Type.ARRAY, items: { type: Type.STRING } },
+    evidenceReference: { type: Type.STRING, description: "The evidence index ID supporting the event, e.g. 'E-01'." },
+    source: evidenceSourceSchema,
+    confidence: { type: Type.STRING, description: "Must be one of: 'Low', 'Medium', 'High'." },
+  },
+  required: ['date', 'event', 'actors', 'evidenceReference', 'source', 'confidence'],
+};
+
+const recommendedActionSchema = {
+  type: Type.OBJECT,
+  properties: {
+    jurisdiction: { type: Type.STRING },
+    action: { type: Type.STRING },
+    legalBasis: { type: Type.STRING },
+  },
+  required: ['jurisdiction', 'action', 'legalBasis'],
+};
+
+const topLiabilitySchema = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    severity: { type: Type.STRING, description: "Must be one of: 'High', 'Critical'." },
+  },
+  required: ['name', 'severity'],
+};
+
+export const analysisResultSchema = {
+  type: Type.OBJECT,
+  properties: {
+    caseNarrative: { type: Type.STRING, description: "Detailed, professional case narrative derived from the document." },
+    timeline: { type: Type.ARRAY, items: timelineEventSchema, description: "Chronological reconstruction of every dated event in the evidence." },
+    evidenceSpotlight: { type: Type.ARRAY, items: evidenceSpotlightItemSchema },
+    preAnalysisChecks: {
+      type: Type.OBJECT,
+      properties: {
+        extractionProtocol: { type: Type.BOOLEAN },
+        preservationFlags: { type: Type.BOOLEAN },
+        scope: { type: Type.BOOLEAN },
+      },
+      required: ['extractionProtocol', 'preservationFlags', 'scope'],
+      description: "Confirmation of pre-analysis steps. Typically all true.",
+    },
+    criticalLegalSubjects: { type: Type.ARRAY, items: legalSubjectFindingSchema },
+    dishonestyDetectionMatrix: { type: Type.ARRAY, items: dishonestyFindingSchema },
+    contradictions: { type: Type.ARRAY, items: contradictionFindingSchema, description: "Every contradiction found by the multi-pass contradiction engine, within or across documents." },
+    evidenceIndex: { type: Type.ARRAY, items: evidenceIndexItemSchema },
+    actionableOutput: {
+      type: Type.OBJECT,
+      properties: {
+        topLiabilities: { type: Type.ARRAY, items: topLiabilitySchema },
+        dishonestyScore: { type: Type.INTEGER, description: "A score from 0-100 representing the likelihood of dishonesty." },
+        recommendedActions: { type: Type.ARRAY, items: recommendedActionSchema },
+        summary: { type: Type.STRING, description: "A concise executive summary of the findings." },
+      },
+      required: ['topLiabilities', 'dishonestyScore', 'recommendedActions', 'summary'],
+    },
+    postAnalysisDeclaration: {
+      type: Type.OBJECT,
+      properties: {
+        extractionComplete: { type: Type.BOOLEAN },
+        integritySealsVerified: { type: Type.BOOLEAN },
+        seal: { type: Type.STRING, description: "A cryptographic seal, e.g., 'VERUM OMNIS | ETH#... | HASH#...'" },
+      },
+      required: ['extractionComplete', 'integritySealsVerified', 'seal'],
+      description: "Confirmation of post-analysis steps. Typically all true.",
+    },
+  },
+  required: [
+    'caseNarrative', 'timeline', 'evidenceSpotlight', 'preAnalysisChecks', 'criticalLegalSubjects',
+    'dishonestyDetectionMatrix', 'contradictions', 'evidenceIndex', 'actionableOutput', 'postAnalysisDeclaration'
+  ],
+};
+
+
+// Gemini's Type enum values are upper-case JSON Schema type names.
+export const toJsonSchema = (schema: any): any => {
+  if (Array.isArray(schema)) return schema.map(toJsonSchema);
+  if (!schema || typeof schema !== 'object') return schema;
+  return Object.fromEntries(Object.entries(schema).map(([key, value]) => [
+    key,
+    key === 'type' && typeof value === 'string' ? value.toLowerCase() : toJsonSchema(value),
+  ]));
+};
@@ -0,0 +1,227 @@
+
+import type { AnalysisCorrection, AnalysisProgress, AnalysisResult, AnalysisSettings, CaseDocument, CaseJurisdiction, EvidencePayload } from '../types.ts';
+import { describeModel } from './analysisProvider.ts';
+import type { AnalysisProvider, JsonGenerationRequest, PromptPart } from './analysisProvider.ts';
+import { analysisResultSchema } from './analysisSchema.ts';
+import { PRIMARY_HASH_ALGORITHM, hashCaseManifest } from './hashService.ts';
+import { createGeminiProvider } from './geminiService.ts';
+import { createLocalHttpProvider } from './localHttpProvider.ts';
+import { createFixtureProvider } from './fixtureProvider.ts';
+import { describeJurisdiction } from './jurisdictionService.ts';
+import { createJsonMemberScanner } from './streamingJson.ts';
+import { ANALYSIS_SECTIONS, EMPTY_SECTIONS, validateAnalysisSections } from './validationService.ts';
+import type { AnalysisSection, AnalysisSections, SectionFailure, ValidationOutcome } from './validationService.ts';
+
+export interface AnalysisRunOptions {
+  // Cancels the run; the pending model request is aborted.
+  signal?: AbortSignal;
+  onProgress?: (progress: AnalysisProgress) => void;
+  // Receives a partial result each time the streamed response completes
+  // another section, with the sections still to come. Sections not yet
+  // received are empty in the partial result.
+  onPartialResult?: (result: AnalysisResult, pendingSections: AnalysisSection[]) => void;
+}
+
+export const createAnalysisProvider = (settings: AnalysisSettings): AnalysisProvider => {
+  switch (settings.providerId) {
+    case 'local-http':
+      return createLocalHttpProvider(settings.localEndpoint, settings.localModel, settings.localApiKey);
+    case 'fixture':
+      return createFixtureProvider();
+    case 'gemini':
+    default:
+      return createGeminiProvider(settings.geminiModel);
+  }
+};
+
+const buildAnalysisRequest = (
+  evidence: EvidencePayload[],
+  caseName: string,
+  jurisdiction: CaseJurisdiction | null,
+  language: string
+): JsonGenerationRequest => {
+
+  let systemInstruction = `You are "Verum Omnis," the world's first autonomous legal-verification engine. Your purpose is to act as an advanced forensic AI analyst. You will receive one or more documents belonging to a single case for analysis. Your task is to perform a deep forensic analysis based on legal, behavioral, and financial intelligence. You must reconstruct events, identify patterns of criminal or dishonest behavior, cross-reference the documents against each other, apply multi-jurisdictional legal reasoning, and produce a sealed forensic report. Every evidence item and finding must cite the document ID (e.g. 'D-01') and page it comes from. Your analysis must be objective, evidence-based, and presented in a structured, professional format. You must strictly adhere to the JSON schema provided for your response.`;
+
+  if (language) {
+    systemInstruction += ` The user's preferred language is ${language} (e.g., 'en-US', 'pt-BR', 'fr-FR'). Your entire response, including all text fields in the JSON output, must be in this language.`;
+  }
+  if (jurisdiction) {
+    systemInstruction += ` The user has chosen ${jurisdiction.name} as the primary legal jurisdiction for this case. Ground your legal reasoning, limitation analysis and recommended actions in its law and courts, described below, while still noting other jurisdictions the evidence points to.\n\n${describeJurisdiction(jurisdiction)}`;
+  } else {
+    systemInstruction += ` No jurisdiction was chosen; infer the primary legal jurisdiction from the documents themselves and state which one you relied on.`;
+  }
+
+  // A chunked document contributes several payloads but appears once in the manifest.
+  const documents = [...new Map(evidence.map(e => [e.document.documentId, e.document])).values()];
+  const manifest = documents.map(d => `- ${d.documentId}: '${d.fileName}' (${d.mimeType || 'unknown type'})`).join('\n');
+  const hasExtractedText = evidence.some(e => e.pages);
+
+  const textPart = {
+    text: `Analyze the case '${caseName}', which consists of the following ${documents.length} document(s):\n${manifest}\n\nEach document follows, preceded by its ID. Your task is to generate a complete forensic analysis based on the content of all documents together, including findings that only emerge by comparing documents. Populate all fields of the required JSON structure with your findings. Be thorough, insightful, and maintain a professional, forensic tone.`
+      + (hasExtractedText ? ` Some documents are provided as redacted extracted text rather than in their original form, with each page introduced by a '[Page N]' marker; documents too large to send whole cover only the page range shown. Cite those page numbers exactly and base your findings only on the pages provided.` : '')
+  };
+
+  const documentParts: PromptPart[] = evidence.flatMap(({ document, content, pages }) => [
+    { text: `--- Document ${document.documentId}: '${document.fileName}'${pages ? ` (pages ${pages.first}-${pages.last} of ${pages.total}, extracted text)` : ''} ---` },
+    { inlineData: { mimeType: pages ? 'text/plain' : document.mimeType, data: content } },
+  ]);
+
+  return {
+    systemInstruction,
+    parts: [textPart, ...documentParts],
+    responseSchema: analysisResultSchema,
+  };
+};
+
+const parseJsonResponse = (provider: AnalysisProvider, responseText: string): unknown => {
+  try {
+    return JSON.parse(responseText);
+  } catch (error: any) {
+    console.error(`${provider.label} returned invalid JSON:`, error);
+    throw new Error(`${provider.label} returned a response that is not valid JSON.`);
+  }
+};
+
+// Asks the provider to regenerate only the sections that failed validation,
+// with the validation errors spelled out, rather than repeating the whole analysis.
+const buildRepairRequest = (request: JsonGenerationRequest, failures: SectionFailure[]): JsonGenerationRequest => {
+  const sections = failures.map(f => f.section);
+  const problems = failures.map(f => `- ${f.section}: ${f.reason}`).join('\n');
+  return {
+    systemInstruction: request.systemInstruction,
+    parts: [
+      ...request.parts,
+      { text: `Your previous response for this case failed validation in the following sections:\n${problems}\n\nRegenerate ONLY these sections from the documents above. Respond with a JSON object containing exactly these keys: ${sections.join(', ')}.` },
+    ],
+    responseSchema: {
+      ...analysisResultSchema,
+      properties: Object.fromEntries(sections.map(section => [section, analysisResultSchema.properties[section]])),
+      required: sections,
+    },
+  };
+};
+
+// Validates the model output section by section, re-prompts once for
+// sections that cannot be repaired, and seals the result with locally
+// computed hashes.
+const validateAndRepair = async (
+  provider: AnalysisProvider,
+  request: JsonGenerationRequest,
+  response: unknown,
+  documentIds: string[],
+  { signal, onProgress }: AnalysisRunOptions
+): Promise<{ sections: AnalysisSections; corrections: AnalysisCorrection[] }> => {
+  const first = validateAnalysisSections(response, ANALYSIS_SECTIONS, documentIds);
+  const sections: Partial<AnalysisSections> = { ...first.sections };
+  const corrections = [...first.corrections];
+  if (first.failures.length === 0) {
+    return { sections: sections as AnalysisSections, corrections };
+  }
+
+  console.warn(`${provider.label} response failed validation; re-prompting for:`, first.failures);
+  onProgress?.({ stage: 'validating', message: `Re-prompting ${describeModel(provider)} for ${first.failures.length} section(s) that failed validation...` });
+  let retry: ValidationOutcome;
+  try {
+    const repairText = await provider.generateJson(buildRepairRequest(request, first.failures), { signal });
+    retry = validateAnalysisSections(parseJsonResponse(provider, repairText), first.failures.map(f => f.section), documentIds);
+  } catch (error: any) {
+    if (signal?.aborted) throw error;
+    console.error("Targeted re-prompt failed:", error);
+    retry = { sections: {}, corrections: [], failures: first.failures };
+  }
+
+  Object.assign(sections, retry.sections);
+  corrections.push(...retry.corrections);
+  first.failures.forEach(({ section, reason }) => {
+    const recovered = !retry.failures.some(f => f.section === section);
+    corrections.push({
+      section,
+      path: section,
+      message: recovered
+        ? `Regenerated by a targeted re-prompt after the first response failed validation (${reason}).`
+        : `Could not be recovered (${reason}); left empty.`,
+    });
+  });
+  retry.failures.forEach(({ section }) => {
+    (sections as any)[section] = EMPTY_SECTIONS[section];
+  });
+
+  return { sections: sections as AnalysisSections, corrections };
+};
+
+// A result holding only the sections received so far, for display while the
+// response is still streaming. It is not hashed or sealed.
+const buildPartialResult = (
+  sections: Partial<AnalysisSections>,
+  documents: CaseDocument[],
+  caseName: string,
+  jurisdiction: CaseJurisdiction | null
+): AnalysisResult => ({
+  ...EMPTY_SECTIONS,
+  ...sections,
+  documentHash: '',
+  hashAlgorithm: PRIMARY_HASH_ALGORITHM,
+  documentHashSha256: '',
+  fileName: caseName,
+  documents,
+  corrections: [],
+  citationChecks: [],
+  ...(jurisdiction ? { jurisdiction } : {}),
+  analyzedAt: '',
+  models: [],
+});
+
+export const analyzeDocument = async (
+  evidence: EvidencePayload[],
+  caseName: string,
+  jurisdiction: CaseJurisdiction | null,
+  language: string,
+  provider: AnalysisProvider,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisResult> => {
+  const { signal, onProgress, onPartialResult } = options;
+  const request = buildAnalysisRequest(evidence, caseName, jurisdiction, language);
+  const documents = [...new Map(evidence.map(e => [e.document.documentId, e.document])).values()];
+  const documentIds = documents.map(d => d.documentId);
+
+  onProgress?.({ stage: 'uploading', message: `Sending ${documents.length} document(s) to ${describeModel(provider)}...` });
+  let receivedSections = 0;
+  const scanner = createJsonMemberScanner();
+  const responseText = await provider.generateJson(request, {
+    signal,
+    onText: received => {
+      onProgress?.({ stage: 'generating', message: `${describeModel(provider)} is writing the analysis...`, receivedChars: received.length });
+      if (!onPartialResult) return;
+      const members = scanner.scan(received);
+      const completed = ANALYSIS_SECTIONS.filter(section => section in members);
+      if (completed.length === receivedSections) return;
+      receivedSections = completed.length;
+      const partial = validateAnalysisSections(members, completed, documentIds);
+      onPartialResult(
+        buildPartialResult(partial.sections, documents, caseName, jurisdiction),
+        ANALYSIS_SECTIONS.filter(section => !(section in partial.sections))
+      );
+    },
+  });
+
+  onProgress?.({ stage: 'validating', message: 'Validating the response against the report contract...' });
+  const response = parseJsonResponse(provider, responseText);
+  const { sections, corrections } = await validateAndRepair(provider, request, response, documentIds, options);
+  const caseHashes = hashCaseManifest(documents);
+
+  return {
+    ...sections,
+    documentHash: caseHashes.sha512,
+    hashAlgorithm: PRIMARY_HASH_ALGORITHM,
+    documentHashSha256: caseHashes.sha256,
+    fileName: caseName,
+    documents,
+    corrections,
+    // Filled in locally once the evidence text has been extracted (see citationService.ts).
+    citationChecks: [],
+    ...(jurisdiction ? { jurisdiction } : {}),
+    analyzedAt: new Date().toISOString(),
+    models: [describeModel(provider)],
+  };
+};
@@ -0,0 +1,136 @@
+
+import { sha256 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import type { AnalysisResult, AuditEntry, AuditEvent } from '../types.ts';
+import type { AnalysisProvider } from './analysisProvider.ts';
+import { describeModel } from './analysisProvider.ts';
+
+// --- Audit trail ---
+// An append-only record of what happened to a case: evidence ingested,
+// redaction, every model call and response, validation fixes, analyst
+// reviews and exports. Each entry's hash covers its content and the previous
+// entry's hash, so editing, removing or reordering an entry breaks the chain
+// from that point on. Truncating the end of the chain is caught by the
+// report signature, which covers the whole log.
+
+const GENESIS_HASH = '0'.repeat(64);
+
+export const AUDIT_EVENT_LABELS: Record<AuditEvent, string> = {
+  'evidence-ingested': 'Evidence ingested',
+  'redaction-applied': 'Redaction applied',
+  'model-called': 'Model called',
+  'response-received': 'Response received',
+  'validation-corrected': 'Validation fix',
+  'citations-verified': 'Citations verified',
+  'review-recorded': 'Review recorded',
+  'review-withdrawn': 'Review withdrawn',
+  'report-exported': 'Report exported',
+};
+
+const hashEntry = (entry: Omit<AuditEntry, 'hash'>): string => {
+  // A JSON array keeps field boundaries unambiguous.
+  const canonical = JSON.stringify([entry.sequence, entry.timestamp, entry.event, entry.detail, entry.previousHash]);
+  return bytesToHex(sha256(new TextEncoder().encode(canonical)));
+};
+
+const sha256Text = (text: string) => bytesToHex(sha256(new TextEncoder().encode(text)));
+
+export const appendAuditEntry = (log: AuditEntry[], event: AuditEvent, detail: string): AuditEntry[] => {
+  const previous = log[log.length - 1];
+  const entry = {
+    sequence: previous ? previous.sequence + 1 : 0,
+    timestamp: new Date().toISOString(),
+    event,
+    detail,
+    previousHash: previous ? previous.hash : GENESIS_HASH,
+  };
+  return [...log, { ...entry, hash: hashEntry(entry) }];
+};
+
+// Returns the result with one more audit entry. Results from before the audit
+// trail existed start a new chain.
+export const recordAuditEvent = (result: AnalysisResult, event: AuditEvent, detail: string): AnalysisResult => ({
+  ...result,
+  auditLog: appendAuditEntry(result.auditLog ?? [], event, detail),
+});
+
+export interface AuditRecorder {
+  record: (event: AuditEvent, detail: string) => void;
+  entries: () => AuditEntry[];
+}
+
+// Collects entries while an analysis runs, before there is a result to hold them.
+export const createAuditRecorder = (): AuditRecorder => {
+  let log: AuditEntry[] = [];
+  return {
+    record: (event, detail) => { log = appendAuditEntry(log, event, detail); },
+    entries: () => log,
+  };
+};
+
+// Wraps a provider so every request and response is logged with its size and
+// SHA-256, without keeping the (redacted) prompt itself.
+export const withAuditTrail = (provider: AnalysisProvider, audit: AuditRecorder): AnalysisProvider => ({
+  ...provider,
+  generateJson: async (request, options) => {
+    const prompt = JSON.stringify({ systemInstruction: request.systemInstruction, parts: request.parts });
+    audit.record('model-called', `${describeModel(provider)}: ${request.parts.length} prompt part(s), ${prompt.length} characters, SHA-256 ${sha256Text(prompt)}`);
+    try {
+      const response = await provider.generateJson(request, options);
+      audit.record('response-received', `${describeModel(provider)}: ${response.length} characters, SHA-256 ${sha256Text(response)}`);
+      return response;
+    } catch (error: any) {
+      const outcome = options?.signal?.aborted ? 'request cancelled' : `request failed (${error?.message ?? error})`;
+      audit.record('response-received', `${describeModel(provider)}: ${outcome}`);
+      throw error;
+    }
+  },
+});
+
+export interface AuditVerification {
+  status: 'intact' | 'broken' | 'missing';
+  problems: string[];
+}
+
+// Checks that entries are numbered without gaps, that each links to the one
+// before it, and that no entry was altered after it was hashed.
+export const verifyAuditLog = (log: AuditEntry[] | undefined): AuditVerification => {
+  if (!log || log.length === 0) return { status: 'missing', problems: [] };
+  const problems: string[] = [];
+  log.forEach((entry, i) => {
+    const previous = log[i - 1];
+    const expectedSequence = previous ? previous.sequence + 1 : 0;
+    if (entry.sequence !== expectedSequence) {
+      problems.push(`Entry ${entry.sequence}: expected entry ${expectedSequence} here; entries are missing or out of order.`);
+    }
+    if (entry.previousHash !== (previous ? previous.hash : GENESIS_HASH)) {
+      problems.push(`Entry ${entry.sequence}: does not link to the entry before it.`);
+    }
+    if (hashEntry(entry) !== entry.hash) {
+      problems.push(`Entry ${entry.sequence}: content was changed after it was recorded.`);
+    }
+  });
+  return { status: problems.length > 0 ? 'broken' : 'intact', problems };
+};
+
+// One line for the declarations: where the case's events are logged.
+export const describeAuditTrail = (result: AnalysisResult): string => {
+  const verification = verifyAuditLog(result.auditLog);
+  if (verification.status === 'missing') {
+    // Reports from before the audit trail carry a log path from the model.
+    return result.postAnalysisDeclaration.logs ? `Logged in: ${result.postAnalysisDeclaration.logs}` : 'No audit trail recorded';
+  }
+  const log = result.auditLog!;
+  const state = verification.status === 'intact' ? 'chain verified' : `CHAIN BROKEN (${verification.problems.length} problem(s))`;
+  return `Hash-chained audit trail: ${log.length} entries, head ${log[log.length - 1].hash.substring(0, 16)}, ${state}`;
+};
+
+// Rows for the report appendix: #, time, event, detail, hash.
+export const auditLogRows = (result: AnalysisResult): string[][] =>
+  (result.auditLog ?? []).map(entry => [
+    String(entry.sequence),
+    entry.timestamp,
+    AUDIT_EVENT_LABELS[entry.event] ?? entry.event,
+    entry.detail,
+    `${entry.hash.substring(0, 16)}...`,
+  ]);
@@ -0,0 +1,352 @@
+
+import type { AnalysisResult, CaseSummary, ChatMessage, SignatureStatus, StoredCase, StoredFileInfo } from '../types.ts';
+
+// --- Encrypted case library ---
+// Past cases are kept in IndexedDB, encrypted with AES-256-GCM under a key
+// derived from the user's passphrase with PBKDF2. Nothing is stored in the
+// clear except record IDs: summaries, results and file contents are each
+// sealed separately so the library can be listed without decrypting evidence.
+// The store name and record ID are bound into every ciphertext as additional
+// data, so sealed records cannot be swapped between cases or between stores.
+
+const LIBRARY_DB_NAME = 'verum-omnis-library';
+const KEYRING_STORE = 'keyring';
+const SUMMARY_STORE = 'summaries';
+const RESULT_STORE = 'results';
+const FILE_STORE = 'files';
+const CONVERSATION_STORE = 'conversations';
+const KEYRING_ID = 'main';
+
+const PBKDF2_ITERATIONS = 600_000;
+const KEY_CHECK_TEXT = 'verum-omnis-case-library';
+const MIN_PASSPHRASE_LENGTH = 8;
+
+export const REPORT_PDF_SLOT = 'report';
+
+interface SealedRecord {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface KeyringRecord {
+  salt: Uint8Array;
+  iterations: number;
+  check: SealedRecord;
+}
+
+interface StoredRecord extends SealedRecord {
+  id: string;
+}
+
+interface StoredFileRecord extends SealedRecord {
+  id: string;
+  caseId: string;
+}
+
+export interface SaveCaseInput {
+  name: string;
+  result: AnalysisResult;
+  evidenceFiles: Record<string, File>;
+  reportPdf?: Blob | null;
+  conversation?: ChatMessage[];
+  importedSignature?: SignatureStatus;
+}
+
+export interface CaseLibrary {
+  listCases: () => Promise<CaseSummary[]>;
+  saveCase: (input: SaveCaseInput) => Promise<CaseSummary>;
+  updateCase: (id: string, changes: Partial<Pick<CaseSummary, 'name' | 'tags' | 'notes'>>) => Promise<CaseSummary>;
+  attachReportPdf: (id: string, pdf: Blob) => Promise<void>;
+  saveConversation: (id: string, conversation: ChatMessage[]) => Promise<void>;
+  saveResult: (id: string, result: AnalysisResult) => Promise<CaseSummary>;
+  loadCase: (id: string) => Promise<StoredCase>;
+  deleteCase: (id: string) => Promise<void>;
+}
+
+// --- IndexedDB helpers ---
+
+const openLibraryDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(LIBRARY_DB_NAME, 2);
+    request.onupgradeneeded = (event) => {
+      const db = request.result;
+      if (event.oldVersion < 1) {
+        db.createObjectStore(KEYRING_STORE);
+        db.createObjectStore(SUMMARY_STORE, { keyPath: 'id' });
+        db.createObjectStore(RESULT_STORE, { keyPath: 'id' });
+        db.createObjectStore(FILE_STORE, { keyPath: 'id' }).createIndex('caseId', 'caseId');
+      }
+      // Version 2: case assistant conversations, one record per case.
+      if (event.oldVersion < 2) {
+        db.createObjectStore(CONVERSATION_STORE, { keyPath: 'id' });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const withDb = async <T,>(work: (db: IDBDatabase) => Promise<T>): Promise<T> => {
+  const db = await openLibraryDb();
+  try {
+    return await work(db);
+  } finally {
+    db.close();
+  }
+};
+
+const requestToPromise = <T,>(request: IDBRequest<T>): Promise<T> => {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readRecord = <T,>(db: IDBDatabase, store: string, key: IDBValidKey): Promise<T | undefined> => {
+  return requestToPromise(db.transaction(store, 'readonly').objectStore(store).get(key));
+};
+
+// Runs `write` against the given stores in one transaction, resolving once it commits.
+const writeRecords = (db: IDBDatabase, stores: string[], write: (tx: IDBTransaction) => void): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(stores, 'readwrite');
+    write(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+// --- Encryption ---
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+const deriveKey = async (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const seal = async (key: CryptoKey, store: string, recordId: string, plaintext: BufferSource): Promise<SealedRecord> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv, additionalData: encoder.encode(`${store}/${recordId}`) }, key, plaintext);
+  return { iv, data };
+};
+
+const unseal = async (key: CryptoKey, store: string, recordId: string, record: SealedRecord): Promise<ArrayBuffer> => {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: record.iv as BufferSource, additionalData: encoder.encode(`${store}/${recordId}`) }, key, record.data);
+};
+
+const sealJson = (key: CryptoKey, store: string, recordId: string, value: unknown) => seal(key, store, recordId, encoder.encode(JSON.stringify(value)));
+
+const unsealJson = async <T,>(key: CryptoKey, store: string, recordId: string, record: SealedRecord): Promise<T> => {
+  return JSON.parse(decoder.decode(await unseal(key, store, recordId, record)));
+};
+
+const fileRecordId = (caseId: string, slot: string) => `${caseId}/${slot}`;
+
+// --- Library ---
+
+export const hasCaseLibrary = async (): Promise<boolean> => {
+  return withDb(async db => (await readRecord<KeyringRecord>(db, KEYRING_STORE, KEYRING_ID)) !== undefined);
+};
+
+const createLibrary = (key: CryptoKey): CaseLibrary => {
+  const readSummary = async (db: IDBDatabase, id: string): Promise<CaseSummary> => {
+    const record = await readRecord<StoredRecord>(db, SUMMARY_STORE, id);
+    if (!record) throw new Error('This case is no longer in the library.');
+    return unsealJson<CaseSummary>(key, SUMMARY_STORE, id, record);
+  };
+
+  const sealFile = async (caseId: string, slot: string, blob: Blob): Promise<StoredFileRecord> => {
+    const id = fileRecordId(caseId, slot);
+    return { id, caseId, ...(await seal(key, FILE_STORE, id, await blob.arrayBuffer())) };
+  };
+
+  // Updates that read a case's summary, change it and write it back run one
+  // at a time. The summary must be decrypted to change it, which cannot
+  // happen inside an IndexedDB transaction, so concurrent saves would
+  // otherwise overwrite each other's changes.
+  let queue: Promise<unknown> = Promise.resolve();
+  const exclusive = <T,>(work: () => Promise<T>): Promise<T> => {
+    const run = queue.then(work, work);
+    queue = run.catch(() => undefined);
+    return run;
+  };
+
+  // Reads a case's summary, applies `change` and writes it back in the same
+  // transaction as the records sealed alongside it.
+  const updateSummary = (
+    id: string,
+    change: (summary: CaseSummary) => CaseSummary,
+    stores: string[] = [],
+    write: (tx: IDBTransaction) => void = () => {}
+  ): Promise<CaseSummary> => exclusive(() => withDb(async db => {
+    const summary = change(await readSummary(db, id));
+    const sealed = await sealJson(key, SUMMARY_STORE, id, summary);
+    await writeRecords(db, [SUMMARY_STORE, ...stores], tx => {
+      write(tx);
+      tx.objectStore(SUMMARY_STORE).put({ id, ...sealed });
+    });
+    return summary;
+  }));
+
+  const listCases = async (): Promise<CaseSummary[]> => {
+    const records = await withDb(db => requestToPromise<StoredRecord[]>(
+      db.transaction(SUMMARY_STORE, 'readonly').objectStore(SUMMARY_STORE).getAll()
+    ));
+    const summaries = await Promise.all(records.map(record => unsealJson<CaseSummary>(key, SUMMARY_STORE, record.id, record)));
+    return summaries.sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  };
+
+  const saveCase = async ({ name, result, evidenceFiles, reportPdf = null, conversation = [], importedSignature }: SaveCaseInput): Promise<CaseSummary> => {
+    const id = crypto.randomUUID();
+    const now = new Date().toISOString();
+    const slots: [string, Blob, string][] = Object.entries(evidenceFiles).map(([documentId, file]) => [documentId, file, file.name]);
+    if (reportPdf) slots.push([REPORT_PDF_SLOT, reportPdf, `${result.fileName}.pdf`]);
+
+    const files: StoredFileInfo[] = slots.map(([slot, blob, fileName]) => ({ slot, fileName, mimeType: blob.type, sizeBytes: blob.size }));
+    const summary: CaseSummary = {
+      id,
+      name,
+      tags: [],
+      notes: '',
+      createdAt: now,
+      updatedAt: now,
+      dishonestyScore: result.actionableOutput.dishonestyScore,
+      files,
+      ...(importedSignature ? { importedSignature } : {}),
+    };
+
+    // Everything is encrypted before the transaction opens; IndexedDB
+    // transactions commit as soon as they are left idle across an await.
+    const sealedSummary = await sealJson(key, SUMMARY_STORE, id, summary);
+    const sealedResult = await sealJson(key, RESULT_STORE, id, result);
+    const sealedFiles = await Promise.all(slots.map(([slot, blob]) => sealFile(id, slot, blob)));
+    const sealedConversation = conversation.length > 0 ? await sealJson(key, CONVERSATION_STORE, id, conversation) : null;
+    await withDb(db => writeRecords(db, [SUMMARY_STORE, RESULT_STORE, FILE_STORE, CONVERSATION_STORE], tx => {
+      tx.objectStore(SUMMARY_STORE).put({ id, ...sealedSummary });
+      tx.objectStore(RESULT_STORE).put({ id, ...sealedResult });
+      sealedFiles.forEach(record => tx.objectStore(FILE_STORE).put(record));
+      if (sealedConversation) tx.objectStore(CONVERSATION_STORE).put({ id, ...sealedConversation });
+    }));
+    return summary;
+  };
+
+  const updateCase = async (id: string, changes: Partial<Pick<CaseSummary, 'name' | 'tags' | 'notes'>>): Promise<CaseSummary> => {
+    return updateSummary(id, summary => ({ ...summary, ...changes, updatedAt: new Date().toISOString() }));
+  };
+
+  const attachReportPdf = async (id: string, pdf: Blob): Promise<void> => {
+    const record = await sealFile(id, REPORT_PDF_SLOT, pdf);
+    await updateSummary(id, summary => ({
+      ...summary,
+      files: [
+        ...summary.files.filter(f => f.slot !== REPORT_PDF_SLOT),
+        { slot: REPORT_PDF_SLOT, fileName: `${summary.name}.pdf`, mimeType: pdf.type, sizeBytes: pdf.size },
+      ],
+      updatedAt: new Date().toISOString(),
+    }), [FILE_STORE], tx => tx.objectStore(FILE_STORE).put(record));
+  };
+
+  // Replaces the case's whole conversation; it is small enough to reseal on every turn.
+  const saveConversation = async (id: string, conversation: ChatMessage[]): Promise<void> => {
+    const sealed = await sealJson(key, CONVERSATION_STORE, id, conversation);
+    await updateSummary(id, summary => ({ ...summary, updatedAt: new Date().toISOString() }),
+      [CONVERSATION_STORE], tx => tx.objectStore(CONVERSATION_STORE).put({ id, ...sealed }));
+  };
+
+  // Replaces the stored analysis after an analyst has reviewed its findings.
+  const saveResult = async (id: string, result: AnalysisResult): Promise<CaseSummary> => {
+    const sealed = await sealJson(key, RESULT_STORE, id, result);
+    return updateSummary(id, summary => ({
+      ...summary,
+      dishonestyScore: result.actionableOutput.dishonestyScore,
+      updatedAt: new Date().toISOString(),
+    }), [RESULT_STORE], tx => tx.objectStore(RESULT_STORE).put({ id, ...sealed }));
+  };
+
+  const loadCase = async (id: string): Promise<StoredCase> => {
+    return withDb(async db => {
+      const summary = await readSummary(db, id);
+      const resultRecord = await readRecord<StoredRecord>(db, RESULT_STORE, id);
+      if (!resultRecord) throw new Error(`The analysis for '${summary.name}' is missing from the library.`);
+      const result = await unsealJson<AnalysisResult>(key, RESULT_STORE, id, resultRecord);
+
+      const evidenceFiles: Record<string, File> = {};
+      let reportPdf: Blob | null = null;
+      for (const info of summary.files) {
+        const recordId = fileRecordId(id, info.slot);
+        const record = await readRecord<StoredFileRecord>(db, FILE_STORE, recordId);
+        if (!record) {
+          console.warn(`Stored file '${info.fileName}' is missing from case ${id}.`);
+          continue;
+        }
+        const data = await unseal(key, FILE_STORE, recordId, record);
+        if (info.slot === REPORT_PDF_SLOT) {
+          reportPdf = new Blob([data], { type: info.mimeType || 'application/pdf' });
+        } else {
+          evidenceFiles[info.slot] = new File([data], info.fileName, { type: info.mimeType });
+        }
+      }
+      const conversationRecord = await readRecord<StoredRecord>(db, CONVERSATION_STORE, id);
+      const conversation = conversationRecord ? await unsealJson<ChatMessage[]>(key, CONVERSATION_STORE, id, conversationRecord) : [];
+      return { summary, result, evidenceFiles, reportPdf, conversation };
+    });
+  };
+
+  const deleteCase = async (id: string): Promise<void> => {
+    await exclusive(() => withDb(async db => {
+      const fileKeys = await requestToPromise(
+        db.transaction(FILE_STORE, 'readonly').objectStore(FILE_STORE).index('caseId').getAllKeys(id)
+      );
+      await writeRecords(db, [SUMMARY_STORE, RESULT_STORE, FILE_STORE, CONVERSATION_STORE], tx => {
+        tx.objectStore(SUMMARY_STORE).delete(id);
+        tx.objectStore(RESULT_STORE).delete(id);
+        tx.objectStore(CONVERSATION_STORE).delete(id);
+        fileKeys.forEach(fileKey => tx.objectStore(FILE_STORE).delete(fileKey));
+      });
+    }));
+  };
+
+  return { listCases, saveCase, updateCase, attachReportPdf, saveConversation, saveResult, loadCase, deleteCase };
+};
+
+// Unlocks the library with `passphrase`, creating it on first use. A wrong
+// passphrase fails the AES-GCM check on the keyring's sealed check value.
+export const unlockCaseLibrary = async (passphrase: string): Promise<CaseLibrary> => {
+  return withDb(async db => {
+    const keyring = await readRecord<KeyringRecord>(db, KEYRING_STORE, KEYRING_ID);
+    if (!keyring) {
+      if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+        throw new Error(`The passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters long.`);
+      }
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+      const check = await seal(key, KEYRING_STORE, KEYRING_ID, encoder.encode(KEY_CHECK_TEXT));
+      await writeRecords(db, [KEYRING_STORE], tx => tx.objectStore(KEYRING_STORE).put({ salt, iterations: PBKDF2_ITERATIONS, check }, KEYRING_ID));
+      return createLibrary(key);
+    }
+
+    const key = await deriveKey(passphrase, keyring.salt, keyring.iterations);
+    try {
+      await unseal(key, KEYRING_STORE, KEYRING_ID, keyring.check);
+    } catch {
+      throw new Error('Incorrect passphrase.');
+    }
+    return createLibrary(key);
+  });
+};
+
+// Matches every whitespace-separated term of `query` against the case name,
+// tags, notes and file names.
+export const matchesCaseQuery = (summary: CaseSummary, query: string): boolean => {
+  const haystack = [summary.name, summary.notes, ...summary.tags, ...summary.files.map(f => f.fileName)].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+};
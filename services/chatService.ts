@@ -0,0 +1,114 @@
+
+import { Type } from "@google/genai";
+import type { AnalysisResult, ChatMessage } from '../types.ts';
+import { describeModel } from './analysisProvider.ts';
+import type { AnalysisProvider, PromptPart } from './analysisProvider.ts';
+import { createRedactor } from './redactionService.ts';
+import type { CasePageTexts } from './textExtractionService.ts';
+
+// --- Case assistant ---
+// Follow-up questions are answered from the sealed analysis and the extracted
+// evidence text only. Like the analysis itself, everything sent to the
+// provider is redacted first and the answer is rehydrated locally.
+
+// Keeps prompts within what every supported provider accepts.
+const MAX_EVIDENCE_CHARS = 300_000;
+const MAX_HISTORY_MESSAGES = 10;
+
+export const chatResponseSchema = {
+  type: Type.OBJECT,
+  properties: {
+    answer: { type: Type.STRING, description: "The answer, citing evidence inline as [D-01 p.4]." },
+  },
+  required: ['answer'],
+};
+
+// Matches "[D-01 p.4]", "[D-01, p. 4]" and "[D-01 page 4]".
+const CITATION_PATTERN = /\[(D-\d+),?\s*(?:p\.?|page)\s*(\d+)\]/gi;
+
+export type ChatSegment =
+  | { kind: 'text'; text: string }
+  | { kind: 'citation'; documentId: string; pageNumber: number; label: string };
+
+// Splits an answer into plain text and citations, so citations can be rendered as links.
+export const splitCitations = (text: string): ChatSegment[] => {
+  const segments: ChatSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(CITATION_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > last) segments.push({ kind: 'text', text: text.slice(last, index) });
+    segments.push({ kind: 'citation', documentId: match[1].toUpperCase(), pageNumber: Number(match[2]), label: match[0] });
+    last = index + match[0].length;
+  }
+  if (last < text.length) segments.push({ kind: 'text', text: text.slice(last) });
+  return segments;
+};
+
+// The evidence text with a "[D-01 p.4]" marker before each page, cut off at
+// MAX_EVIDENCE_CHARS. Documents without extractable text are listed as such.
+const buildEvidenceContext = (result: AnalysisResult, pageTexts: CasePageTexts): string => {
+  const blocks: string[] = [];
+  let remaining = MAX_EVIDENCE_CHARS;
+  for (const document of result.documents) {
+    const pages = pageTexts[document.documentId];
+    if (!pages) {
+      blocks.push(`--- Document ${document.documentId}: '${document.fileName}' (text not available) ---`);
+      continue;
+    }
+    blocks.push(`--- Document ${document.documentId}: '${document.fileName}' ---`);
+    for (const [index, page] of pages.entries()) {
+      if (remaining <= 0) {
+        blocks.push(`[Evidence text truncated; pages from ${document.documentId} p.${index + 1} onward are not included.]`);
+        return blocks.join('\n');
+      }
+      const text = page.slice(0, remaining);
+      blocks.push(`[${document.documentId} p.${index + 1}]\n${text}`);
+      remaining -= text.length;
+    }
+  }
+  return blocks.join('\n');
+};
+
+export const askCaseQuestion = async (
+  provider: AnalysisProvider,
+  result: AnalysisResult,
+  pageTexts: CasePageTexts,
+  history: ChatMessage[],
+  question: string,
+  language: string
+): Promise<ChatMessage> => {
+  const redactor = createRedactor();
+  const systemInstruction = `You are the case assistant of "Verum Omnis," a forensic legal-verification engine. Answer the user's questions about one case using ONLY the sealed forensic analysis and the evidence text provided. Cite every factual statement inline with the document ID and page it comes from, written exactly as [D-01 p.4]. If the analysis and evidence do not support an answer, say so plainly rather than guessing. Do not invent documents, pages, quotes or events. The user's preferred language is ${language}; answer in that language.`;
+
+  // Citation checks are local bookkeeping, not part of the case.
+  const { citationChecks: _citationChecks, ...analysis } = result;
+  const evidence = buildEvidenceContext(result, pageTexts);
+  const transcript = history.slice(-MAX_HISTORY_MESSAGES)
+    .map(message => `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.text}`)
+    .join('\n\n');
+
+  const parts: PromptPart[] = [
+    { text: `--- Sealed forensic analysis (JSON) ---\n${redactor.redact(JSON.stringify(analysis))}` },
+    { text: `--- Evidence text ---\n${redactor.redact(evidence) || 'No evidence text is available for this case; answer from the analysis alone.'}` },
+    ...(transcript ? [{ text: `--- Conversation so far ---\n${redactor.redact(transcript)}` }] : []),
+    { text: `--- Question ---\n${redactor.redact(question)}` },
+  ];
+
+  const responseText = await provider.generateJson({ systemInstruction, parts, responseSchema: chatResponseSchema });
+  let answer: unknown;
+  try {
+    answer = JSON.parse(responseText)?.answer;
+  } catch (error: any) {
+    console.error(`${provider.label} returned invalid JSON for a chat answer:`, error);
+  }
+  if (typeof answer !== 'string' || !answer.trim()) {
+    throw new Error(`${provider.label} did not return an answer.`);
+  }
+
+  return {
+    role: 'assistant',
+    text: redactor.rehydrate(answer.trim()),
+    createdAt: new Date().toISOString(),
+    model: describeModel(provider),
+  };
+};
@@ -0,0 +1,334 @@
+
+import type {
+  AnalysisCorrection,
+  AnalysisProgress,
+  AnalysisResult,
+  CaseDocument,
+  CaseJurisdiction,
+  ContradictionFinding,
+  DishonestyFinding,
+  EvidenceIndexItem,
+  EvidencePayload,
+  LegalSubjectFinding,
+  RecommendedAction,
+  TimelineEvent,
+  TopLiability,
+} from '../types.ts';
+import type { AnalysisProvider } from './analysisProvider.ts';
+import { analyzeDocument } from './analysisService.ts';
+import type { AnalysisRunOptions } from './analysisService.ts';
+import { findingNamesMatch } from './findingMatcher.ts';
+import { PRIMARY_HASH_ALGORITHM, hashCaseManifest } from './hashService.ts';
+import { toBase64 } from './reportSerializer.ts';
+
+// --- Chunked analysis ---
+// Documents too large to send inline (long disclosure bundles) are sent as
+// consecutive page ranges of locally extracted text. Each chunk is analysed on
+// its own, then the partial results are merged: duplicate findings are folded
+// together and evidence IDs are renumbered into one case-wide index.
+
+// Inline request payloads are capped at about 20 MB once base64-encoded.
+const MAX_INLINE_BYTES = 14 * 1024 * 1024;
+const MAX_INLINE_PAGES = 100;
+const MAX_CHUNK_PAGES = 40;
+const MAX_CHUNK_CHARS = 120_000;
+
+const SEVERITY_RANK: Record<string, number> = { Low: 0, Medium: 1, High: 2, Critical: 3 };
+
+export const needsChunking = (file: File, pageTexts: string[] | null): boolean => {
+  const isPdf = file.type === 'application/pdf' || /\.pdf$/i.test(file.name);
+  if (!isPdf) return false;
+  const isLarge = file.size > MAX_INLINE_BYTES || (pageTexts?.length ?? 0) > MAX_INLINE_PAGES;
+  if (!isLarge) return false;
+  if (!pageTexts || pageTexts.every(page => page.trim() === '')) {
+    throw new Error(`'${file.name}' is too large to send whole and has no extractable text to split into chunks. Is it a scanned document?`);
+  }
+  return true;
+};
+
+// The extracted text of pages first..last, with each page introduced by a
+// '[Page N]' marker so the model can cite it.
+const pageRangePayload = (
+  document: CaseDocument,
+  pageTexts: string[],
+  first: number,
+  last: number,
+  redact: (text: string) => string
+): EvidencePayload => {
+  const text = pageTexts.slice(first - 1, last).map((page, i) => `[Page ${first + i}]\n${page}`).join('\n\n');
+  return {
+    document,
+    content: toBase64(new TextEncoder().encode(redact(text))),
+    pages: { first, last, total: pageTexts.length },
+  };
+};
+
+// A whole document sent as its redacted extracted text, for binary evidence
+// (PDF, Word) that cannot be redacted in its original form.
+export const buildTextPayload = (
+  document: CaseDocument,
+  pageTexts: string[],
+  redact: (text: string) => string
+): EvidencePayload => pageRangePayload(document, pageTexts, 1, pageTexts.length, redact);
+
+// Splits a document's page texts into consecutive ranges bounded by page count
+// and size. `redact` is applied to the text before it leaves the device.
+export const buildChunkPayloads = (
+  document: CaseDocument,
+  pageTexts: string[],
+  redact: (text: string) => string
+): EvidencePayload[] => {
+  const payloads: EvidencePayload[] = [];
+  let first = 1;
+  while (first <= pageTexts.length) {
+    let last = first;
+    let size = pageTexts[first - 1].length;
+    while (last < pageTexts.length && last - first + 1 < MAX_CHUNK_PAGES && size + pageTexts[last].length <= MAX_CHUNK_CHARS) {
+      size += pageTexts[last].length;
+      last++;
+    }
+    payloads.push(pageRangePayload(document, pageTexts, first, last, redact));
+    first = last + 1;
+  }
+  return payloads;
+};
+
+interface AnalysisJob {
+  label: string;
+  evidence: EvidencePayload[];
+}
+
+const isWholeDocument = ({ pages }: EvidencePayload) => !pages || (pages.first === 1 && pages.last === pages.total);
+
+// Whole documents are analysed together so cross-document findings survive;
+// each chunk of a large document is analysed on its own.
+const planJobs = (evidence: EvidencePayload[]): AnalysisJob[] => {
+  const whole = evidence.filter(isWholeDocument);
+  const chunks = evidence.filter(e => !isWholeDocument(e));
+  const jobs: AnalysisJob[] = [];
+  if (whole.length > 0) {
+    jobs.push({ label: whole.map(e => e.document.documentId).join(', '), evidence: whole });
+  }
+  chunks.forEach(chunk => {
+    jobs.push({ label: `${chunk.document.documentId} pages ${chunk.pages!.first}-${chunk.pages!.last}`, evidence: [chunk] });
+  });
+  return jobs;
+};
+
+// --- Merge ---
+
+// Findings are written in the user's language, so letters and digits of every script count.
+const normalize = (text: string) => text.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, ' ').trim();
+
+// Text with nothing left after normalisation is never the same as anything else.
+const sameText = (a: string, b: string) => {
+  const normalized = normalize(a);
+  return normalized !== '' && normalized === normalize(b);
+};
+
+const higherSeverity = <S extends string>(a: S, b: S): S => (SEVERITY_RANK[b] > SEVERITY_RANK[a] ? b : a);
+
+const union = (a: string[], b: string[]) => [...new Set([...a, ...b])];
+
+const joinDistinct = (values: string[], separator: string) => [...new Set(values.filter(v => v.trim() !== ''))].join(separator);
+
+export const rewriteEvidenceIds = <T,>(value: T, idMap: Map<string, string>): T => {
+  if (typeof value === 'string') {
+    return value.replace(/\bE-\d+\b/g, id => idMap.get(id) ?? id) as T;
+  }
+  if (Array.isArray(value)) return value.map(item => rewriteEvidenceIds(item, idMap)) as T;
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rewriteEvidenceIds(item, idMap)])) as T;
+  }
+  return value;
+};
+
+// Applies `map` to the text fields in which findings cite evidence IDs.
+// Metadata such as file names is left alone, so a document named "E-5" is
+// neither taken for a citation nor renumbered.
+const mapCitingText = (result: AnalysisResult, map: (text: string) => string): AnalysisResult => ({
+  ...result,
+  caseNarrative: map(result.caseNarrative),
+  timeline: result.timeline.map(item => ({ ...item, event: map(item.event), evidenceReference: map(item.evidenceReference) })),
+  evidenceSpotlight: result.evidenceSpotlight.map(item => ({ ...item, significance: map(item.significance), evidenceReference: map(item.evidenceReference) })),
+  criticalLegalSubjects: result.criticalLegalSubjects.map(item => ({ ...item, keyPoints: item.keyPoints.map(map), evidence: map(item.evidence) })),
+  dishonestyDetectionMatrix: result.dishonestyDetectionMatrix.map(item => ({ ...item, description: map(item.description), evidence: map(item.evidence) })),
+  contradictions: result.contradictions.map(item => ({ ...item, explanation: map(item.explanation) })),
+  actionableOutput: {
+    ...result.actionableOutput,
+    recommendedActions: result.actionableOutput.recommendedActions.map(item => ({ ...item, action: map(item.action) })),
+    summary: map(result.actionableOutput.summary),
+  },
+});
+
+// Removes the given evidence IDs along with the separator or brackets left
+// around them, so "(E-03, E-09)" becomes "(E-03)" and "(E-09)" disappears.
+const dropEvidenceIds = (text: string, ids: Set<string>): string => {
+  let dropped = false;
+  const remaining = text.replace(/(\s*[,;]\s*)?\bE-\d+\b/g, (match, separator?: string) => {
+    if (!ids.has(match.slice(separator?.length ?? 0))) return match;
+    dropped = true;
+    return '';
+  });
+  if (!dropped) return text;
+  return remaining
+    .replace(/\(\s*[,;]\s*/g, '(')
+    .replace(/\s*\(\s*\)/g, '')
+    .replace(/^\s*[,;]\s*/, '')
+    .replace(/ {2,}/g, ' ');
+};
+
+// Appends `items` to `merged`, folding each into an existing entry when `same` matches.
+const mergeInto = <T,>(merged: T[], items: T[], same: (a: T, b: T) => boolean, combine: (a: T, b: T) => T) => {
+  items.forEach(item => {
+    const index = merged.findIndex(existing => same(existing, item));
+    if (index === -1) merged.push(item);
+    else merged[index] = combine(merged[index], item);
+  });
+};
+
+const mergeChunkResults = (
+  parts: { label: string; result: AnalysisResult }[],
+  documents: CaseDocument[],
+  caseName: string
+): AnalysisResult => {
+  const evidenceIndex: EvidenceIndexItem[] = [];
+  const evidenceKeys = new Map<string, string>();
+  const corrections: AnalysisCorrection[] = [];
+
+  // Renumber each chunk's evidence IDs into one sequence. An entry citing the
+  // same document page with the same description is kept once.
+  const renumbered = parts.map(({ label, result }) => {
+    const idMap = new Map<string, string>();
+    result.evidenceIndex.forEach(item => {
+      const description = normalize(item.description);
+      const key = `${item.documentId}|${item.pageNumber}|${description}`;
+      let id = description === '' ? undefined : evidenceKeys.get(key);
+      if (!id) {
+        id = `E-${String(evidenceIndex.length + 1).padStart(2, '0')}`;
+        evidenceKeys.set(key, id);
+        evidenceIndex.push({ ...item, id });
+      }
+      idMap.set(item.id, id);
+    });
+    // IDs a chunk cites but never indexed would otherwise point at another chunk's evidence.
+    const unknownIds = new Set<string>();
+    mapCitingText(result, text => {
+      (text.match(/\bE-\d+\b/g) ?? []).filter(id => !idMap.has(id)).forEach(id => unknownIds.add(id));
+      return text;
+    });
+    unknownIds.forEach(id => {
+      corrections.push({ section: 'evidenceIndex', path: label, message: `[${label}] Cited ${id}, which is not in that part's evidence index; the reference was removed.` });
+    });
+    corrections.push(...result.corrections.map(c => ({ ...c, message: `[${label}] ${c.message}` })));
+    const cited = mapCitingText(result, text => rewriteEvidenceIds(dropEvidenceIds(text, unknownIds), idMap));
+    return { label, result: { ...cited, evidenceIndex: [] } };
+  });
+
+  const legalSubjects: LegalSubjectFinding[] = [];
+  const dishonesty: DishonestyFinding[] = [];
+  const liabilities: TopLiability[] = [];
+  const contradictions: ContradictionFinding[] = [];
+  const timeline: TimelineEvent[] = [];
+  const spotlight: AnalysisResult['evidenceSpotlight'] = [];
+  const actions: RecommendedAction[] = [];
+
+  renumbered.forEach(({ result }) => {
+    mergeInto(legalSubjects, result.criticalLegalSubjects, (a, b) => findingNamesMatch(a.subject, b.subject), (a, b) => ({
+      ...a,
+      keyPoints: union(a.keyPoints, b.keyPoints),
+      evidence: joinDistinct([a.evidence, b.evidence], '\n'),
+      severity: higherSeverity(a.severity, b.severity),
+      documentIds: union(a.documentIds, b.documentIds).sort(),
+    }));
+    mergeInto(dishonesty, result.dishonestyDetectionMatrix, (a, b) => findingNamesMatch(a.flag, b.flag), (a, b) => ({
+      ...a,
+      evidence: joinDistinct([a.evidence, b.evidence], '\n'),
+      severity: higherSeverity(a.severity, b.severity),
+      documentIds: union(a.documentIds, b.documentIds).sort(),
+    }));
+    mergeInto(liabilities, result.actionableOutput.topLiabilities, (a, b) => findingNamesMatch(a.name, b.name), (a, b) => ({
+      ...a,
+      severity: higherSeverity(a.severity, b.severity),
+    }));
+    mergeInto(contradictions, result.contradictions,
+      (a, b) => sameText(a.claimA, b.claimA) && sameText(a.claimB, b.claimB),
+      (a, b) => ({ ...a, severity: higherSeverity(a.severity, b.severity) }));
+    mergeInto(timeline, result.timeline, (a, b) => a.date === b.date && sameText(a.event, b.event), a => a);
+    mergeInto(spotlight, result.evidenceSpotlight,
+      (a, b) => a.documentId === b.documentId && a.pageNumber === b.pageNumber && sameText(a.title, b.title), a => a);
+    mergeInto(actions, result.actionableOutput.recommendedActions, (a, b) => sameText(a.action, b.action), a => a);
+  });
+
+  const results = renumbered.map(p => p.result);
+  const caseHashes = hashCaseManifest(documents);
+  const labelled = (text: (r: AnalysisResult) => string) => renumbered.map(({ label, result }) => `[${label}]\n${text(result)}`).join('\n\n');
+
+  return {
+    documentHash: caseHashes.sha512,
+    hashAlgorithm: PRIMARY_HASH_ALGORITHM,
+    documentHashSha256: caseHashes.sha256,
+    fileName: caseName,
+    documents,
+    caseNarrative: labelled(r => r.caseNarrative),
+    timeline: timeline.sort((a, b) => a.date.localeCompare(b.date)),
+    evidenceSpotlight: spotlight,
+    preAnalysisChecks: {
+      extractionProtocol: results.every(r => r.preAnalysisChecks.extractionProtocol),
+      preservationFlags: results.every(r => r.preAnalysisChecks.preservationFlags),
+      scope: results.every(r => r.preAnalysisChecks.scope),
+    },
+    criticalLegalSubjects: legalSubjects,
+    dishonestyDetectionMatrix: dishonesty,
+    contradictions,
+    evidenceIndex,
+    actionableOutput: {
+      topLiabilities: liabilities,
+      // A pattern of dishonesty in any part of the bundle counts for the whole case.
+      dishonestyScore: Math.max(...results.map(r => r.actionableOutput.dishonestyScore)),
+      recommendedActions: actions,
+      summary: labelled(r => r.actionableOutput.summary),
+    },
+    postAnalysisDeclaration: {
+      extractionComplete: results.every(r => r.postAnalysisDeclaration.extractionComplete),
+      integritySealsVerified: results.every(r => r.postAnalysisDeclaration.integritySealsVerified),
+      logs: joinDistinct(results.map(r => r.postAnalysisDeclaration.logs), ', '),
+      seal: results[0].postAnalysisDeclaration.seal,
+    },
+    corrections,
+    citationChecks: [],
+    ...(results[0].jurisdiction ? { jurisdiction: results[0].jurisdiction } : {}),
+    analyzedAt: results.map(r => r.analyzedAt).sort().at(-1) as string,
+    models: [...new Set(results.flatMap(r => r.models))],
+  };
+};
+
+// Analyses a case, splitting it into several requests when any document was
+// chunked. Cases that fit in one request go through analyzeDocument unchanged.
+// Partial results are only reported for single-request cases, since one
+// part's sections would misrepresent the whole case.
+export const analyzeCase = async (
+  evidence: EvidencePayload[],
+  caseName: string,
+  jurisdiction: CaseJurisdiction | null,
+  language: string,
+  provider: AnalysisProvider,
+  options: AnalysisRunOptions = {}
+): Promise<AnalysisResult> => {
+  const jobs = planJobs(evidence);
+  if (jobs.length === 1 && jobs[0].evidence.every(isWholeDocument)) {
+    return analyzeDocument(evidence, caseName, jurisdiction, language, provider, options);
+  }
+
+  const { signal, onProgress } = options;
+  const parts: { label: string; result: AnalysisResult }[] = [];
+  for (const [index, job] of jobs.entries()) {
+    const partProgress = onProgress && ((progress: AnalysisProgress) =>
+      onProgress({ ...progress, message: `Part ${index + 1} of ${jobs.length} (${job.label}): ${progress.message}` }));
+    parts.push({ label: job.label, result: await analyzeDocument(job.evidence, caseName, jurisdiction, language, provider, { signal, onProgress: partProgress }) });
+  }
+
+  onProgress?.({ stage: 'validating', message: `Merging ${jobs.length} partial analyses...` });
+  const documents = [...new Map(evidence.map(e => [e.document.documentId, e.document])).values()];
+  return mergeChunkResults(parts, documents, caseName);
+};
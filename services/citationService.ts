@@ -0,0 +1,199 @@
+
+import type { AnalysisResult, CitationCheck, CitationStatus, EvidenceSource } from '../types.ts';
+import type { CasePageTexts } from './textExtractionService.ts';
+
+// --- Citation verification ---
+// Every citation in a result is checked against the locally extracted page
+// texts: the cited page must exist, quoted text must appear on it, and any
+// evidence IDs must resolve to the evidence index.
+//   verified      the page exists and every quote was found on it verbatim
+//   approximate   the page exists but a quote only loosely matches, or was
+//                 found on a different page
+//   unverifiable  the page or evidence ID does not exist, a quote cannot be
+//                 found at all, or the document's text could not be extracted
+
+// Quotes shorter than this are too generic to prove anything.
+const MIN_QUOTE_LENGTH = 12;
+// Share of a quote's significant words that must appear on the page for a loose match.
+const APPROXIMATE_COVERAGE = 0.6;
+
+const QUOTE_PATTERN = /["“”]([^"“”]+)["“”]|‘([^‘’]+)’/g;
+const PAGE_PATTERN = /\bPages?\s+(\d+)/gi;
+const EVIDENCE_ID_PATTERN = /\bE-\d+\b/g;
+
+// Evidence and quotes may be in any language, so letters and digits of every
+// script are kept.
+const normalize = (text: string): string => {
+  return text.toLowerCase().replace(/[’‘]/g, "'").replace(/[^\p{L}\p{N}']+/gu, ' ').trim();
+};
+
+const significantWords = (text: string): string[] => normalize(text).split(' ').filter(w => w.length > 3);
+
+type QuoteMatch = 'exact' | 'loose' | 'none';
+
+const matchQuote = (quote: string, pageText: string): QuoteMatch => {
+  const normalizedQuote = normalize(quote);
+  // A quote of punctuation alone would be "found" on every page.
+  if (normalizedQuote === '') return 'none';
+  const normalizedPage = normalize(pageText);
+  if (normalizedPage.includes(normalizedQuote)) return 'exact';
+  const words = significantWords(quote);
+  if (words.length === 0) return 'none';
+  const pageWords = new Set(normalizedPage.split(' '));
+  const coverage = words.filter(w => pageWords.has(w)).length / words.length;
+  return coverage >= APPROXIMATE_COVERAGE ? 'loose' : 'none';
+};
+
+const extractQuotes = (text: string): string[] => {
+  return [...text.matchAll(QUOTE_PATTERN)]
+    .map(match => (match[1] ?? match[2]).trim())
+    .filter(quote => quote.length >= MIN_QUOTE_LENGTH);
+};
+
+interface CitationClaim {
+  target: string;
+  locations: EvidenceSource[];
+  quotes: string[];
+  evidenceIds: string[];
+}
+
+const worst = (statuses: CitationStatus[]): CitationStatus => {
+  if (statuses.includes('unverifiable')) return 'unverifiable';
+  if (statuses.includes('approximate')) return 'approximate';
+  return 'verified';
+};
+
+const truncate = (text: string) => (text.length > 60 ? `${text.slice(0, 57)}...` : text);
+
+const checkQuotes = (quotes: string[], citedPages: string[], otherPages: string[], statuses: CitationStatus[], problems: string[]) => {
+  quotes.forEach(quote => {
+    if (normalize(quote) === '') {
+      statuses.push('unverifiable');
+      problems.push(`"${truncate(quote)}" contains no words to check`);
+      return;
+    }
+    const onCitedPage = citedPages.map(page => matchQuote(quote, page));
+    if (onCitedPage.includes('exact')) {
+      statuses.push('verified');
+    } else if (onCitedPage.includes('loose')) {
+      statuses.push('approximate');
+      problems.push(`"${truncate(quote)}" only loosely matches the cited page`);
+    } else if (otherPages.some(page => matchQuote(quote, page) === 'exact')) {
+      statuses.push('approximate');
+      problems.push(`"${truncate(quote)}" appears on a different page`);
+    } else {
+      statuses.push('unverifiable');
+      problems.push(`"${truncate(quote)}" not found in the document`);
+    }
+  });
+};
+
+// A claim may list the same page in several candidate documents (free-text
+// findings citing more than one document); the page only has to exist in one.
+const checkClaim = (claim: CitationClaim, pageTexts: CasePageTexts, knownEvidenceIds: Set<string>): CitationCheck => {
+  const statuses: CitationStatus[] = [];
+  const problems: string[] = [];
+
+  const unknownIds = claim.evidenceIds.filter(id => !knownEvidenceIds.has(id));
+  if (unknownIds.length > 0) {
+    statuses.push('unverifiable');
+    problems.push(`${unknownIds.join(', ')} not in the evidence index`);
+  }
+
+  if (claim.locations.length === 0) {
+    if (claim.quotes.length === 0 && claim.evidenceIds.length === 0) {
+      return { target: claim.target, status: 'unverifiable', detail: 'No page or evidence ID is cited' };
+    }
+    if (claim.quotes.length > 0) {
+      statuses.push('approximate');
+      problems.push('No page is cited');
+      checkQuotes(claim.quotes, [], Object.values(pageTexts).flatMap(pages => pages ?? []), statuses, problems);
+    }
+  } else {
+    const readable = claim.locations.filter(loc => pageTexts[loc.documentId]);
+    if (readable.length === 0) {
+      return { target: claim.target, status: 'unverifiable', detail: ['Document text could not be extracted', ...problems].join('; ') };
+    }
+    const pagesOf = (loc: EvidenceSource) => pageTexts[loc.documentId] as string[];
+    const existing = readable.filter(loc => loc.pageNumber >= 1 && loc.pageNumber <= pagesOf(loc).length);
+    const missing = [...new Set(readable.map(loc => loc.pageNumber))].filter(page => !existing.some(loc => loc.pageNumber === page));
+    missing.forEach(page => {
+      const documentIds = [...new Set(readable.filter(loc => loc.pageNumber === page).map(loc => loc.documentId))];
+      statuses.push('unverifiable');
+      problems.push(documentIds.length === 1
+        ? `${documentIds[0]} has no page ${page} (${pageTexts[documentIds[0]]!.length} pages)`
+        : `None of ${documentIds.join(', ')} has a page ${page}`);
+    });
+    const otherPages = [...new Set(readable.map(loc => loc.documentId))].flatMap(id => pageTexts[id] as string[]);
+    checkQuotes(claim.quotes, existing.map(loc => pagesOf(loc)[loc.pageNumber - 1]), otherPages, statuses, problems);
+  }
+
+  const status = worst(statuses);
+  let detail = problems.join('; ');
+  if (!detail) {
+    if (claim.quotes.length > 0) detail = 'Page exists and quoted text found on it';
+    else if (claim.locations.length > 0) detail = 'Cited page exists';
+    else detail = 'Evidence IDs resolve to the evidence index';
+  }
+  return { target: claim.target, status, detail };
+};
+
+// Free-text evidence fields cite pages as "(Page N)"; those pages are assumed
+// to belong to the finding's documents, or to any case document if none are given.
+const locationsFromText = (text: string, documentIds: string[], pageTexts: CasePageTexts): EvidenceSource[] => {
+  const candidates = documentIds.length > 0 ? documentIds : Object.keys(pageTexts);
+  const pages = [...text.matchAll(PAGE_PATTERN)].map(match => Number(match[1]));
+  return pages.flatMap(pageNumber => candidates.map(documentId => ({ documentId, pageNumber })));
+};
+
+const evidenceIdsIn = (text: string): string[] => [...new Set(text.match(EVIDENCE_ID_PATTERN) ?? [])];
+
+export const verifyCitations = (result: AnalysisResult, pageTexts: CasePageTexts): CitationCheck[] => {
+  const knownEvidenceIds = new Set(result.evidenceIndex.map(item => item.id));
+  const checks: CitationCheck[] = [];
+  const check = (claim: CitationClaim) => checks.push(checkClaim(claim, pageTexts, knownEvidenceIds));
+
+  result.evidenceSpotlight.forEach((item, i) => check({
+    target: `evidenceSpotlight[${i}]`,
+    locations: [{ documentId: item.documentId, pageNumber: item.pageNumber }],
+    quotes: extractQuotes(`${item.title} ${item.significance}`),
+    evidenceIds: evidenceIdsIn(item.evidenceReference),
+  }));
+  result.evidenceIndex.forEach((item, i) => check({
+    target: `evidenceIndex[${i}]`,
+    locations: [{ documentId: item.documentId, pageNumber: item.pageNumber }],
+    quotes: extractQuotes(item.description),
+    evidenceIds: [],
+  }));
+  result.criticalLegalSubjects.forEach((item, i) => check({
+    target: `criticalLegalSubjects[${i}]`,
+    locations: locationsFromText(item.evidence, item.documentIds, pageTexts),
+    quotes: extractQuotes(item.evidence),
+    evidenceIds: evidenceIdsIn(item.evidence),
+  }));
+  result.dishonestyDetectionMatrix.forEach((item, i) => check({
+    target: `dishonestyDetectionMatrix[${i}]`,
+    locations: locationsFromText(item.evidence, item.documentIds, pageTexts),
+    quotes: extractQuotes(item.evidence),
+    evidenceIds: evidenceIdsIn(item.evidence),
+  }));
+  result.contradictions.forEach((item, i) => {
+    // Claims are quoted or closely paraphrased, so the claim itself is the quote.
+    check({ target: `contradictions[${i}].sourceA`, locations: [item.sourceA], quotes: [item.claimA], evidenceIds: [] });
+    check({ target: `contradictions[${i}].sourceB`, locations: [item.sourceB], quotes: [item.claimB], evidenceIds: [] });
+  });
+  result.timeline.forEach((item, i) => check({
+    target: `timeline[${i}]`,
+    locations: [item.source],
+    quotes: [],
+    evidenceIds: evidenceIdsIn(item.evidenceReference),
+  }));
+  result.actionableOutput.recommendedActions.forEach((item, i) => {
+    const evidenceIds = evidenceIdsIn(item.action);
+    if (evidenceIds.length > 0) {
+      check({ target: `actionableOutput.recommendedActions[${i}]`, locations: [], quotes: [], evidenceIds });
+    }
+  });
+
+  return checks;
+};
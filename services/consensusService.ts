@@ -0,0 +1,213 @@
+
+import type {
+  AnalysisResult,
+  AnalysisSettings,
+  CaseJurisdiction,
+  ConsensusAgreement,
+  ConsensusCategory,
+  ConsensusItem,
+  ConsensusReport,
+  EvidenceIndexItem,
+  EvidencePayload,
+} from '../types.ts';
+import { describeModel } from './analysisProvider.ts';
+import type { AnalysisProvider } from './analysisProvider.ts';
+import { createAnalysisProvider } from './analysisService.ts';
+import type { AnalysisRunOptions } from './analysisService.ts';
+import { analyzeCase, rewriteEvidenceIds } from './chunkingService.ts';
+import { FINDING_SIMILARITY_THRESHOLD, findingSimilarity, tokenizeFinding } from './findingMatcher.ts';
+
+// --- Triple-AI consensus ---
+// Runs the same evidence through several independent providers, aligns their
+// findings by name, and keeps only the findings a majority of models agree on.
+// The narrative, timeline and evidence index come from the first model that
+// responded (the primary); the full per-model breakdown is kept in `consensus`.
+// Agreement is counted against every configured model, so a model that fails
+// to respond counts as not agreeing.
+
+const SEVERITY_RANK: Record<string, number> = { Low: 0, Medium: 1, High: 2, Critical: 3 };
+
+export const createConsensusProviders = (settings: AnalysisSettings): AnalysisProvider[] => {
+  return settings.consensusMembers.map(member => createAnalysisProvider({
+    ...settings,
+    providerId: member.providerId,
+    geminiModel: member.model,
+    localModel: member.model,
+  }));
+};
+
+interface AlignedGroup<T> {
+  finding: string;
+  tokens: Set<string>;
+  entries: { model: string; item: T }[];
+}
+
+// Greedily clusters findings across models. A model contributes at most one
+// finding to each group so a single verbose model cannot fake agreement.
+const alignFindings = <T,>(
+  perModel: { model: string; items: T[] }[],
+  nameOf: (item: T) => string
+): AlignedGroup<T>[] => {
+  const groups: AlignedGroup<T>[] = [];
+  perModel.forEach(({ model, items }) => {
+    items.forEach(item => {
+      const tokens = tokenizeFinding(nameOf(item));
+      const match = groups.find(g =>
+        !g.entries.some(e => e.model === model) && findingSimilarity(g.tokens, tokens) >= FINDING_SIMILARITY_THRESHOLD
+      );
+      if (match) {
+        match.entries.push({ model, item });
+      } else {
+        groups.push({ finding: nameOf(item), tokens, entries: [{ model, item }] });
+      }
+    });
+  });
+  return groups;
+};
+
+const agreementFor = (count: number, modelCount: number): ConsensusAgreement => {
+  if (count === modelCount) return 'all';
+  if (count > modelCount / 2) return 'majority';
+  return 'single';
+};
+
+// The most frequently assigned severity; ties resolve to the more severe one.
+const consensusSeverity = <S extends string>(severities: S[]): S => {
+  const counts = new Map<S, number>();
+  severities.forEach(s => counts.set(s, (counts.get(s) ?? 0) + 1));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || SEVERITY_RANK[b[0]] - SEVERITY_RANK[a[0]])[0][0];
+};
+
+// Maps another model's evidence IDs onto the primary model's index by the
+// document page they cite, preferring the closest description. IDs with no
+// counterpart become a plain page reference rather than a dangling E-ID.
+const evidenceIdMap = (from: EvidenceIndexItem[], to: EvidenceIndexItem[]): Map<string, string> => {
+  const map = new Map<string, string>();
+  from.forEach(item => {
+    const tokens = tokenizeFinding(item.description);
+    const counterpart = to
+      .filter(t => t.documentId === item.documentId && t.pageNumber === item.pageNumber)
+      .sort((a, b) => findingSimilarity(tokenizeFinding(b.description), tokens) - findingSimilarity(tokenizeFinding(a.description), tokens))[0];
+    map.set(item.id, counterpart ? counterpart.id : `${item.documentId} p.${item.pageNumber}`);
+  });
+  return map;
+};
+
+const median = (values: number[]): number => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : Math.round((sorted[mid - 1] + sorted[mid]) / 2);
+};
+
+const toConsensusItems = <T extends { severity: string }>(
+  category: ConsensusCategory,
+  groups: AlignedGroup<T>[],
+  modelCount: number
+): ConsensusItem[] => {
+  return groups.map(group => ({
+    category,
+    finding: group.finding,
+    agreement: agreementFor(group.entries.length, modelCount),
+    models: group.entries.map(e => e.model),
+    severities: group.entries.map(e => e.item.severity),
+  }));
+};
+
+// Display names must be unique so the delta view can tell two runs of the
+// same provider apart.
+const modelNames = (providers: AnalysisProvider[]): string[] => {
+  const seen = new Map<string, number>();
+  return providers.map(provider => {
+    const base = describeModel(provider);
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count > 1 ? `${base} #${count}` : base;
+  });
+};
+
+export const analyzeWithConsensus = async (
+  evidence: EvidencePayload[],
+  caseName: string,
+  jurisdiction: CaseJurisdiction | null,
+  language: string,
+  providers: AnalysisProvider[],
+  { signal, onProgress }: AnalysisRunOptions = {}
+): Promise<AnalysisResult> => {
+  const names = modelNames(providers);
+  // Partial results are not passed on: no single model's sections are the consensus.
+  const settled = await Promise.allSettled(
+    providers.map((provider, i) => analyzeCase(evidence, caseName, jurisdiction, language, provider, {
+      signal,
+      onProgress: onProgress && (progress => onProgress({ ...progress, message: `[${names[i]}] ${progress.message}` })),
+    }))
+  );
+  signal?.throwIfAborted();
+
+  const responses: { model: string; result: AnalysisResult }[] = [];
+  settled.forEach((outcome, i) => {
+    if (outcome.status === 'fulfilled') {
+      responses.push({ model: names[i], result: outcome.value });
+    } else {
+      console.error(`Consensus member '${names[i]}' failed:`, outcome.reason);
+    }
+  });
+
+  if (responses.length < 2) {
+    throw new Error(`Consensus analysis needs at least two models to respond, but only ${responses.length} of ${providers.length} did.`);
+  }
+
+  const modelCount = providers.length;
+  const isAgreed = (group: AlignedGroup<unknown>) => agreementFor(group.entries.length, modelCount) !== 'single';
+
+  const legalGroups = alignFindings(responses.map(r => ({ model: r.model, items: r.result.criticalLegalSubjects })), s => s.subject);
+  const dishonestyGroups = alignFindings(responses.map(r => ({ model: r.model, items: r.result.dishonestyDetectionMatrix })), d => d.flag);
+  const liabilityGroups = alignFindings(responses.map(r => ({ model: r.model, items: r.result.actionableOutput.topLiabilities })), l => l.name);
+
+  const scores = responses.map(r => ({ model: r.model, dishonestyScore: r.result.actionableOutput.dishonestyScore }));
+
+  const consensus: ConsensusReport = {
+    models: names,
+    items: [
+      ...toConsensusItems('legalSubject', legalGroups, modelCount),
+      ...toConsensusItems('dishonestyFlag', dishonestyGroups, modelCount),
+      ...toConsensusItems('liability', liabilityGroups, modelCount),
+    ],
+    scores,
+  };
+
+  const mergeDocumentIds = (items: { documentIds: string[] }[]) => [...new Set(items.flatMap(i => i.documentIds))].sort();
+  const primary = responses[0].result;
+  const idMaps = new Map(responses.slice(1).map(r => [r.model, evidenceIdMap(r.result.evidenceIndex, primary.evidenceIndex)]));
+  // A merged finding takes the primary model's wording when it has one, since
+  // only the primary model's evidence IDs exist in the merged evidence index.
+  const leadItem = <T,>(group: AlignedGroup<T>): T => {
+    const lead = group.entries.find(e => e.model === responses[0].model) ?? group.entries[0];
+    const idMap = idMaps.get(lead.model);
+    return idMap ? rewriteEvidenceIds(lead.item, idMap) : lead.item;
+  };
+
+  return {
+    ...primary,
+    criticalLegalSubjects: legalGroups.filter(isAgreed).map(group => ({
+      ...leadItem(group),
+      severity: consensusSeverity(group.entries.map(e => e.item.severity)),
+      documentIds: mergeDocumentIds(group.entries.map(e => e.item)),
+    })),
+    dishonestyDetectionMatrix: dishonestyGroups.filter(isAgreed).map(group => ({
+      ...leadItem(group),
+      severity: consensusSeverity(group.entries.map(e => e.item.severity)),
+      documentIds: mergeDocumentIds(group.entries.map(e => e.item)),
+    })),
+    actionableOutput: {
+      ...primary.actionableOutput,
+      topLiabilities: liabilityGroups.filter(isAgreed).map(group => ({
+        ...leadItem(group),
+        severity: consensusSeverity(group.entries.map(e => e.item.severity)),
+      })),
+      dishonestyScore: median(scores.map(s => s.dishonestyScore)),
+    },
+    corrections: responses.flatMap(r => r.result.corrections.map(c => ({ ...c, message: `[${r.model}] ${c.message}` }))),
+    consensus,
+    models: responses.map(r => r.model),
+  };
+};
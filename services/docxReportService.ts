@@ -0,0 +1,100 @@
+
+import {
+  AlignmentType,
+  BorderStyle,
+  Document,
+  HeadingLevel,
+  Packer,
+  Paragraph,
+  ShadingType,
+  Table,
+  TableCell,
+  TableRow,
+  TextRun,
+  WidthType,
+} from 'docx';
+import type { ReportBlock, ReportOutline } from './reportContent.ts';
+
+// --- DOCX report ---
+// An editable Word version of the report. Sections use real headings and
+// tables so they can be pasted into briefs and restyled there.
+
+const BODY_FONT = 'Courier New';
+const BODY_SIZE = 18; // half-points
+const TABLE_SIZE = 16;
+
+// Splits text on '\n' into runs separated by line breaks.
+const textRuns = (text: string, options: { bold?: boolean; size?: number; color?: string } = {}): TextRun[] => {
+  return text.split('\n').map((line, i) => new TextRun({ text: line, break: i > 0 ? 1 : undefined, font: BODY_FONT, size: BODY_SIZE, ...options }));
+};
+
+const paragraph = (text: string, options: { bold?: boolean; size?: number; indent?: number } = {}) => new Paragraph({
+  children: textRuns(text, { bold: options.bold, size: options.size }),
+  indent: options.indent ? { left: options.indent } : undefined,
+  spacing: { after: 120 },
+});
+
+const tableCell = (text: string, isHeader: boolean, isShaded: boolean) => new TableCell({
+  children: [new Paragraph({ children: textRuns(text, { size: TABLE_SIZE, bold: isHeader, color: isHeader ? 'FFFFFF' : undefined }) })],
+  shading: isHeader
+    ? { type: ShadingType.CLEAR, color: 'auto', fill: '323232' }
+    : isShaded ? { type: ShadingType.CLEAR, color: 'auto', fill: 'F5F5F5' } : undefined,
+  margins: { top: 60, bottom: 60, left: 80, right: 80 },
+});
+
+const renderBlock = (block: ReportBlock): (Paragraph | Table)[] => {
+  switch (block.kind) {
+    case 'paragraph':
+      return [paragraph(block.text, { bold: block.bold })];
+    case 'list':
+      return block.items.map(item => paragraph(item, { size: 16, indent: 360 }));
+    case 'table':
+      return [
+        new Table({
+          width: { size: 100, type: WidthType.PERCENTAGE },
+          rows: [
+            new TableRow({ tableHeader: true, children: block.head.map(cell => tableCell(cell, true, false)) }),
+            ...block.rows.map((row, i) => new TableRow({ children: row.map(cell => tableCell(cell, false, i % 2 === 1)) })),
+          ],
+        }),
+        new Paragraph({ text: '' }),
+      ];
+    case 'callout':
+      return [
+        new Paragraph({
+          children: [...textRuns(block.title, { bold: true, size: 20 }), ...textRuns(`\n${block.text}`)],
+          shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'FFFAE6' },
+          spacing: { before: 120, after: 120 },
+        }),
+      ];
+    case 'seal':
+      return block.lines.map((line, i) => new Paragraph({
+        children: textRuns(line, { bold: i === 0, size: 16 }),
+        border: i === 0 ? { top: { style: BorderStyle.SINGLE, size: 6, color: '999999', space: 6 } } : undefined,
+        spacing: { before: i === 0 ? 240 : 0, after: 80 },
+      }));
+  }
+};
+
+export const buildDocxReport = (outline: ReportOutline): Promise<Blob> => {
+  const document = new Document({
+    title: outline.subtitle,
+    creator: 'Verum Omnis',
+    sections: [{
+      children: [
+        new Paragraph({ heading: HeadingLevel.TITLE, alignment: AlignmentType.CENTER, children: [new TextRun({ text: outline.title, bold: true, font: BODY_FONT, size: 32 })] }),
+        new Paragraph({ alignment: AlignmentType.CENTER, spacing: { after: 360 }, children: [new TextRun({ text: outline.subtitle, font: BODY_FONT, size: BODY_SIZE, color: '646464' })] }),
+        ...outline.sections.flatMap(section => [
+          new Paragraph({
+            heading: HeadingLevel.HEADING_1,
+            shading: { type: ShadingType.CLEAR, color: 'auto', fill: 'E6E6FA' },
+            spacing: { before: 360, after: 160 },
+            children: [new TextRun({ text: section.title.toUpperCase(), bold: true, font: BODY_FONT, size: 24, color: '323232' })],
+          }),
+          ...section.blocks.flatMap(renderBlock),
+        ]),
+      ],
+    }],
+  });
+  return Packer.toBlob(document);
+};
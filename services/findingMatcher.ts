@@ -0,0 +1,30 @@
+
+// --- Finding name matching ---
+// Models phrase the same finding differently ("Breach of Contract" vs
+// "Contractual Breach"), so findings are compared by their significant words.
+// Findings are written in the user's language, so words are letters and
+// digits of any script.
+
+// Two findings are treated as the same when their names share at least this
+// proportion of significant words (Jaccard similarity).
+export const FINDING_SIMILARITY_THRESHOLD = 0.5;
+
+const STOP_WORDS = new Set(['the', 'and', 'for', 'with', 'from', 'that', 'this', 'into', 'under', 'of', 'in', 'on', 'by', 'to', 'a', 'an', 'or']);
+
+export const tokenizeFinding = (text: string): Set<string> => {
+  return new Set(
+    text.toLowerCase().replace(/[^\p{L}\p{N}\s]/gu, ' ').split(/\s+/).filter(t => t.length > 1 && !STOP_WORDS.has(t))
+  );
+};
+
+// Names with no significant words match nothing, not even each other.
+export const findingSimilarity = (a: Set<string>, b: Set<string>): number => {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach(token => { if (b.has(token)) shared++; });
+  return shared / (a.size + b.size - shared);
+};
+
+export const findingNamesMatch = (a: string, b: string): boolean => {
+  return findingSimilarity(tokenizeFinding(a), tokenizeFinding(b)) >= FINDING_SIMILARITY_THRESHOLD;
+};
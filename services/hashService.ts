@@ -0,0 +1,77 @@
+
+import { sha256, sha512 } from '@noble/hashes/sha2.js';
+import { bytesToHex } from '@noble/hashes/utils.js';
+import type { AnalysisResult, CaseDocument, EvidenceVerification } from '../types.ts';
+
+// WebCrypto's digest() only accepts a complete buffer, so evidence files are
+// streamed through incremental hashers instead to keep memory use flat.
+const HASH_CHUNK_SIZE = 4 * 1024 * 1024; // 4 MiB
+
+export const PRIMARY_HASH_ALGORITHM = 'SHA-512';
+
+export interface DocumentHashes {
+  sha512: string;
+  sha256: string;
+}
+
+export const hashFile = async (
+  file: Blob,
+  onProgress?: (processedBytes: number, totalBytes: number) => void
+): Promise<DocumentHashes> => {
+  const sha512Hasher = sha512.create();
+  const sha256Hasher = sha256.create();
+
+  for (let offset = 0; offset < file.size; offset += HASH_CHUNK_SIZE) {
+    const chunk = new Uint8Array(await file.slice(offset, offset + HASH_CHUNK_SIZE).arrayBuffer());
+    sha512Hasher.update(chunk);
+    sha256Hasher.update(chunk);
+    onProgress?.(Math.min(offset + HASH_CHUNK_SIZE, file.size), file.size);
+  }
+
+  return {
+    sha512: bytesToHex(sha512Hasher.digest()),
+    sha256: bytesToHex(sha256Hasher.digest()),
+  };
+};
+
+// A case covering several documents is sealed with a hash over its manifest
+// (one "documentId:sha512" line per document), so that adding, removing or
+// swapping any evidence file changes the case hash. Single-document cases
+// keep the document's own hash.
+export const hashCaseManifest = (documents: CaseDocument[]): DocumentHashes => {
+  if (documents.length === 1) {
+    return { sha512: documents[0].documentHash, sha256: documents[0].documentHashSha256 };
+  }
+  const manifest = documents.map(d => `${d.documentId}:${d.documentHash}`).join('\n');
+  const bytes = new TextEncoder().encode(manifest);
+  return {
+    sha512: bytesToHex(sha512(bytes)),
+    sha256: bytesToHex(sha256(bytes)),
+  };
+};
+
+// Recomputes the hash of a candidate evidence file and compares it with the
+// hashes recorded in a loaded report. Reports predating multi-document cases
+// carry no document list, so the top-level hash stands in for their one file.
+export const verifyEvidenceFile = async (
+  file: File,
+  result: AnalysisResult,
+  onProgress?: (processedBytes: number, totalBytes: number) => void
+): Promise<EvidenceVerification> => {
+  const hashes = await hashFile(file, onProgress);
+  const candidates = result.documents.length > 0
+    ? result.documents
+    : [{ documentId: '', documentHash: result.documentHash, documentHashSha256: result.documentHashSha256 }];
+  const matched = candidates.find(d =>
+    hashes.sha512 === d.documentHash.toLowerCase() &&
+    (!d.documentHashSha256 || hashes.sha256 === d.documentHashSha256.toLowerCase())
+  );
+
+  return {
+    status: matched ? 'match' : 'mismatch',
+    documentId: matched?.documentId || undefined,
+    fileName: file.name,
+    computedHash: hashes.sha512,
+    hashAlgorithm: PRIMARY_HASH_ALGORITHM,
+  };
+};
@@ -0,0 +1,79 @@
+
+import type { ReportBlock, ReportOutline } from './reportContent.ts';
+
+// --- Standalone HTML report ---
+// A single self-contained file: styles are inlined and nothing is loaded from
+// the network, so the report opens the same way on any machine or offline.
+
+const escapeHtml = (text: string): string => text
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+const STYLES = `
+body { font-family: 'Source Code Pro', 'Courier New', monospace; color: #222; max-width: 960px; margin: 2rem auto; padding: 0 1rem; font-size: 14px; line-height: 1.5; }
+header { text-align: center; border-bottom: 1px solid #ccc; padding-bottom: 1rem; margin-bottom: 2rem; }
+h1 { font-size: 1.5rem; margin: 0 0 0.25rem; }
+header p { color: #666; margin: 0; font-size: 0.85rem; }
+h2 { background: #e6e6fa; color: #333; font-size: 1rem; text-transform: uppercase; padding: 0.5rem 0.75rem; margin-top: 2rem; }
+p, td, li, .callout, .seal { white-space: pre-wrap; overflow-wrap: anywhere; }
+table { width: 100%; border-collapse: collapse; margin: 1rem 0; font-size: 0.8rem; }
+th { background: #323232; color: #fff; text-align: left; }
+th, td { border: 1px solid #ccc; padding: 0.4rem; vertical-align: top; }
+tbody tr:nth-child(even) { background: #f5f5f5; }
+ul { list-style: none; padding-left: 1rem; }
+.callout { background: #fffae6; padding: 0.75rem 1rem; margin: 0.75rem 0; }
+.callout strong { display: block; margin-bottom: 0.25rem; }
+.seal { border-top: 1px solid #999; margin-top: 1.5rem; padding-top: 0.75rem; font-size: 0.8rem; }
+.seal p { margin: 0.25rem 0; }
+.seal p:first-child { font-weight: bold; }
+@media print { h2 { break-after: avoid; } tr, .callout { break-inside: avoid; } }
+`;
+
+const renderBlock = (block: ReportBlock): string => {
+  switch (block.kind) {
+    case 'paragraph':
+      return block.bold ? `<p><strong>${escapeHtml(block.text)}</strong></p>` : `<p>${escapeHtml(block.text)}</p>`;
+    case 'list':
+      return `<ul>${block.items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+    case 'table': {
+      const head = block.head.map(cell => `<th>${escapeHtml(cell)}</th>`).join('');
+      const rows = block.rows.map(row => `<tr>${row.map(cell => `<td>${escapeHtml(cell)}</td>`).join('')}</tr>`).join('\n');
+      return `<table><thead><tr>${head}</tr></thead><tbody>\n${rows}\n</tbody></table>`;
+    }
+    case 'callout':
+      return `<div class="callout"><strong>${escapeHtml(block.title)}</strong>${escapeHtml(block.text)}</div>`;
+    case 'seal':
+      return `<div class="seal">${block.lines.map(line => `<p>${escapeHtml(line)}</p>`).join('')}</div>`;
+  }
+};
+
+export const buildHtmlReport = (outline: ReportOutline): Blob => {
+  const sections = outline.sections.map(section => [
+    `<section>`,
+    `<h2>${escapeHtml(section.title)}</h2>`,
+    ...section.blocks.map(renderBlock),
+    `</section>`,
+  ].join('\n')).join('\n\n');
+
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<title>${escapeHtml(outline.subtitle)}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+<header>
+<h1>${escapeHtml(outline.title)}</h1>
+<p>${escapeHtml(outline.subtitle)}</p>
+</header>
+${sections}
+</body>
+</html>
+`;
+  return new Blob([html], { type: 'text/html' });
+};
@@ -0,0 +1,70 @@
+
+import Ajv from 'ajv';
+import type { AnalysisResult, ReportExport } from '../types.ts';
+import { REPORT_SCHEMA_VERSION } from './reportSchema.ts';
+import reportJsonSchema from '../schemas/verum-report.schema.json';
+
+// --- JSON report export ---
+// A machine-readable alternative to .verum.bin for case management systems.
+// The file is a ReportExport validated against schemas/verum-report.schema.json,
+// which is generated from types.ts; regenerate it whenever those types change.
+
+export const JSON_REPORT_EXTENSION = '.verum.json';
+
+const ajv = new Ajv({ allErrors: true });
+const validateReportExport = ajv.compile<ReportExport>(reportJsonSchema);
+
+// Lists the first few schema violations, e.g. "/result/timeline/0: must have required property 'date'".
+const describeSchemaErrors = (): string => {
+  const errors = validateReportExport.errors ?? [];
+  const described = errors.slice(0, 5).map(error => `${error.instancePath || '/'}: ${error.message}`);
+  if (errors.length > described.length) described.push(`and ${errors.length - described.length} more`);
+  return described.join('; ');
+};
+
+export const buildReportExport = (result: AnalysisResult): ReportExport => ({
+  format: 'verum-omnis-report',
+  metadata: {
+    protocolVersion: REPORT_SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    analyzedAt: result.analyzedAt,
+    models: result.models,
+    caseHash: result.documentHash,
+    caseHashSha256: result.documentHashSha256,
+    hashAlgorithm: result.hashAlgorithm,
+    documentCount: result.documents.length,
+  },
+  result,
+});
+
+// Serializes a result as a .verum.json file, refusing to write anything the
+// schema would reject on import.
+export const encodeJsonReport = (result: AnalysisResult): string => {
+  // Optional fields left undefined are dropped, as JSON.stringify would.
+  const report = JSON.parse(JSON.stringify(buildReportExport(result)));
+  if (!validateReportExport(report)) {
+    console.error("JSON report failed schema validation:", validateReportExport.errors);
+    throw new Error(`The report does not match the JSON report schema: ${describeSchemaErrors()}`);
+  }
+  return JSON.stringify(report, null, 2);
+};
+
+export const decodeJsonReport = (text: string): AnalysisResult => {
+  let report: unknown;
+  try {
+    report = JSON.parse(text);
+  } catch (error: any) {
+    console.error("JSON report is not valid JSON:", error);
+    throw new Error('The file is not valid JSON.');
+  }
+
+  const metadata = (report as Partial<ReportExport> | null)?.metadata;
+  if (metadata && typeof metadata.protocolVersion === 'number' && metadata.protocolVersion > REPORT_SCHEMA_VERSION) {
+    throw new Error(`This report was created by a newer version of Verum Omnis (report format v${metadata.protocolVersion}; this app reads up to v${REPORT_SCHEMA_VERSION}). Update the app to open it.`);
+  }
+  if (!validateReportExport(report)) {
+    console.error("JSON report failed schema validation:", validateReportExport.errors);
+    throw new Error(`The file is not a valid Verum Omnis JSON report: ${describeSchemaErrors()}`);
+  }
+  return report.result;
+};
@@ -0,0 +1,259 @@
+
+import type { JurisdictionProfile } from '../types.ts';
+
+// --- Bundled jurisdiction profiles ---
+// Background the analysis is given for the jurisdiction the user picks, in
+// place of their location. Profiles are deliberately brief orientation, not
+// legal advice; limitation periods in particular have many exceptions.
+// Reference points are major cities used only to suggest a jurisdiction
+// from the device location (see jurisdictionService.ts).
+
+export const JURISDICTION_PROFILES: JurisdictionProfile[] = [
+  {
+    code: 'ZA',
+    name: 'South Africa',
+    legalSystem: 'Mixed: Roman-Dutch civil law and English common law, with customary law, under a supreme Constitution.',
+    keyStatutes: [
+      'Constitution of the Republic of South Africa, 1996',
+      'Prescription Act 68 of 1969',
+      'Criminal Procedure Act 51 of 1977',
+      'Prevention and Combating of Corrupt Activities Act 12 of 2004',
+      'Protection of Personal Information Act 4 of 2013',
+      'Companies Act 71 of 2008',
+      'Labour Relations Act 66 of 1995',
+    ],
+    courtHierarchy: ['Constitutional Court', 'Supreme Court of Appeal', 'High Court (provincial divisions)', "Magistrates' Courts (regional and district)"],
+    limitationBasics: 'Most debts prescribe after 3 years (Prescription Act s 11); judgment debts and mortgage-secured debts after 30 years. Claims against organs of state need written notice within 6 months (Act 40 of 2002).',
+    referencePoints: [[-26.2, 28.05], [-33.92, 18.42], [-29.86, 31.02], [-25.75, 28.19], [-33.96, 25.6], [-29.12, 26.21]],
+  },
+  {
+    code: 'US',
+    name: 'United States',
+    legalSystem: 'Common law, federal: federal law and the law of each state apply side by side.',
+    keyStatutes: [
+      'United States Constitution',
+      'Federal Rules of Civil Procedure',
+      '18 U.S.C. §§ 1341, 1343 (mail and wire fraud)',
+      '18 U.S.C. §§ 1961-1968 (RICO)',
+      'Sarbanes-Oxley Act of 2002',
+    ],
+    courtHierarchy: ['Supreme Court of the United States', 'U.S. Courts of Appeals', 'U.S. District Courts', 'State court systems'],
+    limitationBasics: 'Civil limitation periods are set by each state and vary by claim. Most federal crimes must be charged within 5 years (18 U.S.C. § 3282).',
+    referencePoints: [[41.88, -87.63], [39.95, -75.17], [38.9, -77.04], [33.75, -84.39], [42.36, -71.06], [47.61, -122.33], [39.74, -104.99], [33.45, -112.07], [42.33, -83.05], [44.98, -93.27], [36.17, -115.14], [45.52, -122.68], [39.1, -84.51], [35.15, -90.05], [29.95, -90.07], [61.22, -149.9], [21.31, -157.86]],
+    subdivisions: [
+      {
+        code: 'US-CA',
+        name: 'California',
+        legalSystem: 'Common law state within the U.S. federal system; codified in the California Codes.',
+        keyStatutes: ['California Code of Civil Procedure', 'California Civil Code', 'California Penal Code', 'California Consumer Privacy Act (Civ. Code § 1798.100 et seq.)'],
+        courtHierarchy: ['Supreme Court of California', 'Courts of Appeal', 'Superior Courts'],
+        limitationBasics: 'Written contract 4 years (CCP § 337); oral contract 2 years (§ 339); personal injury 2 years (§ 335.1); fraud 3 years from discovery (§ 338(d)).',
+        referencePoints: [[34.05, -118.24], [37.77, -122.42], [32.72, -117.16], [38.58, -121.49], [36.74, -119.79], [37.34, -121.89]],
+      },
+      {
+        code: 'US-NY',
+        name: 'New York',
+        legalSystem: 'Common law state within the U.S. federal system.',
+        keyStatutes: ['New York Civil Practice Law and Rules (CPLR)', 'New York Penal Law', 'New York General Business Law', 'New York General Obligations Law'],
+        courtHierarchy: ['New York Court of Appeals', 'Appellate Division of the Supreme Court', 'Supreme Court (general trial court)', 'County, city and district courts'],
+        limitationBasics: 'Contract 6 years (CPLR 213); fraud 6 years or 2 years from discovery, whichever is later (CPLR 213(8)); personal injury 3 years (CPLR 214).',
+        referencePoints: [[40.71, -74.01], [42.89, -78.88], [43.16, -77.61], [42.65, -73.76], [43.05, -76.15]],
+      },
+      {
+        code: 'US-TX',
+        name: 'Texas',
+        legalSystem: 'Common law state within the U.S. federal system, with civil law influence in property and family law.',
+        keyStatutes: ['Texas Civil Practice and Remedies Code', 'Texas Business and Commerce Code', 'Texas Penal Code', 'Texas Family Code'],
+        courtHierarchy: ['Supreme Court of Texas (civil) and Court of Criminal Appeals (criminal)', 'Courts of Appeals', 'District Courts', 'County and justice courts'],
+        limitationBasics: 'Debt, fraud and breach of fiduciary duty 4 years (CPRC § 16.004); personal injury 2 years (§ 16.003); residual 4 years (§ 16.051).',
+        referencePoints: [[29.76, -95.37], [32.78, -96.8], [30.27, -97.74], [29.42, -98.49], [31.76, -106.49], [32.75, -97.33]],
+      },
+      {
+        code: 'US-FL',
+        name: 'Florida',
+        legalSystem: 'Common law state within the U.S. federal system.',
+        keyStatutes: ['Florida Statutes ch. 95 (limitations)', 'Florida Deceptive and Unfair Trade Practices Act', 'Florida Statutes ch. 817 (fraudulent practices)', 'Florida Rules of Civil Procedure'],
+        courtHierarchy: ['Supreme Court of Florida', 'District Courts of Appeal', 'Circuit Courts', 'County Courts'],
+        limitationBasics: 'Written contract 5 years and oral contract 4 years (Fla. Stat. § 95.11); fraud 4 years; negligence 2 years for claims arising after 24 March 2023.',
+        referencePoints: [[25.76, -80.19], [28.54, -81.38], [27.95, -82.46], [30.33, -81.66], [30.44, -84.28]],
+      },
+    ],
+  },
+  {
+    code: 'GB',
+    name: 'United Kingdom',
+    legalSystem: 'Three legal systems: England and Wales and Northern Ireland follow common law; Scotland has a mixed civil and common law system.',
+    keyStatutes: ['Fraud Act 2006 (England, Wales and Northern Ireland)', 'Bribery Act 2010', 'Data Protection Act 2018 and UK GDPR', 'Companies Act 2006', 'Human Rights Act 1998'],
+    courtHierarchy: ['Supreme Court of the United Kingdom', 'Appellate courts of each legal system', 'Trial courts of each legal system'],
+    limitationBasics: 'Set separately for each legal system; choose England and Wales, Scotland or Northern Ireland.',
+    referencePoints: [],
+    subdivisions: [
+      {
+        code: 'GB-EAW',
+        name: 'England and Wales',
+        legalSystem: 'Common law.',
+        keyStatutes: ['Limitation Act 1980', 'Fraud Act 2006', 'Civil Procedure Rules 1998', 'Misrepresentation Act 1967', 'Proceeds of Crime Act 2002'],
+        courtHierarchy: ['Supreme Court of the United Kingdom', 'Court of Appeal', 'High Court (King\'s Bench, Chancery and Family Divisions)', 'County Court and Crown Court', "Magistrates' Courts"],
+        limitationBasics: 'Contract and tort 6 years (Limitation Act 1980 ss 2, 5); deeds 12 years (s 8); personal injury 3 years (s 11); fraud or deliberate concealment postpones the start of the period (s 32).',
+        referencePoints: [[51.51, -0.13], [52.49, -1.89], [53.48, -2.24], [53.8, -1.55], [53.41, -2.98], [51.45, -2.59], [54.98, -1.61], [51.48, -3.18], [53.38, -1.47], [50.72, -3.53]],
+      },
+      {
+        code: 'GB-SCT',
+        name: 'Scotland',
+        legalSystem: 'Mixed: civil law and common law.',
+        keyStatutes: ['Prescription and Limitation (Scotland) Act 1973', 'Criminal Justice and Licensing (Scotland) Act 2010', 'Bribery Act 2010', 'Requirements of Writing (Scotland) Act 1995'],
+        courtHierarchy: ['Supreme Court of the United Kingdom (civil appeals)', 'Court of Session (civil) and High Court of Justiciary (criminal)', 'Sheriff Appeal Court', 'Sheriff Courts', "Justice of the Peace Courts"],
+        limitationBasics: 'Most contractual and delictual obligations prescribe after 5 years (1973 Act s 6); the long negative prescription is 20 years; personal injury actions 3 years (s 17).',
+        referencePoints: [[55.95, -3.19], [55.86, -4.25], [57.15, -2.09], [56.46, -2.97], [57.48, -4.22]],
+      },
+      {
+        code: 'GB-NIR',
+        name: 'Northern Ireland',
+        legalSystem: 'Common law.',
+        keyStatutes: ['Limitation (Northern Ireland) Order 1989', 'Fraud Act 2006', 'Rules of the Court of Judicature (Northern Ireland)'],
+        courtHierarchy: ['Supreme Court of the United Kingdom', 'Court of Appeal in Northern Ireland', 'High Court of Justice in Northern Ireland', 'County Courts and Crown Court', "Magistrates' Courts"],
+        limitationBasics: 'Contract and tort 6 years; personal injury 3 years (Limitation (NI) Order 1989).',
+        referencePoints: [[54.6, -5.93], [54.997, -7.31], [54.35, -6.65]],
+      },
+    ],
+  },
+  {
+    code: 'IE',
+    name: 'Ireland',
+    legalSystem: 'Common law, under the Constitution of Ireland (Bunreacht na hÉireann).',
+    keyStatutes: ['Statute of Limitations 1957', 'Criminal Justice (Theft and Fraud Offences) Act 2001', 'Civil Liability and Courts Act 2004', 'Data Protection Act 2018', 'Companies Act 2014'],
+    courtHierarchy: ['Supreme Court', 'Court of Appeal', 'High Court', 'Circuit Court', 'District Court'],
+    limitationBasics: 'Contract and tort 6 years (Statute of Limitations 1957 s 11); personal injuries 2 years (Civil Liability and Courts Act 2004).',
+    referencePoints: [[53.35, -6.26], [51.9, -8.47], [53.27, -9.05], [52.66, -8.63], [52.26, -7.11]],
+  },
+  {
+    code: 'CA',
+    name: 'Canada',
+    legalSystem: 'Common law federation, except Quebec, whose private law is civil law.',
+    keyStatutes: ['Canadian Charter of Rights and Freedoms', 'Criminal Code, R.S.C. 1985, c. C-46 (fraud, s 380)', 'Personal Information Protection and Electronic Documents Act', 'Canada Business Corporations Act'],
+    courtHierarchy: ['Supreme Court of Canada', 'Federal Court of Appeal and provincial courts of appeal', 'Federal Court and provincial superior courts', 'Provincial courts'],
+    limitationBasics: 'Civil limitation periods are set by each province; Criminal Code indictable offences generally have no limitation period.',
+    referencePoints: [[51.05, -114.07], [53.55, -113.49], [49.9, -97.14], [50.45, -104.61], [52.13, -106.67], [44.65, -63.57], [47.56, -52.71], [45.96, -66.64]],
+    subdivisions: [
+      {
+        code: 'CA-ON',
+        name: 'Ontario',
+        legalSystem: 'Common law.',
+        keyStatutes: ['Limitations Act, 2002', 'Courts of Justice Act', 'Rules of Civil Procedure', 'Consumer Protection Act, 2002'],
+        courtHierarchy: ['Supreme Court of Canada', 'Court of Appeal for Ontario', 'Superior Court of Justice', 'Ontario Court of Justice'],
+        limitationBasics: 'Basic period 2 years from discovery of the claim (Limitations Act, 2002 s 4); ultimate period 15 years (s 15).',
+        referencePoints: [[43.65, -79.38], [45.42, -75.7], [43.26, -79.87], [42.98, -81.25], [42.31, -83.04], [46.49, -80.99]],
+      },
+      {
+        code: 'CA-BC',
+        name: 'British Columbia',
+        legalSystem: 'Common law.',
+        keyStatutes: ['Limitation Act, S.B.C. 2012, c. 13', 'Supreme Court Civil Rules', 'Business Practices and Consumer Protection Act'],
+        courtHierarchy: ['Supreme Court of Canada', 'Court of Appeal for British Columbia', 'Supreme Court of British Columbia', 'Provincial Court of British Columbia'],
+        limitationBasics: 'Basic period 2 years from discovery (Limitation Act s 6); ultimate period 15 years (s 21).',
+        referencePoints: [[49.28, -123.12], [48.43, -123.37], [49.89, -119.5], [53.92, -122.75]],
+      },
+      {
+        code: 'CA-QC',
+        name: 'Quebec',
+        legalSystem: 'Civil law for private law (Civil Code of Québec); federal public and criminal law as elsewhere in Canada.',
+        keyStatutes: ['Civil Code of Québec', 'Code of Civil Procedure', 'Act respecting the protection of personal information in the private sector'],
+        courtHierarchy: ['Supreme Court of Canada', 'Court of Appeal of Quebec', 'Superior Court of Quebec', 'Court of Québec'],
+        limitationBasics: 'Personal and movable real rights prescribe after 3 years (Civil Code art. 2925); immovable real rights after 10 years (art. 2923).',
+        referencePoints: [[45.5, -73.57], [46.81, -71.21], [45.4, -71.89], [48.43, -71.07]],
+      },
+    ],
+  },
+  {
+    code: 'AU',
+    name: 'Australia',
+    legalSystem: 'Common law federation: Commonwealth law and the law of each state and territory.',
+    keyStatutes: ['Competition and Consumer Act 2010 (Australian Consumer Law, Sch 2)', 'Corporations Act 2001', 'Criminal Code Act 1995 (Cth)', 'Privacy Act 1988'],
+    courtHierarchy: ['High Court of Australia', 'Federal Court of Australia and state Courts of Appeal', 'State and territory Supreme Courts', 'District/County and local courts'],
+    limitationBasics: 'Set by each state and territory; Australian Consumer Law claims generally 6 years.',
+    referencePoints: [[-27.47, 153.03], [-31.95, 115.86], [-34.93, 138.6], [-35.28, 149.13], [-42.88, 147.33], [-12.46, 130.84]],
+    subdivisions: [
+      {
+        code: 'AU-NSW',
+        name: 'New South Wales',
+        legalSystem: 'Common law.',
+        keyStatutes: ['Limitation Act 1969 (NSW)', 'Civil Liability Act 2002 (NSW)', 'Crimes Act 1900 (NSW)', 'Uniform Civil Procedure Rules 2005'],
+        courtHierarchy: ['High Court of Australia', 'NSW Court of Appeal / Court of Criminal Appeal', 'Supreme Court of NSW', 'District Court', 'Local Court'],
+        limitationBasics: 'Contract and tort 6 years (Limitation Act 1969 s 14); personal injury 3 years from discoverability, 12-year long-stop (s 50C).',
+        referencePoints: [[-33.87, 151.21], [-32.93, 151.78], [-34.42, 150.89]],
+      },
+      {
+        code: 'AU-VIC',
+        name: 'Victoria',
+        legalSystem: 'Common law.',
+        keyStatutes: ['Limitation of Actions Act 1958 (Vic)', 'Wrongs Act 1958 (Vic)', 'Crimes Act 1958 (Vic)', 'Civil Procedure Act 2010 (Vic)'],
+        courtHierarchy: ['High Court of Australia', 'Court of Appeal', 'Supreme Court of Victoria', 'County Court', "Magistrates' Court"],
+        limitationBasics: 'Contract and tort 6 years (Limitation of Actions Act 1958 s 5); personal injury 3 years from discoverability, 12-year long-stop (s 27D).',
+        referencePoints: [[-37.81, 144.96], [-38.15, 144.36], [-37.56, 143.85]],
+      },
+    ],
+  },
+  {
+    code: 'NZ',
+    name: 'New Zealand',
+    legalSystem: 'Common law, with Treaty of Waitangi principles in public law.',
+    keyStatutes: ['Limitation Act 2010', 'Crimes Act 1961', 'Fair Trading Act 1986', 'Privacy Act 2020', 'Contract and Commercial Law Act 2017'],
+    courtHierarchy: ['Supreme Court', 'Court of Appeal', 'High Court', 'District Court'],
+    limitationBasics: 'Money claims 6 years (Limitation Act 2010 s 11), with a late-knowledge extension of 3 years and a 15-year long-stop.',
+    referencePoints: [[-36.85, 174.76], [-41.29, 174.78], [-43.53, 172.64], [-45.87, 170.5]],
+  },
+  {
+    code: 'IN',
+    name: 'India',
+    legalSystem: 'Common law, under the Constitution of India.',
+    keyStatutes: ['Constitution of India', 'Bharatiya Nyaya Sanhita, 2023 (replaced the Indian Penal Code from 1 July 2024)', 'Bharatiya Nagarik Suraksha Sanhita, 2023', 'Indian Contract Act, 1872', 'Limitation Act, 1963', 'Information Technology Act, 2000', 'Digital Personal Data Protection Act, 2023'],
+    courtHierarchy: ['Supreme Court of India', 'High Courts', 'District and Sessions Courts', 'Subordinate civil and magistrate courts'],
+    limitationBasics: 'Most contract and money suits 3 years (Limitation Act, 1963, Schedule); fraud delays the start of the period until discovery (s 17).',
+    referencePoints: [[19.08, 72.88], [28.61, 77.21], [12.97, 77.59], [13.08, 80.27], [22.57, 88.36], [17.39, 78.49], [18.52, 73.86], [23.02, 72.57], [26.91, 75.79]],
+  },
+  {
+    code: 'NG',
+    name: 'Nigeria',
+    legalSystem: 'Common law, with customary and Sharia law in some states, under the 1999 Constitution.',
+    keyStatutes: ['Constitution of the Federal Republic of Nigeria, 1999', 'Advance Fee Fraud and Other Fraud Related Offences Act, 2006', 'Criminal Code Act (south) / Penal Code (north)', 'Nigeria Data Protection Act, 2023', 'Companies and Allied Matters Act, 2020'],
+    courtHierarchy: ['Supreme Court of Nigeria', 'Court of Appeal', 'Federal High Court and State High Courts', "Magistrates' and customary courts"],
+    limitationBasics: 'Set by federal and state limitation laws; contract claims are commonly 6 years. Actions against public officers must be brought within 3 months (Public Officers Protection Act).',
+    referencePoints: [[6.52, 3.38], [9.08, 7.4], [12.0, 8.52], [7.38, 3.9], [4.82, 7.03], [6.34, 5.63]],
+  },
+  {
+    code: 'KE',
+    name: 'Kenya',
+    legalSystem: 'Common law, under the Constitution of Kenya 2010.',
+    keyStatutes: ['Constitution of Kenya, 2010', 'Limitation of Actions Act (Cap. 22)', 'Penal Code (Cap. 63)', 'Anti-Corruption and Economic Crimes Act, 2003', 'Data Protection Act, 2019'],
+    courtHierarchy: ['Supreme Court', 'Court of Appeal', 'High Court (and Employment and Land courts of equal status)', "Magistrates' Courts"],
+    limitationBasics: 'Contract 6 years and tort 3 years (Limitation of Actions Act ss 4); land recovery 12 years.',
+    referencePoints: [[-1.29, 36.82], [-4.04, 39.67], [-0.09, 34.77], [0.51, 35.27]],
+  },
+  {
+    code: 'AE',
+    name: 'United Arab Emirates',
+    legalSystem: 'Civil law influenced by Sharia, with common law courts in the DIFC and ADGM financial free zones.',
+    keyStatutes: ['Civil Transactions Law (Federal Law No. 5 of 1985)', 'Penal Code (Federal Decree-Law No. 31 of 2021)', 'Personal Data Protection Law (Federal Decree-Law No. 45 of 2021)', 'Commercial Transactions Law (Federal Decree-Law No. 50 of 2022)'],
+    courtHierarchy: ['Federal Supreme Court (or the Dubai / Abu Dhabi Courts of Cassation)', 'Courts of Appeal', 'Courts of First Instance'],
+    limitationBasics: 'General civil claims 15 years (Civil Transactions Law); most commercial claims 10 years. DIFC and ADGM courts apply their own rules.',
+    referencePoints: [[25.2, 55.27], [24.45, 54.38], [25.35, 55.42], [25.8, 55.94], [24.21, 55.74]],
+  },
+  {
+    code: 'DE',
+    name: 'Germany',
+    legalSystem: 'Civil law.',
+    keyStatutes: ['Bürgerliches Gesetzbuch (BGB, Civil Code)', 'Strafgesetzbuch (StGB, Criminal Code; fraud § 263)', 'Zivilprozessordnung (ZPO, Code of Civil Procedure)', 'Bundesdatenschutzgesetz and GDPR', 'Handelsgesetzbuch (HGB, Commercial Code)'],
+    courtHierarchy: ['Bundesverfassungsgericht (constitutional matters)', 'Bundesgerichtshof (civil and criminal)', 'Oberlandesgerichte', 'Landgerichte', 'Amtsgerichte'],
+    limitationBasics: 'Regular period 3 years from the end of the year in which the claim arose and the creditor knew of it (BGB §§ 195, 199), capped at 10 years from accrual for most claims.',
+    referencePoints: [[52.52, 13.4], [48.14, 11.58], [53.55, 9.99], [50.94, 6.96], [50.11, 8.68], [48.78, 9.18], [51.34, 12.37]],
+  },
+  {
+    code: 'FR',
+    name: 'France',
+    legalSystem: 'Civil law, with separate judicial and administrative court orders.',
+    keyStatutes: ['Code civil', 'Code pénal (escroquerie, art. 313-1)', 'Code de procédure civile', 'Code de commerce', 'GDPR and Loi Informatique et Libertés'],
+    courtHierarchy: ['Cour de cassation (judicial) and Conseil d\'État (administrative)', "Cours d'appel", 'Tribunaux judiciaires and tribunaux de commerce'],
+    limitationBasics: 'General civil period 5 years from when the claimant knew or should have known the facts (Code civil art. 2224); 20-year long-stop (art. 2232).',
+    referencePoints: [[48.86, 2.35], [45.76, 4.84], [43.3, 5.37], [43.6, 1.44], [44.84, -0.58], [50.63, 3.06], [47.22, -1.55], [48.57, 7.75]],
+  },
+];
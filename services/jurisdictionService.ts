@@ -0,0 +1,117 @@
+
+import type { CaseJurisdiction, JurisdictionProfile } from '../types.ts';
+import { JURISDICTION_PROFILES } from './jurisdictionProfiles.ts';
+
+// --- Jurisdiction ---
+// The analysis is told which jurisdiction applies by the user, not by their
+// coordinates. The device location is only used, offline, to pre-select a
+// suggestion the user can change.
+
+const LAST_JURISDICTION_KEY = 'verum-omnis.jurisdiction';
+
+// A location further than this from every reference point gets no suggestion.
+const MAX_SUGGESTION_DISTANCE_KM = 800;
+
+export const getCurrentLocation = (): Promise<{ latitude: number; longitude: number } | null> => {
+  return new Promise((resolve) => {
+    if (!navigator.geolocation) {
+      console.warn("Geolocation is not supported by this browser.");
+      resolve(null);
+      return;
+    }
+    navigator.geolocation.getCurrentPosition(
+      (position) => {
+        resolve({
+          latitude: position.coords.latitude,
+          longitude: position.coords.longitude,
+        });
+      },
+      (error) => {
+        console.warn(`Geolocation error: ${error.message}`);
+        resolve(null);
+      },
+      {
+        enableHighAccuracy: false,
+        timeout: 10000,
+        maximumAge: 600000,
+      }
+    );
+  });
+};
+
+// Returns the country profile and, for a subdivision code, the subdivision.
+export const findJurisdiction = (code: string): { country: JurisdictionProfile; subdivision?: JurisdictionProfile } | null => {
+  const country = JURISDICTION_PROFILES.find(profile => profile.code === code.split('-')[0]);
+  if (!country) return null;
+  if (country.code === code) return { country };
+  const subdivision = country.subdivisions?.find(profile => profile.code === code);
+  return subdivision ? { country, subdivision } : null;
+};
+
+export const toCaseJurisdiction = (code: string): CaseJurisdiction | null => {
+  const found = findJurisdiction(code);
+  if (!found) return null;
+  const { country, subdivision } = found;
+  return { code, name: subdivision ? `${subdivision.name}, ${country.name}` : country.name };
+};
+
+const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.asin(Math.sqrt(a));
+};
+
+// Offline reverse lookup: the jurisdiction of the nearest bundled reference
+// city. Close to a border this can pick the neighbour, which is why the
+// result is only ever offered as a suggestion.
+export const suggestJurisdiction = (latitude: number, longitude: number): CaseJurisdiction | null => {
+  let best: { code: string; distance: number } | null = null;
+  for (const country of JURISDICTION_PROFILES) {
+    for (const profile of [country, ...(country.subdivisions ?? [])]) {
+      for (const [lat, lon] of profile.referencePoints) {
+        const distance = distanceKm(latitude, longitude, lat, lon);
+        if (!best || distance < best.distance) best = { code: profile.code, distance };
+      }
+    }
+  }
+  return best && best.distance <= MAX_SUGGESTION_DISTANCE_KM ? toCaseJurisdiction(best.code) : null;
+};
+
+// The profile text given to the analysis. A subdivision is described together
+// with its country, since federal or national law applies alongside it.
+export const describeJurisdiction = (jurisdiction: CaseJurisdiction): string => {
+  const found = findJurisdiction(jurisdiction.code);
+  if (!found) return `Jurisdiction: ${jurisdiction.name}.`;
+  const describe = (profile: JurisdictionProfile) => [
+    `${profile.name}:`,
+    `- Legal system: ${profile.legalSystem}`,
+    `- Key statutes: ${profile.keyStatutes.join('; ')}`,
+    `- Court hierarchy (highest first): ${profile.courtHierarchy.join(' > ')}`,
+    `- Limitation basics: ${profile.limitationBasics}`,
+  ].join('\n');
+  return [found.country, found.subdivision]
+    .filter((profile): profile is JurisdictionProfile => !!profile)
+    .map(describe)
+    .join('\n\n');
+};
+
+export const loadLastJurisdiction = (): CaseJurisdiction | null => {
+  try {
+    const code = localStorage.getItem(LAST_JURISDICTION_KEY);
+    return code ? toCaseJurisdiction(code) : null;
+  } catch (error) {
+    console.warn("Could not read the last jurisdiction:", error);
+    return null;
+  }
+};
+
+export const saveLastJurisdiction = (jurisdiction: CaseJurisdiction | null): void => {
+  try {
+    if (jurisdiction) localStorage.setItem(LAST_JURISDICTION_KEY, jurisdiction.code);
+    else localStorage.removeItem(LAST_JURISDICTION_KEY);
+  } catch (error) {
+    console.warn("Could not save the jurisdiction:", error);
+  }
+};
@@ -0,0 +1,113 @@
+
+import { requestCancelledError } from './analysisProvider.ts';
+import type { AnalysisProvider, GenerationOptions, JsonGenerationRequest, PromptPart } from './analysisProvider.ts';
+import { toJsonSchema } from './analysisSchema.ts';
+
+// --- OpenAI-compatible local provider ---
+// Talks to any server exposing POST {endpoint}/chat/completions, such as
+// Ollama ('http://localhost:11434/v1'), llama.cpp or vLLM, so analysis can run
+// on an air-gapped machine.
+
+const TEXT_MIME_PATTERN = /^(text\/|application\/(json|xml|rtf)|message\/rfc822)/;
+
+const decodeBase64Text = (data: string): string => {
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  return new TextDecoder().decode(bytes);
+};
+
+// Local models generally accept text and images only; other binary evidence is
+// described rather than silently dropped.
+const toMessageContent = (part: PromptPart): any => {
+  if ('text' in part) {
+    return { type: 'text', text: part.text };
+  }
+  const { mimeType, data } = part.inlineData;
+  if (TEXT_MIME_PATTERN.test(mimeType)) {
+    return { type: 'text', text: decodeBase64Text(data) };
+  }
+  if (mimeType.startsWith('image/')) {
+    return { type: 'image_url', image_url: { url: `data:${mimeType};base64,${data}` } };
+  }
+  return { type: 'text', text: `[The content of this ${mimeType || 'binary'} document cannot be read by the local model. Do not invent findings about it.]` };
+};
+
+// Reads an OpenAI-style server-sent event stream, passing the content received
+// so far to `onText` after each delta.
+const readEventStream = async (body: ReadableStream<Uint8Array>, onText: (received: string) => void): Promise<string> => {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = '';
+  let text = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split('\n');
+    buffered = lines.pop() ?? '';
+    for (const line of lines) {
+      const data = line.replace(/^data:\s*/, '').trim();
+      if (!line.startsWith('data:') || data === '' || data === '[DONE]') continue;
+      const delta = JSON.parse(data).choices?.[0]?.delta?.content;
+      if (delta) {
+        text += delta;
+        onText(text);
+      }
+    }
+  }
+  return text;
+};
+
+export const createLocalHttpProvider = (endpoint: string, model: string, apiKey?: string): AnalysisProvider => ({
+  id: 'local-http',
+  label: 'Local model',
+  model,
+  generateJson: async ({ systemInstruction, parts, responseSchema }: JsonGenerationRequest, { signal, onText }: GenerationOptions = {}): Promise<string> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${endpoint.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          temperature: 0,
+          stream: Boolean(onText),
+          messages: [
+            { role: 'system', content: systemInstruction },
+            { role: 'user', content: parts.map(toMessageContent) },
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'verum_omnis_response', schema: toJsonSchema(responseSchema) },
+          },
+        }),
+      });
+    } catch (error: any) {
+      if (signal?.aborted) throw requestCancelledError();
+      console.error("Local model request failed:", error);
+      throw new Error(`Could not reach the local model at ${endpoint}. Is the server running?`);
+    }
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error("Local model returned an error:", response.status, detail);
+      throw new Error(`Local model request failed with HTTP ${response.status}.`);
+    }
+
+    try {
+      // Servers that ignore `stream` answer with a single JSON body.
+      if (onText && response.body && response.headers.get('Content-Type')?.includes('text/event-stream')) {
+        return await readEventStream(response.body, onText);
+      }
+      const json = await response.json();
+      return json.choices?.[0]?.message?.content ?? '';
+    } catch (error: any) {
+      if (signal?.aborted) throw requestCancelledError();
+      console.error("Could not read the local model response:", error);
+      throw new Error('The local model response could not be read.');
+    }
+  },
+});
@@ -0,0 +1,63 @@
+
+import type { PDFDocument } from 'pdf-lib';
+
+// --- Embedded report ---
+// Every generated PDF carries its signed .verum.bin as a file attachment, so
+// the PDF alone is enough to reopen the full analysis and check its signature.
+// pdf-lib is loaded on first use, keeping it out of the upload screen's bundle.
+
+export const EMBEDDED_REPORT_NAME = 'verum-omnis-report.verum.bin';
+
+// Report PDFs are small; anything larger is treated as evidence without
+// reading it through.
+const MAX_REPORT_PDF_BYTES = 25 * 1024 * 1024;
+
+export const embedReportInPdf = async (pdfBytes: ArrayBuffer, reportBytes: Uint8Array): Promise<Uint8Array> => {
+  const { PDFDocument } = await import('pdf-lib');
+  const pdf = await PDFDocument.load(pdfBytes);
+  await pdf.attach(reportBytes, EMBEDDED_REPORT_NAME, {
+    mimeType: 'application/octet-stream',
+    description: 'Signed Verum Omnis report. Load this PDF in Verum Omnis to reopen the analysis.',
+    creationDate: new Date(),
+  });
+  pdf.setCreator('Verum Omnis');
+  // Object streams would compress the attachment's file name out of sight of
+  // isVerumPdfReport's byte scan.
+  return pdf.save({ useObjectStreams: false });
+};
+
+// Returns the attached .verum.bin, or null if the PDF carries none.
+export const extractEmbeddedReport = async (pdfBytes: ArrayBuffer): Promise<Uint8Array | null> => {
+  const { PDFArray, PDFDict, PDFDocument, PDFHexString, PDFName, PDFRawStream, PDFStream, PDFString, decodePDFRawStream } = await import('pdf-lib');
+  let pdf: PDFDocument;
+  try {
+    pdf = await PDFDocument.load(pdfBytes, { updateMetadata: false });
+  } catch (error: any) {
+    console.error("Could not parse PDF:", error);
+    throw new Error('The PDF could not be read. It may be damaged or encrypted.');
+  }
+
+  const names = pdf.catalog.lookupMaybe(PDFName.of('Names'), PDFDict);
+  const embeddedFiles = names?.lookupMaybe(PDFName.of('EmbeddedFiles'), PDFDict);
+  const entries = embeddedFiles?.lookupMaybe(PDFName.of('Names'), PDFArray);
+  if (!entries) return null;
+
+  // The name tree is a flat array of [name, file specification] pairs.
+  for (let i = 0; i + 1 < entries.size(); i += 2) {
+    const fileSpec = entries.lookupMaybe(i + 1, PDFDict);
+    const fileName = fileSpec?.lookupMaybe(PDFName.of('UF'), PDFString, PDFHexString)?.decodeText()
+      ?? fileSpec?.lookupMaybe(PDFName.of('F'), PDFString, PDFHexString)?.decodeText();
+    if (fileName !== EMBEDDED_REPORT_NAME) continue;
+    const stream = fileSpec?.lookupMaybe(PDFName.of('EF'), PDFDict)?.lookupMaybe(PDFName.of('F'), PDFStream);
+    if (stream instanceof PDFRawStream) return decodePDFRawStream(stream).decode();
+  }
+  return null;
+};
+
+// A cheap check for the upload screen: a Verum Omnis report PDF names its
+// attachment in plain text, so there is no need to parse the whole document.
+export const isVerumPdfReport = async (file: File): Promise<boolean> => {
+  if (!file.name.toLowerCase().endsWith('.pdf') || file.size > MAX_REPORT_PDF_BYTES) return false;
+  const text = new TextDecoder('latin1').decode(await file.arrayBuffer());
+  return text.includes(`(${EMBEDDED_REPORT_NAME})`);
+};
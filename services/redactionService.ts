@@ -0,0 +1,95 @@
+
+// --- Local PII redaction ---
+// Text-bearing evidence is scrubbed on-device before it is sent for analysis,
+// as required by the constitution's `redaction_required_before_analysis`.
+// Each distinct value is replaced with a stable pseudonym (PERSON_1, ACCOUNT_2)
+// shared across every document in the case, and the pseudonyms are swapped
+// back into the returned analysis locally.
+
+export type PiiCategory = 'EMAIL' | 'ACCOUNT' | 'ID' | 'PHONE' | 'ADDRESS' | 'PERSON';
+
+interface PiiPattern {
+  category: PiiCategory;
+  regex: RegExp;
+  // Index of the capture group holding the sensitive value; 0 redacts the whole match.
+  group: number;
+}
+
+// Order matters: more specific patterns run first so that, e.g., an IBAN is not
+// half-consumed by the phone number pattern.
+const PII_PATTERNS: PiiPattern[] = [
+  { category: 'EMAIL', regex: /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, group: 0 },
+  { category: 'ACCOUNT', regex: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,4})?\b/g, group: 0 },
+  { category: 'ACCOUNT', regex: /\b(?:account|acct|acc)\.?(?:\s*(?:no|number|#))?\.?[:\s]\s*([0-9][0-9 -]{5,22}[0-9])\b/gi, group: 1 },
+  { category: 'ID', regex: /\b\d{3}-\d{2}-\d{4}\b/g, group: 0 },
+  // The value must contain a digit so ordinary words after "tax" or "passport" are left alone.
+  { category: 'ID', regex: /\b(?:ID|identity|passport|national insurance|tax)(?:\s*(?:no|number|#))?\.?[:\s]\s*((?=[A-Z0-9-]*\d)[A-Z0-9][A-Z0-9-]{5,})\b/gi, group: 1 },
+  { category: 'ID', regex: /\b\d{13}\b/g, group: 0 },
+  // Phone numbers must carry a country code or trunk prefix so amounts like "10 000 000" are left alone.
+  { category: 'PHONE', regex: /(?:\+\d{1,3}[\s-]?\(?\d{1,4}\)?|\(0\d{1,4}\)|\b0\d{1,4})[\s-]?\d{3,4}[\s-]?\d{3,4}\b/g, group: 0 },
+  { category: 'ADDRESS', regex: /\b\d{1,5}\s+(?:[A-Z][a-z]+\s){1,4}(?:Street|St|Road|Rd|Avenue|Ave|Drive|Dr|Lane|Ln|Boulevard|Blvd|Way|Crescent|Close|Court|Ct|Place|Pl)\b/g, group: 0 },
+  { category: 'PERSON', regex: /\b(?:Mr|Mrs|Ms|Miss|Dr|Prof|Adv|Sir|Madam)\.?\s+((?:[A-Z][a-zA-Z'-]+\s?){1,3})/g, group: 1 },
+  { category: 'PERSON', regex: /\b(?:Name|Full name|Signed by|Dear|Attention|Attn)\s*[:,]?\s+((?:[A-Z][a-zA-Z'-]+\s?){2,3})/g, group: 1 },
+];
+
+const PSEUDONYM_PATTERN = /\b(EMAIL|ACCOUNT|ID|PHONE|ADDRESS|PERSON)_(\d+)\b/g;
+// Guards against a later pattern re-redacting the category word of an earlier pseudonym.
+const PSEUDONYM_PREFIX = /^(?:EMAIL|ACCOUNT|ID|PHONE|ADDRESS|PERSON)(?:_\d+)?\b/;
+
+const TEXT_MIME_TYPES = ['application/json', 'application/xml', 'application/rtf', 'message/rfc822'];
+const TEXT_EXTENSIONS = /\.(txt|csv|tsv|md|json|xml|html?|eml|log|rtf)$/i;
+
+export const isTextBearing = (file: File): boolean => {
+  return file.type.startsWith('text/') || TEXT_MIME_TYPES.includes(file.type) || TEXT_EXTENSIONS.test(file.name);
+};
+
+export interface Redactor {
+  redact: (text: string) => string;
+  rehydrate: <T>(value: T) => T;
+  summary: () => Partial<Record<PiiCategory, number>>;
+}
+
+export const createRedactor = (): Redactor => {
+  const pseudonymsByValue = new Map<string, string>();
+  const originalsByPseudonym = new Map<string, string>();
+  const counters: Partial<Record<PiiCategory, number>> = {};
+
+  const normalize = (value: string) => value.trim().replace(/\s+/g, ' ').toLowerCase();
+
+  const pseudonymFor = (category: PiiCategory, value: string): string => {
+    const key = `${category}:${normalize(value)}`;
+    const existing = pseudonymsByValue.get(key);
+    if (existing) return existing;
+    counters[category] = (counters[category] ?? 0) + 1;
+    const pseudonym = `${category}_${counters[category]}`;
+    pseudonymsByValue.set(key, pseudonym);
+    originalsByPseudonym.set(pseudonym, value.trim());
+    return pseudonym;
+  };
+
+  const redact = (text: string): string => {
+    return PII_PATTERNS.reduce((current, { category, regex, group }) => {
+      return current.replace(regex, (match, ...groups) => {
+        const value: string | undefined = group === 0 ? match : groups[group - 1];
+        if (!value || PSEUDONYM_PREFIX.test(value)) return match;
+        const trailing = value.match(/\s*$/)?.[0] ?? '';
+        return match.replace(value, pseudonymFor(category, value) + trailing);
+      });
+    }, text);
+  };
+
+  const rehydrateString = (text: string): string => {
+    return text.replace(PSEUDONYM_PATTERN, (match) => originalsByPseudonym.get(match) ?? match);
+  };
+
+  const rehydrate = <T,>(value: T): T => {
+    if (typeof value === 'string') return rehydrateString(value) as T;
+    if (Array.isArray(value)) return value.map(item => rehydrate(item)) as T;
+    if (value && typeof value === 'object') {
+      return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, rehydrate(item)])) as T;
+    }
+    return value;
+  };
+
+  return { redact, rehydrate, summary: () => ({ ...counters }) };
+};
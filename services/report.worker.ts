@@ -2,126 +2,53 @@
 // --- report.worker.ts ---
 // This worker runs in the background to process large .verum.bin files
 // and generate complex PDF reports without freezing the main UI thread.
+// It is bundled as a module worker, so it shares the report decoder with
+// the main thread and needs no network access.
+import { jsPDF } from 'jspdf';
+import { applyPlugin } from 'jspdf-autotable';
+import { create as createQrCode } from 'qrcode';
+import type { AnalysisResult, ReportDocumentFormat, ReportSignatureInfo, CaseDocument, ContradictionFinding, TimelineEvent, RecommendedAction, TopLiability, EvidenceSpotlightItem, LegalSubjectFinding, DishonestyFinding, EvidenceIndexItem, ConsensusItem, ConsensusScore, AnalysisCorrection, CitationCheck, ReportDiff } from '../types.ts';
+import { decodeSignedReport, encodeReport, encodeSignedReport } from './reportSerializer.ts';
+import { REVIEW_DECISION_LABELS, describeReviewStatus, reviewLogRows, reviewMarker, reviewTarget } from './reviewService.ts';
+import { auditLogRows, describeAuditTrail } from './auditService.ts';
+import { describeScoreDelta, diffRows, summarizeDiff } from './reportDiffService.ts';
+import { JSON_REPORT_EXTENSION, decodeJsonReport } from './jsonReportService.ts';
+import { CITATION_STATUS_LABELS, CONSENSUS_AGREEMENT_LABELS, CONSENSUS_CATEGORY_LABELS, REPORT_TITLE, buildReportOutline, citeLocation, jurisdictionLabel } from './reportContent.ts';
+import { buildDocxReport } from './docxReportService.ts';
+import { buildHtmlReport } from './htmlReportService.ts';
+import { buildVerificationPayload, reportIdFor, shortHash } from './verificationPayload.ts';
+import { embedReportInPdf, extractEmbeddedReport } from './pdfEmbedService.ts';
 
-// Since this is a worker, we load global scripts using importScripts
-// Note: These URLs must be accessible from the worker's context.
-import type { AnalysisResult, RecommendedAction, TopLiability, EvidenceSpotlightItem, LegalSubjectFinding, DishonestyFinding, EvidenceIndexItem } from '../types.ts';
-
-declare const protobuf: any;
-declare const jspdf: any;
-
-try {
-    importScripts(
-        "https://cdn.jsdelivr.net/npm/protobufjs@7.3.2/dist/protobuf.min.js",
-        "https://cdnjs.cloudflare.com/ajax/libs/jspdf/2.5.1/jspdf.umd.min.js",
-        "https://cdnjs.cloudflare.com/ajax/libs/jspdf-autotable/3.8.2/jspdf.plugin.autotable.min.js"
-    );
-} catch (e) {
-    console.error('Failed to load worker scripts:', e);
-    // Post an error back to the main thread if scripts fail to load.
-    self.postMessage({ type: 'error', message: 'Failed to load core libraries in background worker.' });
-}
+// Adds doc.autoTable() to every jsPDF document.
+applyPlugin(jsPDF);
 
-// --- REPORT SERIALIZER LOGIC (Copied from services/reportSerializer.ts) ---
-const protoDefinition = `
-syntax = "proto3";
-package verumomnis;
-message EvidenceIndexItem { string id = 1; string description = 2; uint32 page_number = 3; string document_reference = 4; }
-message EvidenceSpotlightItem { string title = 1; string significance = 2; string evidence_reference = 3; uint32 page_number = 4; }
-message LegalSubjectFinding { string subject = 1; repeated string key_points = 2; string evidence = 3; string severity = 4; }
-message DishonestyFinding { string flag = 1; string description = 2; string evidence = 3; string severity = 4; }
-message RecommendedAction { string jurisdiction = 1; string action = 2; string legal_basis = 3; }
-message TopLiability { string name = 1; string severity = 2; }
-message AnalysisResult {
-  uint32 protocol_version = 1; string analysis_timestamp_utc = 2; string document_hash = 3; string file_name = 4; string case_narrative = 5;
-  repeated EvidenceSpotlightItem evidence_spotlight = 6; repeated EvidenceIndexItem evidence_index = 7;
-  message PreAnalysisChecks { bool extraction_protocol = 1; bool preservation_flags = 2; bool scope = 3; }
-  PreAnalysisChecks pre_analysis_checks = 8;
-  repeated LegalSubjectFinding critical_legal_subjects = 9; repeated DishonestyFinding dishonesty_detection_matrix = 10;
-  message ActionableOutput { repeated TopLiability top_liabilities = 1; uint32 dishonesty_score = 2; repeated RecommendedAction recommended_actions = 3; string summary = 4; }
-  ActionableOutput actionable_output = 11;
-  message PostAnalysisDeclaration { bool extraction_complete = 1; bool integrity_seals_verified = 2; string logs = 3; string seal = 4; }
-  PostAnalysisDeclaration post_analysis_declaration = 12;
-}`;
-
-let ReportMessage: any = null;
-const initialize = () => {
-    if (ReportMessage || typeof protobuf === 'undefined') return;
-    const root = protobuf.parse(protoDefinition).root;
-    ReportMessage = root.lookupType("verumomnis.AnalysisResult");
-};
 
-const fromProtoPayload = (payload: any): AnalysisResult => ({
-    documentHash: payload.document_hash,
-    fileName: payload.file_name,
-    caseNarrative: payload.case_narrative,
-    evidenceSpotlight: payload.evidence_spotlight.map((item: any) => ({
-        title: item.title,
-        significance: item.significance,
-        evidenceReference: item.evidence_reference,
-        pageNumber: item.page_number,
-    })),
-    evidenceIndex: payload.evidence_index.map((item: any) => ({
-        id: item.id,
-        description: item.description,
-        pageNumber: item.page_number,
-        documentReference: item.document_reference,
-    })),
-    preAnalysisChecks: {
-        extractionProtocol: payload.pre_analysis_checks.extraction_protocol,
-        preservationFlags: payload.pre_analysis_checks.preservation_flags,
-        scope: payload.pre_analysis_checks.scope,
-    },
-    criticalLegalSubjects: payload.critical_legal_subjects.map((item: any) => ({
-        subject: item.subject,
-        keyPoints: item.key_points,
-        evidence: item.evidence,
-        severity: item.severity,
-    })),
-    dishonestyDetectionMatrix: payload.dishonesty_detection_matrix.map((item: any) => ({
-        flag: item.flag,
-        description: item.description,
-        evidence: item.evidence,
-        severity: item.severity,
-    })),
-    actionableOutput: {
-        topLiabilities: payload.actionable_output.top_liabilities,
-        dishonestyScore: payload.actionable_output.dishonesty_score,
-        recommendedActions: payload.actionable_output.recommended_actions.map((item: any) => ({
-            jurisdiction: item.jurisdiction,
-            action: item.action,
-            legalBasis: item.legal_basis,
-        })),
-        summary: payload.actionable_output.summary,
-    },
-    postAnalysisDeclaration: {
-        extractionComplete: payload.post_analysis_declaration.extraction_complete,
-        integritySealsVerified: payload.post_analysis_declaration.integrity_seals_verified,
-        logs: payload.post_analysis_declaration.logs,
-        seal: payload.post_analysis_declaration.seal,
-    },
-});
-
-const decodeReport = (buffer: Uint8Array): Promise<AnalysisResult> => new Promise((resolve, reject) => {
-    initialize();
-    if (!ReportMessage) return reject(new Error("Protobuf message type not initialized."));
-    try {
-        const decodedMessage = ReportMessage.decode(buffer);
-        const object = ReportMessage.toObject(decodedMessage, { longs: String, enums: String, bytes: String });
-        resolve(fromProtoPayload(object));
-    } catch (e: any) {
-        reject(e);
-    }
-});
+// --- PDF GENERATOR LOGIC ---
+const WATERMARK_TEXT = 'VERUM OMNIS';
 
+// Draws a QR code as filled squares rather than an image, so it stays sharp
+// when printed and needs no canvas inside the worker.
+const drawQrCode = (doc: any, text: string, x: number, y: number, size: number) => {
+    const { modules } = createQrCode(text, { errorCorrectionLevel: 'M' });
+    const cell = size / modules.size;
+    doc.setFillColor(255, 255, 255); doc.rect(x - cell * 2, y - cell * 2, size + cell * 4, size + cell * 4, 'F');
+    doc.setFillColor(0, 0, 0);
+    for (let row = 0; row < modules.size; row++) {
+        for (let col = 0; col < modules.size; col++) {
+            if (modules.get(row, col)) doc.rect(x + col * cell, y + row * cell, cell, cell, 'F');
+        }
+    }
+};
 
-// --- PDF GENERATOR LOGIC ---
-const generatePdfReport = async (result: AnalysisResult, fileName: string): Promise<Blob> => {
-    const { jsPDF } = jspdf;
-    const doc = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
+// `reportBytes` is the .verum.bin report embedded in the PDF.
+const generatePdfReport = async (result: AnalysisResult, fileName: string, reportBytes: Uint8Array | null, comparison?: ReportDiff): Promise<Blob> => {
+    // autoTable is added by the plugin at runtime and is not on the jsPDF type.
+    const doc: any = new jsPDF({ orientation: 'p', unit: 'mm', format: 'a4' });
     
     const pageWidth = doc.internal.pageSize.getWidth();
+    const pageHeight = doc.internal.pageSize.getHeight();
     const margin = 15;
+    const reportId = reportIdFor(result);
     const contentWidth = pageWidth - margin * 2;
     let y = 0;
 
@@ -129,7 +56,7 @@ const generatePdfReport = async (result: AnalysisResult, fileName: string): Prom
     const addHeader = (title: string, onFirstPage = false) => {
         if (!onFirstPage) y = 20;
         doc.setFont('Roboto Mono', 'bold'); doc.setFontSize(16);
-        doc.text("DEEPSEEK VERUM OMNIS: INSTITUTIONAL REVIEW", pageWidth / 2, y, { align: 'center' }); y += 7;
+        doc.text(REPORT_TITLE, pageWidth / 2, y, { align: 'center' }); y += 7;
         doc.setFont('Source Code Pro', 'normal'); doc.setFontSize(9); doc.setTextColor(100);
         doc.text(`Forensic Analysis Report: ${title}`, pageWidth / 2, y, { align: 'center' }); y += 10;
         doc.setDrawColor(200); doc.line(margin, y, pageWidth - margin, y); y += 10;
@@ -146,12 +73,22 @@ const generatePdfReport = async (result: AnalysisResult, fileName: string): Prom
         doc.text(lines, margin + indent, y); y += (lines.length * size * 0.45);
         return lines.length;
     };
+    const citationsByTarget = new Map(result.citationChecks.map((c: CitationCheck) => [c.target, c]));
+    const citationLabel = (target: string) => { const c = citationsByTarget.get(target); return c ? (CITATION_STATUS_LABELS[c.status] || c.status) : ''; };
+    const citationTag = (target: string) => citationLabel(target) ? `\nCitation: ${citationLabel(target)}` : '';
+    const citeSources = (documentIds?: string[]) => documentIds && documentIds.length > 0 ? `\nSources: ${documentIds.join(', ')}` : '';
     const addTable = (head: any, body: any, startY: number) => {
       doc.autoTable({
           head, body, startY, theme: 'grid',
           headStyles: { fillColor: [50, 50, 50], textColor: 255, font: 'Roboto Mono', fontStyle: 'bold' },
           styles: { font: 'Source Code Pro', fontSize: 8 },
           alternateRowStyles: { fillColor: [245, 245, 245] },
+          // Findings an analyst rejected are greyed out; their marker says so.
+          didParseCell: (data: any) => {
+              if (data.section === 'body' && data.row.raw.some((cell: unknown) => typeof cell === 'string' && cell.includes(`[${REVIEW_DECISION_LABELS.rejected}]`))) {
+                  data.cell.styles.textColor = [150, 150, 150];
+              }
+          },
       });
       return doc.autoTable.previous.finalY;
     };
@@ -160,33 +97,60 @@ const generatePdfReport = async (result: AnalysisResult, fileName: string): Prom
     addHeader(fileName, true);
     y=35;
     addSectionTitle("Executive Summary & Actionable Output");
+    addText(`Jurisdiction: ${jurisdictionLabel(result)}`, 10, 'bold'); y += 2;
+    addText(describeReviewStatus(result), 8); y += 3;
     addText(result.actionableOutput.summary, 9); y += 5;
     addText(`DISHONESTY SCORE: ${result.actionableOutput.dishonestyScore}%`, 10, 'bold'); y += 8;
     
     let tableY = y;
     let head = [["Jurisdiction", "Recommended Action", "Legal Basis"]];
-    let body = result.actionableOutput.recommendedActions.map((a: RecommendedAction) => [a.jurisdiction, a.action, a.legalBasis]);
+    let body = result.actionableOutput.recommendedActions.map((a: RecommendedAction, i: number) => [a.jurisdiction, `${a.action}${reviewMarker(result, reviewTarget('recommendedAction', i))}`, a.legalBasis]);
     y = addTable(head, body, tableY); y += 10;
     
     head = [["Identified Top Liabilities", "Severity"]];
-    body = result.actionableOutput.topLiabilities.map((l: TopLiability) => [l.name, l.severity]);
+    body = result.actionableOutput.topLiabilities.map((l: TopLiability, i: number) => [`${l.name}${reviewMarker(result, reviewTarget('liability', i))}`, l.severity]);
     y = addTable(head, body, y);
     y += 10;
 
+    if (result.documents && result.documents.length > 0) {
+        checkPageBreak();
+        addSectionTitle("Case Documents");
+        head = [["ID", "File", "Type", "SHA-512"]];
+        body = result.documents.map((d: CaseDocument) => [d.documentId, d.fileName, d.mimeType, `${d.documentHash.substring(0, 32)}...`]);
+        y = addTable(head, body, y); y += 10;
+    }
+
     doc.addPage();
     addHeader(fileName);
     addSectionTitle("Case Narrative");
     addText(result.caseNarrative, 9); y+=10;
 
+    if (result.timeline.length > 0) {
+        checkPageBreak();
+        addSectionTitle("Timeline Reconstruction");
+        head = [["Date", "Event", "Actors", "Source", "Confidence"]];
+        body = result.timeline.map((t: TimelineEvent, i: number) => [
+            t.endDate ? `${t.date} to ${t.endDate}` : t.date,
+            t.event,
+            t.actors.join(', '),
+            `${t.evidenceReference}\n${citeLocation(t.source.documentId, t.source.pageNumber)}${citationTag(`timeline[${i}]`)}`,
+            t.confidence,
+        ]);
+        y = addTable(head, body, y); y += 10;
+    }
+
     checkPageBreak();
     addSectionTitle("Evidence Spotlight");
-    result.evidenceSpotlight.forEach((item: EvidenceSpotlightItem) => {
+    result.evidenceSpotlight.forEach((item: EvidenceSpotlightItem, i: number) => {
         checkPageBreak();
+        const citation = citationLabel(`evidenceSpotlight[${i}]`);
+        const spotlightTitle = `★ ${item.title} (${citeLocation(item.documentId, item.pageNumber)})${citation ? ` [${citation}]` : ''}`;
         const startY = y;
         doc.setFont('Source Code Pro', 'bold'); doc.setFontSize(10);
-        const titleLines = doc.splitTextToSize(`★ ${item.title} (Page ${item.pageNumber})`, contentWidth);
+        const titleLines = doc.splitTextToSize(spotlightTitle, contentWidth);
         doc.setFont('Source Code Pro', 'normal'); doc.setFontSize(9);
-        const significanceLines = doc.splitTextToSize(item.significance, contentWidth - 5);
+        const significance = `${item.significance}${reviewMarker(result, reviewTarget('spotlight', i))}`;
+        const significanceLines = doc.splitTextToSize(significance, contentWidth - 5);
         const titleHeight = titleLines.length * 10 * 0.45;
         const significanceHeight = significanceLines.length * 9 * 0.45;
         const blockHeight = titleHeight + significanceHeight + 12;
@@ -197,8 +161,8 @@ const generatePdfReport = async (result: AnalysisResult, fileName: string): Prom
         doc.setFillColor(255, 250, 230);
         doc.rect(margin, drawStartY, contentWidth, blockHeight, 'F');
         y = drawStartY + 6;
-        addText(`★ ${item.title} (Page ${item.pageNumber})`, 10, 'bold');
-        addText(item.significance, 9, 'normal', 5);
+        addText(spotlightTitle, 10, 'bold');
+        addText(significance, 9, 'normal', 5);
         y = drawStartY + blockHeight + 4;
     });
 
@@ -206,24 +170,73 @@ const generatePdfReport = async (result: AnalysisResult, fileName: string): Prom
     addHeader(fileName);
     addSectionTitle("Critical Legal Subjects");
     head = [["Subject", "Key Points", "Evidence", "Severity"]];
-    body = result.criticalLegalSubjects.map((s: LegalSubjectFinding) => [s.subject, s.keyPoints.join('\n'), s.evidence, s.severity]);
+    body = result.criticalLegalSubjects.map((s: LegalSubjectFinding, i: number) => [`${s.subject}${reviewMarker(result, reviewTarget('legalSubject', i))}`, s.keyPoints.join('\n'), `${s.evidence}${citeSources(s.documentIds)}${citationTag(`criticalLegalSubjects[${i}]`)}`, s.severity]);
     y = addTable(head, body, y); y += 10;
 
     checkPageBreak();
     addSectionTitle("Dishonesty Detection Matrix");
     head = [["Flag", "Description", "Evidence", "Severity"]];
-    body = result.dishonestyDetectionMatrix.map((d: DishonestyFinding) => [d.flag, d.description, d.evidence, d.severity]);
+    body = result.dishonestyDetectionMatrix.map((d: DishonestyFinding, i: number) => [`${d.flag}${reviewMarker(result, reviewTarget('dishonestyFlag', i))}`, d.description, `${d.evidence}${citeSources(d.documentIds)}${citationTag(`dishonestyDetectionMatrix[${i}]`)}`, d.severity]);
     y = addTable(head, body, y); y += 10;
+
+    if (result.contradictions.length > 0) {
+        checkPageBreak();
+        addSectionTitle("Contradiction Engine");
+        head = [["Claim A", "Claim B", "Layer", "Explanation", "Severity"]];
+        body = result.contradictions.map((c: ContradictionFinding, i: number) => [
+            `${c.claimA}\n(${citeLocation(c.sourceA.documentId, c.sourceA.pageNumber)})${citationTag(`contradictions[${i}].sourceA`)}`,
+            `${c.claimB}\n(${citeLocation(c.sourceB.documentId, c.sourceB.pageNumber)})${citationTag(`contradictions[${i}].sourceB`)}`,
+            c.layer, c.explanation, c.severity,
+        ]);
+        y = addTable(head, body, y); y += 10;
+    }
+
+    if (result.consensus) {
+        checkPageBreak();
+        addSectionTitle("Triple-AI Consensus Delta");
+        addText(`Dishonesty scores: ${result.consensus.scores.map((s: ConsensusScore) => `${s.model}: ${s.dishonestyScore}`).join('; ')}`, 8);
+        y += 2;
+        head = [["Finding", "Category", "Agreement", "Reported By", "Severities"]];
+        body = result.consensus.items.map((i: ConsensusItem) => [i.finding, CONSENSUS_CATEGORY_LABELS[i.category] || i.category, CONSENSUS_AGREEMENT_LABELS[i.agreement] || i.agreement, i.models.join('\n'), i.severities.join(', ')]);
+        y = addTable(head, body, y); y += 10;
+    }
     
+    if (result.corrections.length > 0) {
+        checkPageBreak();
+        addSectionTitle("Validation Corrections");
+        head = [["Section", "Location", "Correction"]];
+        body = result.corrections.map((c: AnalysisCorrection) => [c.section, c.path, c.message]);
+        y = addTable(head, body, y); y += 10;
+    }
+
+    const reviewLog = reviewLogRows(result);
+    if (reviewLog.length > 0) {
+        checkPageBreak();
+        addSectionTitle("Analyst Review");
+        head = [["Finding", "Decision", "Reviewer", "Reviewed (UTC)", "Reason"]];
+        y = addTable(head, reviewLog, y); y += 10;
+    }
+
+    const flaggedCitations = result.citationChecks.filter((c: CitationCheck) => c.status !== 'verified');
+    if (flaggedCitations.length > 0) {
+        checkPageBreak();
+        addSectionTitle("Citation Verification");
+        addText(`${result.citationChecks.length - flaggedCitations.length} of ${result.citationChecks.length} citations verified against the evidence text. The following could not be fully verified:`, 8);
+        y += 2;
+        head = [["Cited By", "Status", "Detail"]];
+        body = flaggedCitations.map((c: CitationCheck) => [c.target, CITATION_STATUS_LABELS[c.status] || c.status, c.detail]);
+        y = addTable(head, body, y); y += 10;
+    }
+
     doc.addPage();
     addHeader(fileName);
     addSectionTitle("Evidence Index");
-    head = [["ID", "Description", "Page"]];
-    body = result.evidenceIndex.map((e: EvidenceIndexItem) => [e.id, e.description, String(e.pageNumber)]);
+    head = [["ID", "Description", "Document", "Page", "Citation"]];
+    body = result.evidenceIndex.map((e: EvidenceIndexItem, i: number) => [e.id, e.description, e.documentId, String(e.pageNumber), citationLabel(`evidenceIndex[${i}]`)]);
     y = addTable(head, body, y);
 
-    y = 250;
-    checkPageBreak();
+    doc.addPage();
+    y = 20;
     addSectionTitle("Declarations & Seals");
     addText("Pre-Analysis:", 9, 'bold');
     addText([
@@ -235,7 +248,7 @@ const generatePdfReport = async (result: AnalysisResult, fileName: string): Prom
     addText("Post-Analysis:", 9, 'bold');
     addText([
         `[✓] Extraction complete. Integrity seals verified.`,
-        `[✓] Contradictions/redaction breaks logged in: ${result.postAnalysisDeclaration.logs}`,
+        `[✓] ${describeAuditTrail(result)}`,
         `[✓] Ready for redeployment: New case initialization unlocked.`
     ], 8, 'normal', 5);
     y += 8;
@@ -247,24 +260,125 @@ const generatePdfReport = async (result: AnalysisResult, fileName: string): Prom
     doc.text(result.postAnalysisDeclaration.seal, margin, y);
     y += 5;
     doc.setFont('Source Code Pro', 'normal');
-    doc.text(`Document SHA-512 Hash: ${result.documentHash}`, margin, y, { maxWidth: contentWidth });
+    doc.text(`Report ID: ${reportId}`, margin, y);
+    y += 5;
+    doc.text(`Document ${result.hashAlgorithm || 'SHA-512'} Hash: ${result.documentHash}`, margin, y, { maxWidth: contentWidth });
+    y += 10;
+    if (result.documentHashSha256) {
+        doc.text(`Document SHA-256 Hash: ${result.documentHashSha256}`, margin, y, { maxWidth: contentWidth });
+        y += 10;
+    }
+
+    // The QR code carries the hashes, seal and report ID for the in-app verifier.
+    const qrSize = 45;
+    drawQrCode(doc, buildVerificationPayload(result), margin, y, qrSize);
+    doc.setFont('Source Code Pro', 'normal'); doc.setFontSize(8); doc.setTextColor(100);
+    doc.text([
+        'Scan to verify this report.',
+        'Paste the scanned text into "Verify Report QR Code"',
+        'after loading the .verum.bin report in Verum Omnis.',
+    ], margin + qrSize + 6, y + 4);
 
-    return doc.output('blob');
+    const auditLog = auditLogRows(result);
+    if (auditLog.length > 0) {
+        doc.addPage();
+        addHeader(fileName);
+        addSectionTitle("Appendix: Audit Trail");
+        addText("Each entry is hash-chained to the one before it; the full hashes are in the .verum.bin report.", 8);
+        y += 2;
+        head = [["#", "Time (UTC)", "Event", "Detail", "Hash"]];
+        y = addTable(head, auditLog, y);
+    }
+
+    if (comparison) {
+        const summary = summarizeDiff(comparison);
+        doc.addPage();
+        addHeader(fileName);
+        addSectionTitle("Appendix: Comparison of Analyses");
+        addText(`Before: ${comparison.before.label}, analysed ${comparison.before.analyzedAt || 'at an unknown date'} by ${comparison.before.models.join(', ')}`, 8);
+        addText(`After: ${comparison.after.label}, analysed ${comparison.after.analyzedAt || 'at an unknown date'} by ${comparison.after.models.join(', ')}`, 8);
+        if (!comparison.sameEvidence) addText('The two analyses were run over different evidence files.', 8, 'bold');
+        y += 2;
+        addText(`${describeScoreDelta(comparison)}. ${summary.added} added, ${summary.removed} removed, ${summary.changed} changed and ${summary.unchanged} unchanged finding(s); ${summary.severityShifts} severity shift(s).`, 9, 'bold');
+        y += 2;
+        head = [["Category", "Change", "Before", "After", "Severity", "Changed Fields"]];
+        y = addTable(head, diffRows(comparison), y);
+    }
+
+    // --- PAGE STAMPS ---
+    // Every page gets the centered watermark required by the constitution's
+    // forensic rules and a footer tying it to the sealed case hash.
+    const pageCount = doc.getNumberOfPages();
+    const footer = `Hash ${shortHash(result.documentHash)} | Report ${reportId}`;
+    for (let page = 1; page <= pageCount; page++) {
+        doc.setPage(page);
+
+        doc.saveGraphicsState();
+        doc.setGState(new doc.GState({ opacity: 0.07 }));
+        doc.setFont('Roboto Mono', 'bold'); doc.setFontSize(64); doc.setTextColor(40);
+        // Rotated text is anchored at its start, so offset it to centre the diagonal.
+        const halfDiagonal = doc.getTextWidth(WATERMARK_TEXT) / 2 * Math.SQRT1_2;
+        doc.text(WATERMARK_TEXT, pageWidth / 2 - halfDiagonal, pageHeight / 2 + halfDiagonal, { angle: 45 });
+        doc.restoreGraphicsState();
+
+        doc.setDrawColor(200); doc.line(margin, pageHeight - 12, pageWidth - margin, pageHeight - 12);
+        doc.setFont('Source Code Pro', 'normal'); doc.setFontSize(7); doc.setTextColor(120);
+        doc.text(footer, margin, pageHeight - 8);
+        doc.text(`Page ${page} of ${pageCount}`, pageWidth - margin, pageHeight - 8, { align: 'right' });
+    }
+
+    // --- EMBEDDED REPORT ---
+    if (!reportBytes) return doc.output('blob');
+    const pdfBytes = await embedReportInPdf(doc.output('arraybuffer'), reportBytes);
+    return new Blob([pdfBytes], { type: 'application/pdf' });
 };
 
-const handleBinFile = async (file: File) => {
-    try {
-        self.postMessage({ type: 'progress', message: 'Reading file into memory...' });
-        const buffer = await file.arrayBuffer();
-        const uint8Array = new Uint8Array(buffer);
+interface DecodedReportFile {
+    result: AnalysisResult;
+    signature: ReportSignatureInfo;
+    // The signed .verum.bin bytes, re-embedded as-is so the original signature survives.
+    signedReport?: Uint8Array;
+    // Set when the file is itself a report PDF, which is shown unchanged.
+    reportPdf?: Blob;
+}
+
+// JSON reports carry no signature; they are validated against the JSON report schema instead.
+const decodeReportFile = async (file: File): Promise<DecodedReportFile> => {
+    const name = file.name.toLowerCase();
+    if (name.endsWith(JSON_REPORT_EXTENSION)) {
+        self.postMessage({ type: 'progress', message: 'Validating JSON report against the report schema...' });
+        return { result: decodeJsonReport(await file.text()), signature: { status: 'unsigned' } };
+    }
+    self.postMessage({ type: 'progress', message: 'Reading file into memory...' });
+    const buffer = await file.arrayBuffer();
+    let uint8Array = new Uint8Array(buffer);
+
+    if (name.endsWith('.pdf')) {
+        self.postMessage({ type: 'progress', message: 'Extracting embedded report from PDF...' });
+        const embedded = await extractEmbeddedReport(buffer);
+        if (!embedded) {
+            throw new Error('This PDF does not contain an embedded Verum Omnis report. Load its .verum.bin file instead.');
+        }
+        uint8Array = embedded;
+    }
 
-        self.postMessage({ type: 'progress', message: 'Decoding binary report...' });
-        const decodedResult: AnalysisResult = await decodeReport(uint8Array);
+    self.postMessage({ type: 'progress', message: 'Decoding binary report and verifying signature...' });
+    const decoded = await decodeSignedReport(uint8Array);
+    return { ...decoded, signedReport: uint8Array, reportPdf: name.endsWith('.pdf') ? file : undefined };
+};
 
-        self.postMessage({ type: 'progress', message: 'Constructing PDF from report data...' });
-        const pdfBlob = await generatePdfReport(decodedResult, decodedResult.fileName);
+const handleReportFile = async (file: File) => {
+    try {
+        const { result: decodedResult, signature, signedReport, reportPdf } = await decodeReportFile(file);
 
-        self.postMessage({ type: 'success', blob: pdfBlob, fileName: decodedResult.fileName, result: decodedResult });
+        let pdfBlob = reportPdf;
+        if (!pdfBlob) {
+            self.postMessage({ type: 'progress', message: 'Constructing PDF from report data...' });
+            // A JSON report carries no signature, so it is embedded unsigned rather than vouched for by this device's key.
+            pdfBlob = await generatePdfReport(decodedResult, decodedResult.fileName, signedReport ?? encodeReport(decodedResult));
+        }
+
+        self.postMessage({ type: 'success', blob: pdfBlob, fileName: decodedResult.fileName, result: decodedResult, signature });
 
     } catch (e: any) {
         console.error("Error in report worker:", e);
@@ -272,13 +386,29 @@ const handleBinFile = async (file: File) => {
     }
 };
 
-const handlePdfRequest = async (result: AnalysisResult, fileName: string) => {
+const FORMAT_LABELS: Record<ReportDocumentFormat, string> = { pdf: 'PDF', docx: 'Word', html: 'HTML' };
+
+// Export failures are reported as 'exportError' so the analysis stays on screen.
+// `sign` is false for results imported from a report this device did not
+// sign; their PDFs embed the report unsigned.
+const handleReportRequest = async (result: AnalysisResult, fileName: string, format: ReportDocumentFormat, comparison: ReportDiff | undefined, sign: boolean) => {
+    const label = FORMAT_LABELS[format];
     try {
-        const pdfBlob = await generatePdfReport(result, fileName);
-        self.postMessage({ type: 'pdfGenerated', blob: pdfBlob });
+        let blob: Blob;
+        if (format === 'pdf') {
+            self.postMessage({ type: 'exportProgress', message: `Laying out ${label} report...` });
+            const reportBytes = sign ? await encodeSignedReport(result) : encodeReport(result);
+            blob = await generatePdfReport(result, fileName, reportBytes, comparison);
+        } else {
+            self.postMessage({ type: 'exportProgress', message: 'Assembling report sections...' });
+            const outline = buildReportOutline(result, fileName);
+            self.postMessage({ type: 'exportProgress', message: `Rendering ${outline.sections.length} sections as ${label}...` });
+            blob = format === 'docx' ? await buildDocxReport(outline) : buildHtmlReport(outline);
+        }
+        self.postMessage({ type: 'reportGenerated', format, blob });
     } catch (e: any) {
-        console.error("Error generating PDF in worker:", e);
-        self.postMessage({ type: 'error', message: e.message || 'Failed to generate PDF.' });
+        console.error(`Error generating ${label} report in worker:`, e);
+        self.postMessage({ type: 'exportError', message: e.message || `Failed to generate the ${label} report.` });
     }
 };
 
@@ -288,9 +418,9 @@ self.onmessage = async (event: MessageEvent) => {
     const data = event.data;
 
     if (data instanceof File) {
-        await handleBinFile(data);
-    } else if (data && data.type === 'generatePdf') {
-        await handlePdfRequest(data.result, data.fileName);
+        await handleReportFile(data);
+    } else if (data && data.type === 'generateReport') {
+        await handleReportRequest(data.result, data.fileName, data.format, data.comparison, data.sign);
     } else {
         self.postMessage({ type: 'error', message: 'Unknown message type received by worker.' });
     }
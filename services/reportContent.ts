@@ -0,0 +1,213 @@
+
+import type { AnalysisResult } from '../types.ts';
+import { reportIdFor } from './verificationPayload.ts';
+import { describeReviewStatus, reviewLogRows, reviewMarker, reviewTarget } from './reviewService.ts';
+import { auditLogRows, describeAuditTrail } from './auditService.ts';
+
+// --- Report content ---
+// The sections of a human-readable report in a format-neutral outline, so the
+// DOCX and HTML exports say exactly the same thing. The PDF generator in
+// report.worker.ts lays out the same sections by hand.
+
+export const CITATION_STATUS_LABELS: Record<string, string> = { verified: 'VERIFIED', approximate: 'APPROXIMATE', unverifiable: 'UNVERIFIABLE' };
+export const CONSENSUS_CATEGORY_LABELS: Record<string, string> = { legalSubject: 'Legal subject', dishonestyFlag: 'Dishonesty flag', liability: 'Liability' };
+export const CONSENSUS_AGREEMENT_LABELS: Record<string, string> = { all: 'All models', majority: 'Majority', single: 'Single model' };
+
+export const REPORT_TITLE = 'DEEPSEEK VERUM OMNIS: INSTITUTIONAL REVIEW';
+
+// Table cells and paragraphs may contain '\n' line breaks.
+export type ReportBlock =
+  | { kind: 'paragraph'; text: string; bold?: boolean }
+  | { kind: 'list'; items: string[] }
+  | { kind: 'table'; head: string[]; rows: string[][] }
+  | { kind: 'callout'; title: string; text: string }
+  | { kind: 'seal'; lines: string[] };
+
+export interface ReportSection {
+  title: string;
+  blocks: ReportBlock[];
+}
+
+export interface ReportOutline {
+  title: string;
+  subtitle: string;
+  sections: ReportSection[];
+}
+
+export const jurisdictionLabel = (result: AnalysisResult) =>
+  result.jurisdiction ? `${result.jurisdiction.name} (${result.jurisdiction.code})` : 'Not chosen; inferred from the documents';
+
+export const citeLocation = (documentId: string, pageNumber: number) => documentId ? `${documentId}, Page ${pageNumber}` : `Page ${pageNumber}`;
+
+export const buildReportOutline = (result: AnalysisResult, fileName: string): ReportOutline => {
+  const citationsByTarget = new Map(result.citationChecks.map(c => [c.target, c]));
+  const citationLabel = (target: string) => {
+    const check = citationsByTarget.get(target);
+    return check ? (CITATION_STATUS_LABELS[check.status] || check.status) : '';
+  };
+  const citationTag = (target: string) => citationLabel(target) ? `\nCitation: ${citationLabel(target)}` : '';
+  const citeSources = (documentIds: string[]) => documentIds.length > 0 ? `\nSources: ${documentIds.join(', ')}` : '';
+
+  const sections: ReportSection[] = [];
+  const addSection = (title: string, ...blocks: ReportBlock[]) => sections.push({ title, blocks });
+
+  addSection('Executive Summary & Actionable Output',
+    { kind: 'paragraph', text: `Jurisdiction: ${jurisdictionLabel(result)}`, bold: true },
+    { kind: 'paragraph', text: describeReviewStatus(result) },
+    { kind: 'paragraph', text: result.actionableOutput.summary },
+    { kind: 'paragraph', text: `DISHONESTY SCORE: ${result.actionableOutput.dishonestyScore}%`, bold: true },
+    {
+      kind: 'table',
+      head: ['Jurisdiction', 'Recommended Action', 'Legal Basis'],
+      rows: result.actionableOutput.recommendedActions.map((a, i) => [a.jurisdiction, `${a.action}${reviewMarker(result, reviewTarget('recommendedAction', i))}`, a.legalBasis]),
+    },
+    {
+      kind: 'table',
+      head: ['Identified Top Liabilities', 'Severity'],
+      rows: result.actionableOutput.topLiabilities.map((l, i) => [`${l.name}${reviewMarker(result, reviewTarget('liability', i))}`, l.severity]),
+    },
+  );
+
+  if (result.documents.length > 0) {
+    addSection('Case Documents', {
+      kind: 'table',
+      head: ['ID', 'File', 'Type', result.hashAlgorithm || 'SHA-512'],
+      rows: result.documents.map(d => [d.documentId, d.fileName, d.mimeType, d.documentHash]),
+    });
+  }
+
+  addSection('Case Narrative', { kind: 'paragraph', text: result.caseNarrative });
+
+  if (result.timeline.length > 0) {
+    addSection('Timeline Reconstruction', {
+      kind: 'table',
+      head: ['Date', 'Event', 'Actors', 'Source', 'Confidence'],
+      rows: result.timeline.map((t, i) => [
+        t.endDate ? `${t.date} to ${t.endDate}` : t.date,
+        t.event,
+        t.actors.join(', '),
+        `${t.evidenceReference}\n${citeLocation(t.source.documentId, t.source.pageNumber)}${citationTag(`timeline[${i}]`)}`,
+        t.confidence,
+      ]),
+    });
+  }
+
+  addSection('Evidence Spotlight', ...result.evidenceSpotlight.map((item, i): ReportBlock => {
+    const citation = citationLabel(`evidenceSpotlight[${i}]`);
+    return {
+      kind: 'callout',
+      title: `★ ${item.title} (${citeLocation(item.documentId, item.pageNumber)})${citation ? ` [${citation}]` : ''}`,
+      text: `${item.significance}${reviewMarker(result, reviewTarget('spotlight', i))}`,
+    };
+  }));
+
+  addSection('Critical Legal Subjects', {
+    kind: 'table',
+    head: ['Subject', 'Key Points', 'Evidence', 'Severity'],
+    rows: result.criticalLegalSubjects.map((s, i) => [`${s.subject}${reviewMarker(result, reviewTarget('legalSubject', i))}`, s.keyPoints.join('\n'), `${s.evidence}${citeSources(s.documentIds)}${citationTag(`criticalLegalSubjects[${i}]`)}`, s.severity]),
+  });
+
+  addSection('Dishonesty Detection Matrix', {
+    kind: 'table',
+    head: ['Flag', 'Description', 'Evidence', 'Severity'],
+    rows: result.dishonestyDetectionMatrix.map((d, i) => [`${d.flag}${reviewMarker(result, reviewTarget('dishonestyFlag', i))}`, d.description, `${d.evidence}${citeSources(d.documentIds)}${citationTag(`dishonestyDetectionMatrix[${i}]`)}`, d.severity]),
+  });
+
+  if (result.contradictions.length > 0) {
+    addSection('Contradiction Engine', {
+      kind: 'table',
+      head: ['Claim A', 'Claim B', 'Layer', 'Explanation', 'Severity'],
+      rows: result.contradictions.map((c, i) => [
+        `${c.claimA}\n(${citeLocation(c.sourceA.documentId, c.sourceA.pageNumber)})${citationTag(`contradictions[${i}].sourceA`)}`,
+        `${c.claimB}\n(${citeLocation(c.sourceB.documentId, c.sourceB.pageNumber)})${citationTag(`contradictions[${i}].sourceB`)}`,
+        c.layer, c.explanation, c.severity,
+      ]),
+    });
+  }
+
+  if (result.consensus) {
+    addSection('Triple-AI Consensus Delta',
+      { kind: 'paragraph', text: `Dishonesty scores: ${result.consensus.scores.map(s => `${s.model}: ${s.dishonestyScore}`).join('; ')}` },
+      {
+        kind: 'table',
+        head: ['Finding', 'Category', 'Agreement', 'Reported By', 'Severities'],
+        rows: result.consensus.items.map(i => [i.finding, CONSENSUS_CATEGORY_LABELS[i.category] || i.category, CONSENSUS_AGREEMENT_LABELS[i.agreement] || i.agreement, i.models.join('\n'), i.severities.join(', ')]),
+      },
+    );
+  }
+
+  if (result.corrections.length > 0) {
+    addSection('Validation Corrections', {
+      kind: 'table',
+      head: ['Section', 'Location', 'Correction'],
+      rows: result.corrections.map(c => [c.section, c.path, c.message]),
+    });
+  }
+
+  const reviewLog = reviewLogRows(result);
+  if (reviewLog.length > 0) {
+    addSection('Analyst Review', {
+      kind: 'table',
+      head: ['Finding', 'Decision', 'Reviewer', 'Reviewed (UTC)', 'Reason'],
+      rows: reviewLog,
+    });
+  }
+
+  const flaggedCitations = result.citationChecks.filter(c => c.status !== 'verified');
+  if (flaggedCitations.length > 0) {
+    addSection('Citation Verification',
+      { kind: 'paragraph', text: `${result.citationChecks.length - flaggedCitations.length} of ${result.citationChecks.length} citations verified against the evidence text. The following could not be fully verified:` },
+      {
+        kind: 'table',
+        head: ['Cited By', 'Status', 'Detail'],
+        rows: flaggedCitations.map(c => [c.target, CITATION_STATUS_LABELS[c.status] || c.status, c.detail]),
+      },
+    );
+  }
+
+  addSection('Evidence Index', {
+    kind: 'table',
+    head: ['ID', 'Description', 'Document', 'Page', 'Citation'],
+    rows: result.evidenceIndex.map((e, i) => [e.id, e.description, e.documentId, String(e.pageNumber), citationLabel(`evidenceIndex[${i}]`)]),
+  });
+
+  addSection('Declarations & Seals',
+    { kind: 'paragraph', text: 'Pre-Analysis:', bold: true },
+    {
+      kind: 'list',
+      items: [
+        '[✓] Initiating extraction under Forensic-Chain Protocol.',
+        '[✓] Preservation flags engaged: WATERMARKS, SEALS, BEHAVIORAL MATRICES.',
+        '[✓] Scope: Entire file content and metadata.',
+      ],
+    },
+    { kind: 'paragraph', text: 'Post-Analysis:', bold: true },
+    {
+      kind: 'list',
+      items: [
+        '[✓] Extraction complete. Integrity seals verified.',
+        `[✓] ${describeAuditTrail(result)}`,
+        '[✓] Ready for redeployment: New case initialization unlocked.',
+      ],
+    },
+    {
+      kind: 'seal',
+      lines: [
+        result.postAnalysisDeclaration.seal,
+        `Report ID: ${reportIdFor(result)}`,
+        `Document ${result.hashAlgorithm || 'SHA-512'} Hash: ${result.documentHash}`,
+        ...(result.documentHashSha256 ? [`Document SHA-256 Hash: ${result.documentHashSha256}`] : []),
+      ],
+    },
+  );
+
+  const auditLog = auditLogRows(result);
+  if (auditLog.length > 0) {
+    addSection('Appendix: Audit Trail',
+      { kind: 'paragraph', text: 'Each entry is hash-chained to the one before it; the full hashes are in the .verum.bin report.' },
+      { kind: 'table', head: ['#', 'Time (UTC)', 'Event', 'Detail', 'Hash'], rows: auditLog },
+    );
+  }
+
+  return { title: REPORT_TITLE, subtitle: `Forensic Analysis Report: ${fileName}`, sections };
+};
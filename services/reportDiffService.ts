@@ -0,0 +1,183 @@
+
+import type { AnalysisResult, DiffCategory, DiffStatus, FindingDiff, ReportDiff, ReportDiffSide } from '../types.ts';
+import { FINDING_SIMILARITY_THRESHOLD, findingSimilarity, tokenizeFinding } from './findingMatcher.ts';
+import { decodeSignedReport } from './reportSerializer.ts';
+import { JSON_REPORT_EXTENSION, decodeJsonReport } from './jsonReportService.ts';
+
+// --- Report comparison ---
+// Analyses are re-run as new facts surface. Findings are matched across two
+// results by name, as in consensus mode, so a reworded finding counts as
+// changed rather than as one removed and one added.
+
+interface DiffCategoryDefinition {
+  label: string;
+  items: (result: AnalysisResult) => Record<string, any>[];
+  name: (item: Record<string, any>) => string;
+  // Fields compared between matched items, in display order.
+  fields: string[];
+  // Restricts matching, e.g. evidence items only match within one document.
+  canMatch?: (a: Record<string, any>, b: Record<string, any>) => boolean;
+}
+
+export const DIFF_CATEGORIES: Record<DiffCategory, DiffCategoryDefinition> = {
+  legalSubject: {
+    label: 'Legal subject',
+    items: result => result.criticalLegalSubjects,
+    name: item => item.subject,
+    fields: ['subject', 'severity', 'keyPoints', 'evidence', 'documentIds'],
+  },
+  dishonestyFlag: {
+    label: 'Dishonesty flag',
+    items: result => result.dishonestyDetectionMatrix,
+    name: item => item.flag,
+    fields: ['flag', 'severity', 'description', 'evidence', 'documentIds'],
+  },
+  liability: {
+    label: 'Top liability',
+    items: result => result.actionableOutput.topLiabilities,
+    name: item => item.name,
+    fields: ['name', 'severity'],
+  },
+  recommendedAction: {
+    label: 'Recommended action',
+    items: result => result.actionableOutput.recommendedActions,
+    name: item => item.action,
+    fields: ['action', 'jurisdiction', 'legalBasis'],
+  },
+  evidenceItem: {
+    label: 'Evidence item',
+    items: result => result.evidenceIndex,
+    name: item => item.description,
+    fields: ['description', 'pageNumber', 'documentReference'],
+    canMatch: (a, b) => a.documentId === b.documentId,
+  },
+};
+
+export const DIFF_STATUS_LABELS: Record<DiffStatus, string> = {
+  added: 'Added',
+  removed: 'Removed',
+  changed: 'Changed',
+  unchanged: 'Unchanged',
+};
+
+// Pairs each later item with its most similar unmatched earlier item.
+const matchItems = (
+  definition: DiffCategoryDefinition,
+  before: Record<string, any>[],
+  after: Record<string, any>[]
+): [Record<string, any> | null, Record<string, any> | null][] => {
+  const beforeTokens = before.map(item => tokenizeFinding(definition.name(item)));
+  const used = new Set<number>();
+  const pairs: [Record<string, any> | null, Record<string, any> | null][] = after.map(item => {
+    const tokens = tokenizeFinding(definition.name(item));
+    let best = -1;
+    let bestScore = FINDING_SIMILARITY_THRESHOLD;
+    before.forEach((candidate, i) => {
+      if (used.has(i) || (definition.canMatch && !definition.canMatch(candidate, item))) return;
+      const score = findingSimilarity(beforeTokens[i], tokens);
+      if (score >= bestScore) {
+        best = i;
+        bestScore = score;
+      }
+    });
+    if (best === -1) return [null, item];
+    used.add(best);
+    return [before[best], item];
+  });
+  before.forEach((item, i) => { if (!used.has(i)) pairs.push([item, null]); });
+  return pairs;
+};
+
+const describeSide = (result: AnalysisResult, label: string): ReportDiffSide => ({
+  label,
+  analyzedAt: result.analyzedAt,
+  models: result.models,
+  documentHash: result.documentHash,
+  dishonestyScore: result.actionableOutput.dishonestyScore,
+});
+
+// Compares two results, earlier first whatever order they are given in.
+export const compareResults = (a: AnalysisResult, aLabel: string, b: AnalysisResult, bLabel: string): ReportDiff => {
+  const [before, beforeLabel, after, afterLabel] = (a.analyzedAt || '') <= (b.analyzedAt || '')
+    ? [a, aLabel, b, bLabel] as const
+    : [b, bLabel, a, aLabel] as const;
+
+  const items = (Object.keys(DIFF_CATEGORIES) as DiffCategory[]).flatMap(category => {
+    const definition = DIFF_CATEGORIES[category];
+    return matchItems(definition, definition.items(before), definition.items(after)).map(([old, current]): FindingDiff => {
+      const changedFields = old && current
+        ? definition.fields.filter(field => JSON.stringify(old[field]) !== JSON.stringify(current[field]))
+        : [];
+      const status: DiffStatus = !old ? 'added' : !current ? 'removed' : changedFields.length > 0 ? 'changed' : 'unchanged';
+      return {
+        category,
+        status,
+        before: old ? definition.name(old) : '',
+        after: current ? definition.name(current) : '',
+        ...(old?.severity ? { severityBefore: old.severity } : {}),
+        ...(current?.severity ? { severityAfter: current.severity } : {}),
+        changedFields,
+      };
+    });
+  });
+
+  const hashesOf = (result: AnalysisResult) => result.documents.map(doc => doc.documentHash).sort().join();
+  return {
+    before: describeSide(before, beforeLabel),
+    after: describeSide(after, afterLabel),
+    sameEvidence: before.documentHash === after.documentHash || hashesOf(before) === hashesOf(after),
+    items,
+  };
+};
+
+export const summarizeDiff = (diff: ReportDiff) => {
+  const count = (status: DiffStatus) => diff.items.filter(item => item.status === status).length;
+  return {
+    added: count('added'),
+    removed: count('removed'),
+    changed: count('changed'),
+    unchanged: count('unchanged'),
+    severityShifts: diff.items.filter(item => item.severityBefore && item.severityAfter && item.severityBefore !== item.severityAfter).length,
+    scoreDelta: diff.after.dishonestyScore - diff.before.dishonestyScore,
+  };
+};
+
+// "High → Critical" for a shift, the single severity otherwise.
+export const describeSeverity = (item: FindingDiff): string => {
+  if (item.severityBefore && item.severityAfter && item.severityBefore !== item.severityAfter) {
+    return `${item.severityBefore} → ${item.severityAfter}`;
+  }
+  return item.severityAfter ?? item.severityBefore ?? '';
+};
+
+export const describeScoreDelta = (diff: ReportDiff): string => {
+  const delta = diff.after.dishonestyScore - diff.before.dishonestyScore;
+  return `Dishonesty score ${diff.before.dishonestyScore}% → ${diff.after.dishonestyScore}% (${delta > 0 ? '+' : ''}${delta})`;
+};
+
+// Rows for the report appendix, unchanged findings left out: category,
+// change, before, after, severity, changed fields.
+export const diffRows = (diff: ReportDiff): string[][] =>
+  diff.items
+    .filter(item => item.status !== 'unchanged')
+    .map(item => [
+      DIFF_CATEGORIES[item.category].label,
+      DIFF_STATUS_LABELS[item.status],
+      item.before,
+      item.after,
+      describeSeverity(item),
+      item.changedFields.join(', '),
+    ]);
+
+// Reads a saved report to compare against: a signed .verum.bin or a JSON
+// report. A .verum.bin whose signature does not verify is refused.
+export const decodeComparisonFile = async (file: File): Promise<AnalysisResult> => {
+  if (file.name.toLowerCase().endsWith(JSON_REPORT_EXTENSION)) {
+    return decodeJsonReport(await file.text());
+  }
+  const { result, signature } = await decodeSignedReport(new Uint8Array(await file.arrayBuffer()));
+  if (signature.status === 'tampered') {
+    throw new Error(`The signature of '${file.name}' does not match its contents.`);
+  }
+  return result;
+};
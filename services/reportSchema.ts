@@ -0,0 +1,291 @@
+
+// --- Report schema ---
+// The one canonical definition of the .verum.bin format, shared by the
+// serializer and the report worker. Every report records the schema version
+// it was written with in `protocol_version`. Decoding upgrades older payloads
+// one version at a time through REPORT_MIGRATIONS until they match the
+// current schema, and refuses reports written by a newer app.
+//
+// When changing the schema: add fields with new numbers (never reuse or
+// renumber), bump REPORT_SCHEMA_VERSION, and add a migration from the previous
+// version if old reports need their data reshaped.
+
+// Version history:
+//   5  single-document reports (the original format; also written, with extra
+//      fields, by builds before versions were checked)
+//   6  multi-document cases: every finding cites a document in `documents`
+//   7  `models` records which models produced the analysis, and
+//      `analysis_timestamp_utc` is when it ran rather than when it was saved
+//   8  `jurisdiction` records the jurisdiction the user chose for the analysis
+//   9  `reviews` records analyst decisions on individual findings
+//  10  `audit_log` carries the case's hash-chained audit trail
+export const REPORT_SCHEMA_VERSION = 10;
+const OLDEST_READABLE_VERSION = 5;
+
+// Document ID given to the evidence of a single-document report on upgrade.
+const LEGACY_DOCUMENT_ID = 'D-01';
+
+export const REPORT_PROTO = `
+syntax = "proto3";
+
+package verumomnis;
+
+message EvidenceIndexItem {
+  string id = 1;
+  string description = 2;
+  uint32 page_number = 3;
+  string document_reference = 4;
+  string document_id = 5;
+}
+
+message EvidenceSpotlightItem {
+  string title = 1;
+  string significance = 2;
+  string evidence_reference = 3;
+  uint32 page_number = 4;
+  string document_id = 5;
+}
+
+message LegalSubjectFinding {
+  string subject = 1;
+  repeated string key_points = 2;
+  string evidence = 3;
+  string severity = 4;
+  repeated string document_ids = 5;
+}
+
+message DishonestyFinding {
+  string flag = 1;
+  string description = 2;
+  string evidence = 3;
+  string severity = 4;
+  repeated string document_ids = 5;
+}
+
+message EvidenceSource {
+  string document_id = 1;
+  uint32 page_number = 2;
+}
+
+message ContradictionFinding {
+  string claim_a = 1;
+  EvidenceSource source_a = 2;
+  string claim_b = 3;
+  EvidenceSource source_b = 4;
+  string layer = 5;
+  string severity = 6;
+  string explanation = 7;
+}
+
+message TimelineEvent {
+  string date = 1;
+  string end_date = 2;
+  string event = 3;
+  repeated string actors = 4;
+  string evidence_reference = 5;
+  EvidenceSource source = 6;
+  string confidence = 7;
+}
+
+message RecommendedAction {
+  string jurisdiction = 1;
+  string action = 2;
+  string legal_basis = 3;
+}
+
+message TopLiability {
+    string name = 1;
+    string severity = 2;
+}
+
+message ConsensusItem {
+  string category = 1;
+  string finding = 2;
+  string agreement = 3;
+  repeated string models = 4;
+  repeated string severities = 5;
+}
+
+message ConsensusScore {
+  string model = 1;
+  uint32 dishonesty_score = 2;
+}
+
+message ConsensusReport {
+  repeated string models = 1;
+  repeated ConsensusItem items = 2;
+  repeated ConsensusScore scores = 3;
+}
+
+message ValidationCorrection {
+  string section = 1;
+  string path = 2;
+  string message = 3;
+}
+
+message CitationCheck {
+  string target = 1;
+  string status = 2;
+  string detail = 3;
+}
+
+message FindingReview {
+  string target = 1;
+  string decision = 2;
+  string reviewer = 3;
+  string reviewed_at = 4;
+  string reason = 5;
+  string original = 6;
+}
+
+message AuditEntry {
+  uint32 sequence = 1;
+  string timestamp = 2;
+  string event = 3;
+  string detail = 4;
+  string previous_hash = 5;
+  string hash = 6;
+}
+
+message Jurisdiction {
+  string code = 1;
+  string name = 2;
+}
+
+message CaseDocument {
+  string document_id = 1;
+  string file_name = 2;
+  string mime_type = 3;
+  uint64 size_bytes = 4;
+  string document_hash = 5;
+  string hash_algorithm = 6;
+  string document_hash_sha256 = 7;
+}
+
+message AnalysisResult {
+  uint32 protocol_version = 1;
+  string analysis_timestamp_utc = 2;
+  string document_hash = 3;
+  string file_name = 4;
+  string case_narrative = 5;
+  
+  repeated EvidenceSpotlightItem evidence_spotlight = 6;
+  repeated EvidenceIndexItem evidence_index = 7;
+
+  message PreAnalysisChecks {
+    bool extraction_protocol = 1;
+    bool preservation_flags = 2;
+    bool scope = 3;
+  }
+  PreAnalysisChecks pre_analysis_checks = 8;
+  
+  repeated LegalSubjectFinding critical_legal_subjects = 9;
+  repeated DishonestyFinding dishonesty_detection_matrix = 10;
+  
+  message ActionableOutput {
+    repeated TopLiability top_liabilities = 1;
+    uint32 dishonesty_score = 2;
+    repeated RecommendedAction recommended_actions = 3;
+    string summary = 4;
+  }
+  ActionableOutput actionable_output = 11;
+  
+  message PostAnalysisDeclaration {
+    bool extraction_complete = 1;
+    bool integrity_seals_verified = 2;
+    string logs = 3;
+    string seal = 4;
+  }
+  PostAnalysisDeclaration post_analysis_declaration = 12;
+
+  string hash_algorithm = 13;
+  string document_hash_sha256 = 14;
+  repeated CaseDocument documents = 15;
+  repeated ContradictionFinding contradictions = 16;
+  repeated TimelineEvent timeline = 17;
+  ConsensusReport consensus = 18;
+  repeated ValidationCorrection corrections = 19;
+  repeated CitationCheck citation_checks = 20;
+  repeated string models = 21;
+  Jurisdiction jurisdiction = 22;
+  repeated FindingReview reviews = 23;
+  repeated AuditEntry audit_log = 24;
+}
+
+message SignedReport {
+  bytes payload = 1;
+  bytes signature = 2;
+  bytes public_key = 3;
+  string key_id = 4;
+  string algorithm = 5;
+}
+`;
+
+// Payloads are the snake_case objects produced by protobuf's toObject with
+// `arrays: true`, so repeated fields are always present but nested messages
+// may be missing.
+type ReportPayload = Record<string, any>;
+type ReportMigration = (payload: ReportPayload) => ReportPayload;
+
+// v5 -> v6: single-document reports carry the evidence hash at the top level
+// and cite pages without a document ID. They become a one-document case.
+const upgradeSingleDocumentReport: ReportMigration = (payload) => {
+    if (payload.documents.length > 0) return payload;
+    const withDocument = (source: any) => source && { ...source, document_id: source.document_id || LEGACY_DOCUMENT_ID };
+    const withDocumentIds = (item: any) => ({ ...item, document_ids: item.document_ids.length > 0 ? item.document_ids : [LEGACY_DOCUMENT_ID] });
+    return {
+        ...payload,
+        documents: [{
+            document_id: LEGACY_DOCUMENT_ID,
+            file_name: payload.file_name,
+            mime_type: '',
+            size_bytes: 0,
+            document_hash: payload.document_hash,
+            hash_algorithm: payload.hash_algorithm,
+            document_hash_sha256: payload.document_hash_sha256,
+        }],
+        evidence_index: payload.evidence_index.map(withDocument),
+        evidence_spotlight: payload.evidence_spotlight.map(withDocument),
+        critical_legal_subjects: payload.critical_legal_subjects.map(withDocumentIds),
+        dishonesty_detection_matrix: payload.dishonesty_detection_matrix.map(withDocumentIds),
+        contradictions: payload.contradictions.map((item: any) => ({ ...item, source_a: withDocument(item.source_a), source_b: withDocument(item.source_b) })),
+        timeline: payload.timeline.map((item: any) => ({ ...item, source: withDocument(item.source) })),
+    };
+};
+
+// REPORT_MIGRATIONS[v] upgrades a version v payload to version v + 1.
+const REPORT_MIGRATIONS: Record<number, ReportMigration> = {
+    5: upgradeSingleDocumentReport,
+    // v6 -> v7: older reports do not name their models, which decode as an empty list.
+    6: (payload) => payload,
+    // v7 -> v8: older reports were analysed without a chosen jurisdiction and leave it unset.
+    7: (payload) => payload,
+    // v8 -> v9: older reports have no analyst reviews, which decode as an empty list.
+    8: (payload) => payload,
+    // v9 -> v10: older reports have no audit trail, which decodes as an empty list.
+    9: (payload) => payload,
+};
+
+// Checks the payload's schema version and upgrades it to REPORT_SCHEMA_VERSION.
+// Reports written before versions were recorded decode as version 0 and are
+// treated as the oldest readable version.
+export const migrateReportPayload = (payload: ReportPayload): ReportPayload => {
+    let version = payload.protocol_version || OLDEST_READABLE_VERSION;
+    if (version > REPORT_SCHEMA_VERSION) {
+        throw new Error(`This report was created by a newer version of Verum Omnis (report format v${version}; this app reads up to v${REPORT_SCHEMA_VERSION}). Update the app to open it.`);
+    }
+    if (version < OLDEST_READABLE_VERSION) {
+        throw new Error(`This report uses format v${version}, which is too old to be read (the oldest supported format is v${OLDEST_READABLE_VERSION}).`);
+    }
+
+    let migrated = payload;
+    while (version < REPORT_SCHEMA_VERSION) {
+        const migrate = REPORT_MIGRATIONS[version];
+        if (!migrate) {
+            throw new Error(`No migration from report format v${version} to v${version + 1}.`);
+        }
+        migrated = migrate(migrated);
+        version++;
+    }
+    return { ...migrated, protocol_version: REPORT_SCHEMA_VERSION };
+};
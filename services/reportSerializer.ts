@@ -1,122 +1,72 @@
 
-import type { AnalysisResult } from '../types.ts';
+import protobuf from 'protobufjs';
+import type { AnalysisResult, ReportSignatureInfo, SignatureStatus } from '../types.ts';
+import { SIGNATURE_ALGORITHM, signPayload, verifyPayload, computeKeyId, isLocalSigningKey } from './signingService.ts';
+import { REPORT_PROTO, REPORT_SCHEMA_VERSION, migrateReportPayload } from './reportSchema.ts';
 
-// This relies on protobuf.js being loaded from a script tag in index.html
-declare const protobuf: any;
-
-const PROTOCOL_VERSION = 5; // Align with "V5 Protocol" used elsewhere
-
-const protoDefinition = `
-syntax = "proto3";
-
-package verumomnis;
-
-message EvidenceIndexItem {
-  string id = 1;
-  string description = 2;
-  uint32 page_number = 3;
-  string document_reference = 4;
-}
-
-message EvidenceSpotlightItem {
-  string title = 1;
-  string significance = 2;
-  string evidence_reference = 3;
-  uint32 page_number = 4;
-}
-
-message LegalSubjectFinding {
-  string subject = 1;
-  repeated string key_points = 2;
-  string evidence = 3;
-  string severity = 4;
-}
-
-message DishonestyFinding {
-  string flag = 1;
-  string description = 2;
-  string evidence = 3;
-  string severity = 4;
-}
-
-message RecommendedAction {
-  string jurisdiction = 1;
-  string action = 2;
-  string legal_basis = 3;
-}
-
-message TopLiability {
-    string name = 1;
-    string severity = 2;
-}
-
-message AnalysisResult {
-  uint32 protocol_version = 1;
-  string analysis_timestamp_utc = 2;
-  string document_hash = 3;
-  string file_name = 4;
-  string case_narrative = 5;
-  
-  repeated EvidenceSpotlightItem evidence_spotlight = 6;
-  repeated EvidenceIndexItem evidence_index = 7;
-
-  message PreAnalysisChecks {
-    bool extraction_protocol = 1;
-    bool preservation_flags = 2;
-    bool scope = 3;
-  }
-  PreAnalysisChecks pre_analysis_checks = 8;
-  
-  repeated LegalSubjectFinding critical_legal_subjects = 9;
-  repeated DishonestyFinding dishonesty_detection_matrix = 10;
-  
-  message ActionableOutput {
-    repeated TopLiability top_liabilities = 1;
-    uint32 dishonesty_score = 2;
-    repeated RecommendedAction recommended_actions = 3;
-    string summary = 4;
-  }
-  ActionableOutput actionable_output = 11;
-  
-  message PostAnalysisDeclaration {
-    bool extraction_complete = 1;
-    bool integrity_seals_verified = 2;
-    string logs = 3;
-    string seal = 4;
-  }
-  PostAnalysisDeclaration post_analysis_declaration = 12;
-}
-`;
+// Signed reports start with this magic so they can be told apart from
+// legacy .verum.bin files, which are a bare AnalysisResult message.
+const ENVELOPE_MAGIC = new TextEncoder().encode('VOSIGNED');
 
 let ReportMessage: any = null;
+let EnvelopeMessage: any = null;
 
 const initialize = () => {
-    if (ReportMessage || typeof protobuf === 'undefined') {
+    if (ReportMessage) {
         return;
     }
-    const root = protobuf.parse(protoDefinition).root;
+    // keepCase preserves the snake_case field names used by the payload mappers below.
+    const root = protobuf.parse(REPORT_PROTO, { keepCase: true }).root;
     ReportMessage = root.lookupType("verumomnis.AnalysisResult");
+    EnvelopeMessage = root.lookupType("verumomnis.SignedReport");
+};
+
+const hasEnvelopeMagic = (buffer: Uint8Array): boolean => {
+    if (buffer.length < ENVELOPE_MAGIC.length) return false;
+    return ENVELOPE_MAGIC.every((byte, i) => buffer[i] === byte);
 };
 
 // Converts camelCase JS object to a snake_case payload suitable for protobuf.
 const toProtoPayload = (result: AnalysisResult): any => {
     const payload: any = {
-        protocol_version: PROTOCOL_VERSION,
-        analysis_timestamp_utc: new Date().toISOString(),
+        protocol_version: REPORT_SCHEMA_VERSION,
+        analysis_timestamp_utc: result.analyzedAt || new Date().toISOString(),
         document_hash: result.documentHash,
+        hash_algorithm: result.hashAlgorithm,
+        document_hash_sha256: result.documentHashSha256,
         file_name: result.fileName,
+        documents: result.documents.map(doc => ({
+            document_id: doc.documentId,
+            file_name: doc.fileName,
+            mime_type: doc.mimeType,
+            size_bytes: doc.sizeBytes,
+            document_hash: doc.documentHash,
+            hash_algorithm: doc.hashAlgorithm,
+            document_hash_sha256: doc.documentHashSha256,
+        })),
         case_narrative: result.caseNarrative,
+        timeline: result.timeline.map(item => ({
+            date: item.date,
+            end_date: item.endDate,
+            event: item.event,
+            actors: item.actors,
+            evidence_reference: item.evidenceReference,
+            source: { document_id: item.source.documentId, page_number: item.source.pageNumber },
+            confidence: item.confidence,
+        })),
         evidence_spotlight: result.evidenceSpotlight.map(item => ({
             title: item.title,
             significance: item.significance,
             evidence_reference: item.evidenceReference,
             page_number: item.pageNumber,
+            document_id: item.documentId,
         })),
         evidence_index: result.evidenceIndex.map(item => ({
             id: item.id,
             description: item.description,
             page_number: item.pageNumber,
             document_reference: item.documentReference,
+            document_id: item.documentId,
         })),
         pre_analysis_checks: result.preAnalysisChecks ? {
             extraction_protocol: result.preAnalysisChecks.extractionProtocol,
@@ -128,12 +78,23 @@ const toProtoPayload = (result: AnalysisResult): any => {
             key_points: item.keyPoints,
             evidence: item.evidence,
             severity: item.severity,
+            document_ids: item.documentIds,
         })),
         dishonesty_detection_matrix: result.dishonestyDetectionMatrix.map(item => ({
             flag: item.flag,
             description: item.description,
             evidence: item.evidence,
             severity: item.severity,
+            document_ids: item.documentIds,
+        })),
+        contradictions: result.contradictions.map(item => ({
+            claim_a: item.claimA,
+            source_a: { document_id: item.sourceA.documentId, page_number: item.sourceA.pageNumber },
+            claim_b: item.claimB,
+            source_b: { document_id: item.sourceB.documentId, page_number: item.sourceB.pageNumber },
+            layer: item.layer,
+            severity: item.severity,
+            explanation: item.explanation,
         })),
         actionable_output: result.actionableOutput ? {
             top_liabilities: result.actionableOutput.topLiabilities,
@@ -151,69 +112,184 @@ const toProtoPayload = (result: AnalysisResult): any => {
             logs: result.postAnalysisDeclaration.logs,
             seal: result.postAnalysisDeclaration.seal,
         } : undefined,
+        corrections: result.corrections,
+        citation_checks: result.citationChecks,
+        models: result.models,
+        consensus: result.consensus ? {
+            models: result.consensus.models,
+            items: result.consensus.items,
+            scores: result.consensus.scores.map(item => ({
+                model: item.model,
+                dishonesty_score: item.dishonestyScore,
+            })),
+        } : undefined,
+        reviews: (result.reviews ?? []).map(review => ({
+            target: review.target,
+            decision: review.decision,
+            reviewer: review.reviewer,
+            reviewed_at: review.reviewedAt,
+            reason: review.reason,
+            original: review.original,
+        })),
+        audit_log: (result.auditLog ?? []).map(entry => ({
+            sequence: entry.sequence,
+            timestamp: entry.timestamp,
+            event: entry.event,
+            detail: entry.detail,
+            previous_hash: entry.previousHash,
+            hash: entry.hash,
+        })),
+        jurisdiction: result.jurisdiction ? {
+            code: result.jurisdiction.code,
+            name: result.jurisdiction.name,
+        } : undefined,
     };
 
     return payload;
 };
 
-// Converts snake_case payload from protobuf to a camelCase JS object.
+// Converts snake_case payload from protobuf to a camelCase JS object. The
+// payload has already been migrated to the current schema, but nested
+// messages the writer left unset decode as null.
 const fromProtoPayload = (payload: any): AnalysisResult => {
+    const preAnalysisChecks = payload.pre_analysis_checks ?? {};
+    const actionableOutput = payload.actionable_output ?? { top_liabilities: [], recommended_actions: [] };
+    const postAnalysisDeclaration = payload.post_analysis_declaration ?? {};
     return {
         documentHash: payload.document_hash,
+        hashAlgorithm: payload.hash_algorithm || '',
+        documentHashSha256: payload.document_hash_sha256 || '',
         fileName: payload.file_name,
+        documents: payload.documents.map((doc: any) => ({
+            documentId: doc.document_id,
+            fileName: doc.file_name,
+            mimeType: doc.mime_type,
+            sizeBytes: Number(doc.size_bytes || 0),
+            documentHash: doc.document_hash,
+            hashAlgorithm: doc.hash_algorithm,
+            documentHashSha256: doc.document_hash_sha256,
+        })),
         caseNarrative: payload.case_narrative,
+        timeline: payload.timeline.map((item: any) => ({
+            date: item.date,
+            endDate: item.end_date || undefined,
+            event: item.event,
+            actors: item.actors,
+            evidenceReference: item.evidence_reference,
+            source: { documentId: item.source?.document_id || '', pageNumber: item.source?.page_number || 0 },
+            confidence: item.confidence,
+        })),
         evidenceSpotlight: payload.evidence_spotlight.map((item: any) => ({
             title: item.title,
             significance: item.significance,
             evidenceReference: item.evidence_reference,
             pageNumber: item.page_number,
+            documentId: item.document_id || '',
         })),
         evidenceIndex: payload.evidence_index.map((item: any) => ({
             id: item.id,
             description: item.description,
             pageNumber: item.page_number,
             documentReference: item.document_reference,
+            documentId: item.document_id || '',
         })),
         preAnalysisChecks: {
-            extractionProtocol: payload.pre_analysis_checks.extraction_protocol,
-            preservationFlags: payload.pre_analysis_checks.preservation_flags,
-            scope: payload.pre_analysis_checks.scope,
+            extractionProtocol: Boolean(preAnalysisChecks.extraction_protocol),
+            preservationFlags: Boolean(preAnalysisChecks.preservation_flags),
+            scope: Boolean(preAnalysisChecks.scope),
         },
         criticalLegalSubjects: payload.critical_legal_subjects.map((item: any) => ({
             subject: item.subject,
             keyPoints: item.key_points,
             evidence: item.evidence,
             severity: item.severity,
+            documentIds: item.document_ids,
         })),
         dishonestyDetectionMatrix: payload.dishonesty_detection_matrix.map((item: any) => ({
             flag: item.flag,
             description: item.description,
             evidence: item.evidence,
             severity: item.severity,
+            documentIds: item.document_ids,
+        })),
+        contradictions: payload.contradictions.map((item: any) => ({
+            claimA: item.claim_a,
+            sourceA: { documentId: item.source_a?.document_id || '', pageNumber: item.source_a?.page_number || 0 },
+            claimB: item.claim_b,
+            sourceB: { documentId: item.source_b?.document_id || '', pageNumber: item.source_b?.page_number || 0 },
+            layer: item.layer,
+            severity: item.severity,
+            explanation: item.explanation,
         })),
         actionableOutput: {
-            topLiabilities: payload.actionable_output.top_liabilities,
-            dishonestyScore: payload.actionable_output.dishonesty_score,
-            recommendedActions: payload.actionable_output.recommended_actions.map((item: any) => ({
+            topLiabilities: actionableOutput.top_liabilities,
+            dishonestyScore: actionableOutput.dishonesty_score || 0,
+            recommendedActions: actionableOutput.recommended_actions.map((item: any) => ({
                 jurisdiction: item.jurisdiction,
                 action: item.action,
                 legalBasis: item.legal_basis,
             })),
-            summary: payload.actionable_output.summary,
+            summary: actionableOutput.summary || '',
         },
         postAnalysisDeclaration: {
-            extractionComplete: payload.post_analysis_declaration.extraction_complete,
-            integritySealsVerified: payload.post_analysis_declaration.integrity_seals_verified,
-            logs: payload.post_analysis_declaration.logs,
-            seal: payload.post_analysis_declaration.seal,
+            extractionComplete: Boolean(postAnalysisDeclaration.extraction_complete),
+            integritySealsVerified: Boolean(postAnalysisDeclaration.integrity_seals_verified),
+            logs: postAnalysisDeclaration.logs || '',
+            seal: postAnalysisDeclaration.seal || '',
         },
+        corrections: payload.corrections.map((item: any) => ({
+            section: item.section,
+            path: item.path,
+            message: item.message,
+        })),
+        citationChecks: payload.citation_checks.map((item: any) => ({
+            target: item.target,
+            status: item.status,
+            detail: item.detail,
+        })),
+        consensus: payload.consensus ? {
+            models: payload.consensus.models,
+            items: payload.consensus.items.map((item: any) => ({
+                category: item.category,
+                finding: item.finding,
+                agreement: item.agreement,
+                models: item.models,
+                severities: item.severities,
+            })),
+            scores: payload.consensus.scores.map((item: any) => ({
+                model: item.model,
+                dishonestyScore: item.dishonesty_score,
+            })),
+        } : undefined,
+        reviews: payload.reviews.map((review: any) => ({
+            target: review.target,
+            decision: review.decision,
+            reviewer: review.reviewer,
+            reviewedAt: review.reviewed_at,
+            reason: review.reason,
+            original: review.original,
+        })),
+        auditLog: payload.audit_log.map((entry: any) => ({
+            sequence: entry.sequence,
+            timestamp: entry.timestamp,
+            event: entry.event,
+            detail: entry.detail,
+            previousHash: entry.previous_hash,
+            hash: entry.hash,
+        })),
+        jurisdiction: payload.jurisdiction ? {
+            code: payload.jurisdiction.code,
+            name: payload.jurisdiction.name,
+        } : undefined,
+        analyzedAt: payload.analysis_timestamp_utc,
+        models: payload.models,
     };
 };
 
 export const encodeReport = (result: AnalysisResult): Uint8Array | null => {
     initialize();
     if (!ReportMessage) {
-        console.error("Protobuf message type not initialized. Ensure protobuf.js is loaded.");
+        console.error("Protobuf message type not initialized.");
         return null;
     }
 
@@ -234,7 +310,7 @@ export const decodeReport = (buffer: Uint8Array): Promise<AnalysisResult> => {
     return new Promise((resolve, reject) => {
         initialize();
         if (!ReportMessage) {
-            const errorMsg = "Protobuf message type not initialized. Ensure protobuf.js is loaded.";
+            const errorMsg = "Protobuf message type not initialized.";
             console.error(errorMsg);
             return reject(new Error(errorMsg));
         }
@@ -245,8 +321,10 @@ export const decodeReport = (buffer: Uint8Array): Promise<AnalysisResult> => {
                 longs: String,
                 enums: String,
                 bytes: String,
+                arrays: true,
+                defaults: true,
             });
-            const result = fromProtoPayload(object);
+            const result = fromProtoPayload(migrateReportPayload(object));
             resolve(result);
         } catch (e: any) {
             console.error("Failed to decode report:", e);
@@ -255,12 +333,78 @@ export const decodeReport = (buffer: Uint8Array): Promise<AnalysisResult> => {
     });
 };
 
+// Wraps the encoded report in a signed envelope using this device's signing key.
+export const encodeSignedReport = async (result: AnalysisResult): Promise<Uint8Array | null> => {
+    const payload = encodeReport(result);
+    if (!payload || !EnvelopeMessage) return null;
+
+    const { signature, publicKey, keyId, algorithm } = await signPayload(payload);
+    const envelope = EnvelopeMessage.encode(EnvelopeMessage.create({
+        payload,
+        signature,
+        public_key: publicKey,
+        key_id: keyId,
+        algorithm,
+    })).finish();
+
+    const buffer = new Uint8Array(ENVELOPE_MAGIC.length + envelope.length);
+    buffer.set(ENVELOPE_MAGIC, 0);
+    buffer.set(envelope, ENVELOPE_MAGIC.length);
+    return buffer;
+};
+
+// Decodes either a signed envelope or a legacy bare report and reports whether
+// the payload signature holds. Anyone can re-sign an edited report with a key
+// of their own, so only signatures made with this device's key are 'verified'.
+// The signature is checked over the raw payload bytes before they are decoded.
+export const decodeSignedReport = async (buffer: Uint8Array): Promise<{ result: AnalysisResult; signature: ReportSignatureInfo }> => {
+    initialize();
+    if (!hasEnvelopeMagic(buffer)) {
+        return { result: await decodeReport(buffer), signature: { status: 'unsigned' } };
+    }
+    if (!EnvelopeMessage) {
+        throw new Error("Protobuf message type not initialized.");
+    }
+
+    const envelope = EnvelopeMessage.decode(buffer.subarray(ENVELOPE_MAGIC.length));
+    if (envelope.algorithm !== SIGNATURE_ALGORITHM) {
+        throw new Error(`This report is signed with an unsupported algorithm ('${envelope.algorithm}').`);
+    }
+    const isValid = await verifyPayload(envelope.payload, envelope.signature, envelope.public_key);
+    // A key_id that does not match the embedded key means the envelope itself was edited.
+    const keyIdMatches = (await computeKeyId(envelope.public_key)) === envelope.key_id;
+    let status: SignatureStatus = 'tampered';
+    if (isValid && keyIdMatches) {
+        status = await isLocalSigningKey(envelope.public_key) ? 'verified' : 'untrusted';
+    }
+
+    let result: AnalysisResult;
+    try {
+        result = await decodeReport(envelope.payload);
+    } catch (e) {
+        if (status === 'tampered') {
+            throw new Error('This report has been tampered with: its signature does not match and its contents cannot be read.');
+        }
+        throw e;
+    }
+
+    return {
+        result,
+        signature: {
+            status,
+            keyId: envelope.key_id,
+            algorithm: envelope.algorithm,
+        },
+    };
+};
+
 // Helper to convert Uint8Array to a Base64 string for clipboard operations.
+// Uses the global btoa so it also works inside the report worker.
 export const toBase64 = (buffer: Uint8Array): string => {
     let binary = '';
     const len = buffer.byteLength;
     for (let i = 0; i < len; i++) {
         binary += String.fromCharCode(buffer[i]);
     }
-    return window.btoa(binary);
+    return btoa(binary);
 }
@@ -0,0 +1,253 @@
+
+import type { AnalysisResult, FindingReview, ReviewDecision } from '../types.ts';
+import { recordAuditEvent } from './auditService.ts';
+
+// --- Analyst review ---
+// The constitution's human_authority principle: the model proposes and an
+// analyst decides. Reviews address findings by their path in the result, so
+// they survive serialization unchanged. Rejected findings stay in the result,
+// marked rather than deleted, so reports show what was set aside and why.
+
+const REVIEWER_STORAGE_KEY = 'verum-omnis.reviewer';
+
+export type ReviewCategory = 'legalSubject' | 'dishonestyFlag' | 'liability' | 'spotlight' | 'recommendedAction';
+
+// A field an analyst can amend. Fields with options are chosen from a list.
+export interface ReviewField {
+  key: string;
+  label: string;
+  multiline?: boolean;
+  options?: string[];
+}
+
+interface ReviewCategoryDefinition {
+  label: string;
+  // Path of the category's list within the result, e.g. 'actionableOutput.topLiabilities'.
+  path: string;
+  fields: ReviewField[];
+  items: (result: AnalysisResult) => Record<string, any>[];
+  withItems: (result: AnalysisResult, items: any[]) => AnalysisResult;
+  title: (item: Record<string, any>) => string;
+}
+
+const SEVERITIES = ['Low', 'Medium', 'High', 'Critical'];
+
+export const REVIEW_CATEGORIES: Record<ReviewCategory, ReviewCategoryDefinition> = {
+  legalSubject: {
+    label: 'Legal subject',
+    path: 'criticalLegalSubjects',
+    fields: [
+      { key: 'subject', label: 'Subject' },
+      { key: 'evidence', label: 'Evidence', multiline: true },
+      { key: 'severity', label: 'Severity', options: SEVERITIES },
+    ],
+    items: result => result.criticalLegalSubjects,
+    withItems: (result, items) => ({ ...result, criticalLegalSubjects: items }),
+    title: item => item.subject,
+  },
+  dishonestyFlag: {
+    label: 'Dishonesty flag',
+    path: 'dishonestyDetectionMatrix',
+    fields: [
+      { key: 'flag', label: 'Flag' },
+      { key: 'description', label: 'Description', multiline: true },
+      { key: 'evidence', label: 'Evidence', multiline: true },
+      { key: 'severity', label: 'Severity', options: SEVERITIES },
+    ],
+    items: result => result.dishonestyDetectionMatrix,
+    withItems: (result, items) => ({ ...result, dishonestyDetectionMatrix: items }),
+    title: item => item.flag,
+  },
+  liability: {
+    label: 'Top liability',
+    path: 'actionableOutput.topLiabilities',
+    fields: [
+      { key: 'name', label: 'Liability' },
+      { key: 'severity', label: 'Severity', options: ['High', 'Critical'] },
+    ],
+    items: result => result.actionableOutput.topLiabilities,
+    withItems: (result, items) => ({ ...result, actionableOutput: { ...result.actionableOutput, topLiabilities: items } }),
+    title: item => item.name,
+  },
+  spotlight: {
+    label: 'Spotlight item',
+    path: 'evidenceSpotlight',
+    fields: [
+      { key: 'title', label: 'Title' },
+      { key: 'significance', label: 'Significance', multiline: true },
+    ],
+    items: result => result.evidenceSpotlight,
+    withItems: (result, items) => ({ ...result, evidenceSpotlight: items }),
+    title: item => item.title,
+  },
+  recommendedAction: {
+    label: 'Recommended action',
+    path: 'actionableOutput.recommendedActions',
+    fields: [
+      { key: 'jurisdiction', label: 'Jurisdiction' },
+      { key: 'action', label: 'Action', multiline: true },
+      { key: 'legalBasis', label: 'Legal basis' },
+    ],
+    items: result => result.actionableOutput.recommendedActions,
+    withItems: (result, items) => ({ ...result, actionableOutput: { ...result.actionableOutput, recommendedActions: items } }),
+    title: item => item.action,
+  },
+};
+
+export const REVIEW_DECISION_LABELS: Record<ReviewDecision, string> = {
+  accepted: 'Analyst-confirmed',
+  amended: 'Analyst-amended',
+  rejected: 'Rejected by analyst',
+};
+
+export const AI_GENERATED_LABEL = 'AI-generated, not reviewed';
+
+export interface ReviewItem {
+  target: string;
+  category: ReviewCategory;
+  title: string;
+  severity?: string;
+  review?: FindingReview;
+}
+
+export const reviewTarget = (category: ReviewCategory, index: number) => `${REVIEW_CATEGORIES[category].path}[${index}]`;
+
+// Splits 'actionableOutput.topLiabilities[2]' into its category and index.
+const parseTarget = (target: string): { category: ReviewCategory; index: number } | null => {
+  const match = /^(.+)\[(\d+)\]$/.exec(target);
+  if (!match) return null;
+  const category = (Object.keys(REVIEW_CATEGORIES) as ReviewCategory[]).find(c => REVIEW_CATEGORIES[c].path === match[1]);
+  return category ? { category, index: Number(match[2]) } : null;
+};
+
+export const reviewFor = (result: AnalysisResult, target: string): FindingReview | undefined =>
+  result.reviews?.find(review => review.target === target);
+
+// Every reviewable finding, in report order.
+export const listReviewItems = (result: AnalysisResult): ReviewItem[] =>
+  (Object.keys(REVIEW_CATEGORIES) as ReviewCategory[]).flatMap(category => {
+    const definition = REVIEW_CATEGORIES[category];
+    return definition.items(result).map((item, index) => {
+      const target = reviewTarget(category, index);
+      return { target, category, title: definition.title(item), severity: item.severity, review: reviewFor(result, target) };
+    });
+  });
+
+export const summarizeReviews = (result: AnalysisResult) => {
+  const items = listReviewItems(result);
+  const count = (decision: ReviewDecision) => items.filter(item => item.review?.decision === decision).length;
+  return {
+    total: items.length,
+    accepted: count('accepted'),
+    amended: count('amended'),
+    rejected: count('rejected'),
+    pending: items.filter(item => !item.review).length,
+  };
+};
+
+// Records a decision, replacing any earlier one for the same finding, and
+// logs it in the audit trail. An amendment applies `changes` to the finding
+// and keeps the model's version.
+export const recordReview = (
+  result: AnalysisResult,
+  target: string,
+  decision: ReviewDecision,
+  reviewer: string,
+  reason: string,
+  changes: Record<string, string> = {}
+): AnalysisResult => {
+  const parsed = parseTarget(target);
+  if (!parsed) throw new Error(`'${target}' is not a reviewable finding.`);
+  if (!reviewer.trim()) throw new Error('Enter your name before reviewing findings.');
+  if (decision === 'rejected' && !reason.trim()) throw new Error('Give a reason for rejecting the finding.');
+
+  const definition = REVIEW_CATEGORIES[parsed.category];
+  const items = definition.items(result);
+  const item = items[parsed.index];
+  if (!item) throw new Error(`'${target}' is not a reviewable finding.`);
+
+  const previous = reviewFor(result, target);
+  let updated = result;
+  let original = previous?.original ?? '';
+  if (decision === 'amended') {
+    original = original || JSON.stringify(item);
+    updated = definition.withItems(result, items.map((existing, i) => i === parsed.index ? { ...existing, ...changes } : existing));
+  }
+
+  const review: FindingReview = {
+    target,
+    decision,
+    reviewer: reviewer.trim(),
+    reviewedAt: new Date().toISOString(),
+    reason: reason.trim(),
+    original,
+  };
+  const changed = Object.keys(changes).filter(key => String(item[key] ?? '') !== changes[key]);
+  const detail = `${target} ${REVIEW_DECISION_LABELS[decision].toLowerCase()} by ${review.reviewer}`
+    + (decision === 'amended' ? ` (changed: ${changed.join(', ') || 'nothing'})` : '')
+    + (review.reason ? `: ${review.reason}` : '');
+  return recordAuditEvent({ ...updated, reviews: [...(result.reviews ?? []).filter(r => r.target !== target), review] }, 'review-recorded', detail);
+};
+
+// Returns a finding to the queue, restoring the model's version if it was amended.
+export const clearReview = (result: AnalysisResult, target: string, reviewer: string): AnalysisResult => {
+  const review = reviewFor(result, target);
+  const parsed = parseTarget(target);
+  if (!review || !parsed) return result;
+
+  let updated = result;
+  if (review.original) {
+    const definition = REVIEW_CATEGORIES[parsed.category];
+    const original = JSON.parse(review.original);
+    updated = definition.withItems(result, definition.items(result).map((item, i) => i === parsed.index ? original : item));
+  }
+  const detail = `${target}: ${REVIEW_DECISION_LABELS[review.decision].toLowerCase()} decision by ${review.reviewer} withdrawn by ${reviewer.trim() || 'an unnamed reviewer'}`;
+  return recordAuditEvent({ ...updated, reviews: (result.reviews ?? []).filter(r => r.target !== target) }, 'review-withdrawn', detail);
+};
+
+// --- Report helpers ---
+
+// "[Analyst-confirmed]" style marker for a report cell. Until anything has
+// been reviewed, the whole report is AI-generated and markers are left out.
+export const reviewMarker = (result: AnalysisResult, target: string): string => {
+  if (!result.reviews?.length) return '';
+  const review = reviewFor(result, target);
+  return `\n[${review ? REVIEW_DECISION_LABELS[review.decision] : AI_GENERATED_LABEL}]`;
+};
+
+export const describeReviewStatus = (result: AnalysisResult): string => {
+  const summary = summarizeReviews(result);
+  if (summary.pending === summary.total) {
+    return 'Analyst review: no findings have been reviewed. All findings are AI-generated.';
+  }
+  return `Analyst review: of ${summary.total} findings, ${summary.accepted} confirmed, ${summary.amended} amended and ${summary.rejected} rejected by an analyst; ${summary.pending} remain AI-generated and unreviewed.`;
+};
+
+// Rows for the report's review log: finding, decision, reviewer, date, reason.
+export const reviewLogRows = (result: AnalysisResult): string[][] =>
+  listReviewItems(result)
+    .filter(item => item.review)
+    .map(({ category, title, review }) => [
+      `${REVIEW_CATEGORIES[category].label}: ${title}`,
+      REVIEW_DECISION_LABELS[review!.decision],
+      review!.reviewer,
+      review!.reviewedAt,
+      review!.reason,
+    ]);
+
+export const loadReviewerName = (): string => {
+  try {
+    return localStorage.getItem(REVIEWER_STORAGE_KEY) ?? '';
+  } catch (error) {
+    console.warn("Could not read the reviewer name:", error);
+    return '';
+  }
+};
+
+export const saveReviewerName = (name: string): void => {
+  try {
+    localStorage.setItem(REVIEWER_STORAGE_KEY, name);
+  } catch (error) {
+    console.warn("Could not save the reviewer name:", error);
+  }
+};
@@ -0,0 +1,40 @@
+
+import type { AnalysisSettings } from '../types.ts';
+import { DEFAULT_GEMINI_MODEL } from './geminiService.ts';
+
+// Analysis settings persist in localStorage so the chosen provider survives
+// reloads. They hold no evidence, only endpoint and model configuration.
+const SETTINGS_STORAGE_KEY = 'verum-omnis.analysis-settings';
+
+export const DEFAULT_ANALYSIS_SETTINGS: AnalysisSettings = {
+  providerId: 'gemini',
+  geminiModel: DEFAULT_GEMINI_MODEL,
+  localEndpoint: 'http://localhost:11434/v1',
+  localModel: 'llama3.1',
+  localApiKey: '',
+  consensusEnabled: false,
+  consensusMembers: [
+    { providerId: 'gemini', model: DEFAULT_GEMINI_MODEL },
+    { providerId: 'gemini', model: 'gemini-2.5-flash' },
+    { providerId: 'local-http', model: 'llama3.1' },
+  ],
+  allowUnredactedEvidence: false,
+};
+
+export const loadAnalysisSettings = (): AnalysisSettings => {
+  try {
+    const stored = localStorage.getItem(SETTINGS_STORAGE_KEY);
+    return stored ? { ...DEFAULT_ANALYSIS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_ANALYSIS_SETTINGS;
+  } catch (error) {
+    console.warn("Could not read analysis settings, using defaults:", error);
+    return DEFAULT_ANALYSIS_SETTINGS;
+  }
+};
+
+export const saveAnalysisSettings = (settings: AnalysisSettings): void => {
+  try {
+    localStorage.setItem(SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn("Could not persist analysis settings:", error);
+  }
+};
@@ -0,0 +1,104 @@
+
+// Local report-signing keys. The private key is generated as non-extractable
+// and persisted as a CryptoKey in IndexedDB, so it never leaves this device.
+
+export const SIGNATURE_ALGORITHM = 'ECDSA-P256-SHA256';
+
+const KEY_DB_NAME = 'verum-omnis-keys';
+const KEY_STORE_NAME = 'keys';
+const SIGNING_KEY_ID = 'report-signing';
+
+const keyParams: EcKeyGenParams = { name: 'ECDSA', namedCurve: 'P-256' };
+const signParams: EcdsaParams = { name: 'ECDSA', hash: 'SHA-256' };
+
+export interface PayloadSignature {
+  signature: Uint8Array;
+  publicKey: Uint8Array;
+  keyId: string;
+  algorithm: string;
+}
+
+const openKeyDb = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(KEY_DB_NAME, 1);
+    request.onupgradeneeded = () => {
+      request.result.createObjectStore(KEY_STORE_NAME);
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const readStoredKeyPair = async (db: IDBDatabase): Promise<CryptoKeyPair | undefined> => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(KEY_STORE_NAME, 'readonly').objectStore(KEY_STORE_NAME).get(SIGNING_KEY_ID);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const storeKeyPair = async (db: IDBDatabase, keyPair: CryptoKeyPair): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(KEY_STORE_NAME, 'readwrite');
+    tx.objectStore(KEY_STORE_NAME).put(keyPair, SIGNING_KEY_ID);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+let cachedKeyPair: Promise<CryptoKeyPair> | null = null;
+
+export const getSigningKeyPair = (): Promise<CryptoKeyPair> => {
+  if (!cachedKeyPair) {
+    cachedKeyPair = (async () => {
+      const db = await openKeyDb();
+      try {
+        const existing = await readStoredKeyPair(db);
+        if (existing) return existing;
+        const keyPair = await crypto.subtle.generateKey(keyParams, false, ['sign', 'verify']);
+        await storeKeyPair(db, keyPair);
+        return keyPair;
+      } finally {
+        db.close();
+      }
+    })();
+    cachedKeyPair.catch(() => { cachedKeyPair = null; });
+  }
+  return cachedKeyPair;
+};
+
+// Key IDs are the first 16 bytes of the SHA-256 of the SPKI-encoded public key.
+export const computeKeyId = async (publicKey: Uint8Array): Promise<string> => {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', publicKey as BufferSource));
+  return Array.from(digest.slice(0, 16), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// Whether a public key is this device's signing key. A signature only shows
+// who produced a report when it was made with a key the verifier trusts.
+export const isLocalSigningKey = async (publicKey: Uint8Array): Promise<boolean> => {
+  const keyPair = await getSigningKeyPair();
+  const localKey = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+  return (await computeKeyId(localKey)) === (await computeKeyId(publicKey));
+};
+
+export const signPayload = async (payload: Uint8Array): Promise<PayloadSignature> => {
+  const keyPair = await getSigningKeyPair();
+  const publicKey = new Uint8Array(await crypto.subtle.exportKey('spki', keyPair.publicKey));
+  const signature = new Uint8Array(await crypto.subtle.sign(signParams, keyPair.privateKey, payload as BufferSource));
+  return {
+    signature,
+    publicKey,
+    keyId: await computeKeyId(publicKey),
+    algorithm: SIGNATURE_ALGORITHM,
+  };
+};
+
+export const verifyPayload = async (payload: Uint8Array, signature: Uint8Array, publicKey: Uint8Array): Promise<boolean> => {
+  try {
+    const key = await crypto.subtle.importKey('spki', publicKey as BufferSource, keyParams, false, ['verify']);
+    return await crypto.subtle.verify(signParams, key, signature as BufferSource, payload as BufferSource);
+  } catch (e) {
+    console.error("Signature verification failed:", e);
+    return false;
+  }
+};
@@ -0,0 +1,86 @@
+// --- Streamed JSON ---
+// A streamed response is an unfinished JSON object until its last chunk
+// arrives. Each top-level member can be read as soon as its value is closed,
+// so sections can be shown while the model is still writing the rest.
+
+export interface JsonMemberScanner {
+  // Takes everything received so far, scans only the text added since the
+  // last call and returns the top-level members whose values are complete.
+  scan: (text: string) => Record<string, unknown>;
+}
+
+// Scan state is kept between calls, so a long response is read once in total
+// rather than once per chunk.
+export const createJsonMemberScanner = (): JsonMemberScanner => {
+  let members: Record<string, unknown> = {};
+  let position = 0;
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let keyStart = -1;
+  let key: string | null = null;
+  let valueStart = -1;
+
+  const reset = () => {
+    members = {};
+    position = 0;
+    depth = 0;
+    inString = false;
+    escaped = false;
+    keyStart = -1;
+    key = null;
+    valueStart = -1;
+  };
+
+  const finishValue = (text: string, end: number) => {
+    if (key === null || valueStart === -1) return;
+    try {
+      members[key] = JSON.parse(text.slice(valueStart, end));
+    } catch {
+      // Not a value after all; the final parse reports malformed output.
+    }
+    key = null;
+    valueStart = -1;
+  };
+
+  const scan = (text: string): Record<string, unknown> => {
+    // A restarted stream no longer extends the text already scanned.
+    if (text.length < position) reset();
+    for (let i = position; i < text.length; i++) {
+      const ch = text[i];
+      if (inString) {
+        if (escaped) {
+          escaped = false;
+        } else if (ch === '\\') {
+          escaped = true;
+        } else if (ch === '"') {
+          inString = false;
+          if (depth === 1) {
+            if (valueStart === -1) key = JSON.parse(text.slice(keyStart, i + 1));
+            else finishValue(text, i + 1);
+          }
+        }
+        continue;
+      }
+      if (ch === '"') {
+        inString = true;
+        if (depth === 1 && valueStart === -1) keyStart = i;
+      } else if (ch === ':' && depth === 1) {
+        valueStart = i + 1;
+      } else if (ch === '{' || ch === '[') {
+        depth++;
+      } else if (ch === '}' || ch === ']') {
+        depth--;
+        if (depth === 1) finishValue(text, i + 1);
+        else if (depth === 0) finishValue(text, i);
+      } else if (ch === ',' && depth === 1) {
+        // Numbers, booleans and null end at the next comma.
+        finishValue(text, i);
+      }
+    }
+    position = text.length;
+    return { ...members };
+  };
+
+  return { scan };
+};
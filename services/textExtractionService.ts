@@ -0,0 +1,104 @@
+
+import * as pdfjs from 'pdfjs-dist';
+// Bundled as a static asset so extraction works offline.
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url';
+import { isTextBearing } from './redactionService.ts';
+
+// --- Local evidence text extraction ---
+// Evidence text is extracted on-device, one string per page, so that model
+// citations can be checked against what the documents actually say.
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+// Per-document page texts keyed by document ID. Null means the document's text
+// could not be extracted (e.g. an image), so its citations cannot be checked.
+export type CasePageTexts = Record<string, string[] | null>;
+
+const extractPdfPages = async (file: File, onPage?: (page: number, total: number) => void): Promise<string[]> => {
+  const pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items.map((item: any) => ('str' in item ? item.str + (item.hasEOL ? '\n' : ' ') : '')).join(''));
+      page.cleanup();
+      onPage?.(pageNumber, pdf.numPages);
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+};
+
+const isDocx = (file: File) =>
+  file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document' || /\.docx$/i.test(file.name);
+
+// Reads one entry of a ZIP archive (a .docx is a ZIP of XML parts), located
+// through the central directory at the end of the file.
+const readZipEntry = async (bytes: Uint8Array, entryName: string): Promise<Uint8Array | null> => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let end = bytes.length - 22;
+  while (end >= 0 && view.getUint32(end, true) !== 0x06054b50) end--;
+  if (end < 0) return null;
+
+  const entryCount = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  for (let i = 0; i < entryCount && view.getUint32(offset, true) === 0x02014b50; i++) {
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const next = offset + 46 + nameLength + view.getUint16(offset + 30, true) + view.getUint16(offset + 32, true);
+    const name = new TextDecoder().decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    if (name === entryName) {
+      const header = view.getUint32(offset + 42, true);
+      const start = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+      const data = bytes.subarray(start, start + compressedSize);
+      if (method === 0) return data;
+      if (method !== 8) return null;
+      const inflated = new Blob([data as BlobPart]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+      return new Uint8Array(await new Response(inflated).arrayBuffer());
+    }
+    offset = next;
+  }
+  return null;
+};
+
+// Word documents carry no fixed pages; explicit page breaks, and the breaks
+// Word recorded when the file was last laid out, split the text into pages.
+const extractDocxPages = async (file: File): Promise<string[] | null> => {
+  const xml = await readZipEntry(new Uint8Array(await file.arrayBuffer()), 'word/document.xml');
+  if (!xml) return null;
+  const doc = new DOMParser().parseFromString(new TextDecoder().decode(xml), 'application/xml');
+  const pages: string[] = [''];
+  Array.from(doc.getElementsByTagName('w:p')).forEach(paragraph => {
+    Array.from(paragraph.getElementsByTagName('*')).forEach(node => {
+      if (node.tagName === 'w:t') pages[pages.length - 1] += node.textContent ?? '';
+      else if (node.tagName === 'w:tab') pages[pages.length - 1] += '\t';
+      else if (node.tagName === 'w:lastRenderedPageBreak' || (node.tagName === 'w:br' && node.getAttribute('w:type') === 'page')) pages.push('');
+    });
+    pages[pages.length - 1] += '\n';
+  });
+  return pages;
+};
+
+export const extractPageTexts = async (
+  file: File,
+  onPage?: (page: number, total: number) => void
+): Promise<string[] | null> => {
+  try {
+    if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) {
+      return await extractPdfPages(file, onPage);
+    }
+    if (isDocx(file)) {
+      return await extractDocxPages(file);
+    }
+    if (isTextBearing(file)) {
+      // Plain text has no pages; form feeds are the only page markers it can carry.
+      return (await file.text()).split('\f');
+    }
+  } catch (error) {
+    console.warn(`Text extraction failed for '${file.name}':`, error);
+  }
+  return null;
+};
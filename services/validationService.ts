@@ -0,0 +1,400 @@
+
+import type {
+  AnalysisCorrection,
+  AnalysisResult,
+  ContradictionFinding,
+  ContradictionLayer,
+  DishonestyFinding,
+  EvidenceIndexItem,
+  EvidenceSource,
+  EvidenceSpotlightItem,
+  LegalSubjectFinding,
+  RecommendedAction,
+  TimelineEvent,
+  TopLiability,
+} from '../types.ts';
+import { CONTRADICTION_LAYERS } from './analysisSchema.ts';
+
+// --- Model response validation ---
+// Every section of a parsed model response is checked against the
+// AnalysisResult contract. Values that can be fixed without guessing at
+// content (casing, out-of-range numbers, duplicate IDs) are repaired and
+// recorded as corrections; entries citing a document that is not in the case
+// are dropped. Sections that are missing or
+// structurally wrong are reported as failures so the caller can re-prompt.
+
+export type AnalysisSection =
+  | 'caseNarrative'
+  | 'timeline'
+  | 'evidenceSpotlight'
+  | 'preAnalysisChecks'
+  | 'criticalLegalSubjects'
+  | 'dishonestyDetectionMatrix'
+  | 'contradictions'
+  | 'evidenceIndex'
+  | 'actionableOutput'
+  | 'postAnalysisDeclaration';
+
+export type AnalysisSections = Pick<AnalysisResult, AnalysisSection>;
+
+export const ANALYSIS_SECTIONS: AnalysisSection[] = [
+  'caseNarrative', 'timeline', 'evidenceSpotlight', 'preAnalysisChecks', 'criticalLegalSubjects',
+  'dishonestyDetectionMatrix', 'contradictions', 'evidenceIndex', 'actionableOutput', 'postAnalysisDeclaration',
+];
+
+export interface SectionFailure {
+  section: AnalysisSection;
+  reason: string;
+}
+
+export interface ValidationOutcome {
+  sections: Partial<AnalysisSections>;
+  corrections: AnalysisCorrection[];
+  failures: SectionFailure[];
+}
+
+const SEVERITIES = ['Low', 'Medium', 'High', 'Critical'] as const;
+const LIABILITY_SEVERITIES = ['High', 'Critical'] as const;
+const CONFIDENCES = ['Low', 'Medium', 'High'] as const;
+
+interface Context {
+  section: AnalysisSection;
+  knownDocumentIds: Set<string>;
+  // The case's only document, which a citation that names no document can
+  // only refer to; null for multi-document cases.
+  onlyDocumentId: string | null;
+  corrections: AnalysisCorrection[];
+}
+
+// Signals a structural problem that repair cannot fix; caught per section.
+const fail = (reason: string): never => {
+  throw new Error(reason);
+};
+
+const note = (ctx: Context, path: string, message: string) => {
+  ctx.corrections.push({ section: ctx.section, path, message });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => {
+  return !!value && typeof value === 'object' && !Array.isArray(value);
+};
+
+const requireObject = (value: unknown, path: string): Record<string, unknown> => {
+  if (!isObject(value)) fail(`${path} is ${value === undefined ? 'missing' : 'not an object'}`);
+  return value as Record<string, unknown>;
+};
+
+const requireArray = (value: unknown, path: string): unknown[] => {
+  if (!Array.isArray(value)) fail(`${path} is ${value === undefined ? 'missing' : 'not an array'}`);
+  return value as unknown[];
+};
+
+// Required text whose absence makes the item meaningless.
+const requireText = (ctx: Context, value: unknown, path: string): string => {
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    note(ctx, path, `Converted ${typeof value} to text.`);
+    return String(value);
+  }
+  if (typeof value !== 'string' || value.trim() === '') fail(`${path} is missing or empty`);
+  return value as string;
+};
+
+// Text that can safely default to empty.
+const optionalText = (ctx: Context, value: unknown, path: string): string => {
+  if (typeof value === 'string') return value;
+  if (typeof value === 'number' || typeof value === 'boolean') {
+    note(ctx, path, `Converted ${typeof value} to text.`);
+    return String(value);
+  }
+  note(ctx, path, 'Missing text replaced with an empty value.');
+  return '';
+};
+
+const textList = (ctx: Context, value: unknown, path: string): string[] => {
+  if (typeof value === 'string') {
+    note(ctx, path, 'Single value wrapped in a list.');
+    return [value];
+  }
+  if (!Array.isArray(value)) {
+    note(ctx, path, 'Missing list replaced with an empty list.');
+    return [];
+  }
+  const strings = value.filter((item): item is string => typeof item === 'string');
+  if (strings.length !== value.length) {
+    note(ctx, path, `Removed ${value.length - strings.length} non-text entr${value.length - strings.length === 1 ? 'y' : 'ies'}.`);
+  }
+  return strings;
+};
+
+const bool = (ctx: Context, value: unknown, path: string): boolean => {
+  if (typeof value === 'boolean') return value;
+  if (value === 'true' || value === 'false') {
+    note(ctx, path, 'Converted text to boolean.');
+    return value === 'true';
+  }
+  note(ctx, path, 'Missing or invalid flag set to false.');
+  return false;
+};
+
+const integer = (ctx: Context, value: unknown, path: string, min: number, max: number, fallback: number): number => {
+  const parsed = typeof value === 'string' ? Number(value.trim()) : value;
+  if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+    note(ctx, path, `Invalid number ${JSON.stringify(value)} replaced with ${fallback}.`);
+    return fallback;
+  }
+  const repaired = Math.min(max, Math.max(min, Math.round(parsed)));
+  if (repaired !== parsed) {
+    note(ctx, path, `Value ${JSON.stringify(value)} adjusted to ${repaired}.`);
+  }
+  return repaired;
+};
+
+const pageNumber = (ctx: Context, value: unknown, path: string): number => {
+  return integer(ctx, value, path, 1, Number.MAX_SAFE_INTEGER, 1);
+};
+
+const oneOf = <T extends string>(ctx: Context, value: unknown, allowed: readonly T[], fallback: T, path: string): T => {
+  if (typeof value === 'string') {
+    if ((allowed as readonly string[]).includes(value)) return value as T;
+    const caseInsensitive = allowed.find(a => a.toLowerCase() === value.trim().toLowerCase());
+    if (caseInsensitive) {
+      note(ctx, path, `Normalised '${value}' to '${caseInsensitive}'.`);
+      return caseInsensitive;
+    }
+  }
+  note(ctx, path, `Unknown value ${JSON.stringify(value)} replaced with '${fallback}'.`);
+  return fallback;
+};
+
+// Citations must name a document in the case so the viewer can resolve them.
+// An entry citing any other document is dropped rather than attributed to a
+// document it may not come from.
+const documentId = (ctx: Context, value: unknown, path: string): string => {
+  if (typeof value === 'string' && ctx.knownDocumentIds.has(value)) return value;
+  if ((value === undefined || value === '') && ctx.onlyDocumentId) {
+    note(ctx, path, `Missing document ID set to '${ctx.onlyDocumentId}', the only document in the case.`);
+    return ctx.onlyDocumentId;
+  }
+  return fail(`${path} cites unknown document ${JSON.stringify(value)}`);
+};
+
+const documentIdList = (ctx: Context, value: unknown, path: string): string[] => {
+  const ids = textList(ctx, value, path);
+  const known = ids.filter(id => ctx.knownDocumentIds.has(id));
+  if (known.length !== ids.length) {
+    note(ctx, path, `Removed unknown document IDs: ${ids.filter(id => !ctx.knownDocumentIds.has(id)).join(', ')}.`);
+  }
+  return known;
+};
+
+const source = (ctx: Context, value: unknown, path: string): EvidenceSource => {
+  const raw = requireObject(value, path);
+  return {
+    documentId: documentId(ctx, raw.documentId, `${path}.documentId`),
+    pageNumber: pageNumber(ctx, raw.pageNumber, `${path}.pageNumber`),
+  };
+};
+
+// Validates each item of a list section. Malformed items are dropped; if every
+// item of a non-empty list is malformed the whole section fails instead.
+const list = <T,>(ctx: Context, value: unknown, path: string, validateItem: (raw: Record<string, unknown>, path: string) => T): T[] => {
+  const items = requireArray(value, path);
+  const valid: T[] = [];
+  const reasons: string[] = [];
+  items.forEach((item, index) => {
+    const itemPath = `${path}[${index}]`;
+    const before = ctx.corrections.length;
+    try {
+      valid.push(validateItem(requireObject(item, itemPath), itemPath));
+    } catch (error: any) {
+      ctx.corrections.length = before;
+      reasons.push(error.message);
+      note(ctx, itemPath, `Removed malformed entry (${error.message}).`);
+    }
+  });
+  if (items.length > 0 && valid.length === 0) {
+    fail(`every entry in ${path} is malformed (${reasons[0]})`);
+  }
+  return valid;
+};
+
+// --- Section validators ---
+
+const validateTimeline = (ctx: Context, value: unknown): TimelineEvent[] => {
+  const events = list(ctx, value, 'timeline', (raw, path): TimelineEvent => {
+    const event: TimelineEvent = {
+      date: requireText(ctx, raw.date, `${path}.date`),
+      event: requireText(ctx, raw.event, `${path}.event`),
+      actors: textList(ctx, raw.actors, `${path}.actors`),
+      evidenceReference: optionalText(ctx, raw.evidenceReference, `${path}.evidenceReference`),
+      source: source(ctx, raw.source, `${path}.source`),
+      confidence: oneOf(ctx, raw.confidence, CONFIDENCES, 'Medium', `${path}.confidence`),
+    };
+    if (typeof raw.endDate === 'string' && raw.endDate.trim() !== '') event.endDate = raw.endDate;
+    return event;
+  });
+  return events.sort((a, b) => a.date.localeCompare(b.date));
+};
+
+const validateEvidenceSpotlight = (ctx: Context, value: unknown): EvidenceSpotlightItem[] => {
+  return list(ctx, value, 'evidenceSpotlight', (raw, path) => ({
+    title: requireText(ctx, raw.title, `${path}.title`),
+    significance: optionalText(ctx, raw.significance, `${path}.significance`),
+    evidenceReference: optionalText(ctx, raw.evidenceReference, `${path}.evidenceReference`),
+    pageNumber: pageNumber(ctx, raw.pageNumber, `${path}.pageNumber`),
+    documentId: documentId(ctx, raw.documentId, `${path}.documentId`),
+  }));
+};
+
+const validatePreAnalysisChecks = (ctx: Context, value: unknown): AnalysisResult['preAnalysisChecks'] => {
+  const raw = requireObject(value, 'preAnalysisChecks');
+  return {
+    extractionProtocol: bool(ctx, raw.extractionProtocol, 'preAnalysisChecks.extractionProtocol'),
+    preservationFlags: bool(ctx, raw.preservationFlags, 'preAnalysisChecks.preservationFlags'),
+    scope: bool(ctx, raw.scope, 'preAnalysisChecks.scope'),
+  };
+};
+
+const validateLegalSubjects = (ctx: Context, value: unknown): LegalSubjectFinding[] => {
+  return list(ctx, value, 'criticalLegalSubjects', (raw, path) => ({
+    subject: requireText(ctx, raw.subject, `${path}.subject`),
+    keyPoints: textList(ctx, raw.keyPoints, `${path}.keyPoints`),
+    evidence: optionalText(ctx, raw.evidence, `${path}.evidence`),
+    severity: oneOf(ctx, raw.severity, SEVERITIES, 'Medium', `${path}.severity`),
+    documentIds: documentIdList(ctx, raw.documentIds, `${path}.documentIds`),
+  }));
+};
+
+const validateDishonestyMatrix = (ctx: Context, value: unknown): DishonestyFinding[] => {
+  return list(ctx, value, 'dishonestyDetectionMatrix', (raw, path) => ({
+    flag: requireText(ctx, raw.flag, `${path}.flag`),
+    description: optionalText(ctx, raw.description, `${path}.description`),
+    evidence: optionalText(ctx, raw.evidence, `${path}.evidence`),
+    severity: oneOf(ctx, raw.severity, SEVERITIES, 'Medium', `${path}.severity`),
+    documentIds: documentIdList(ctx, raw.documentIds, `${path}.documentIds`),
+  }));
+};
+
+const validateContradictions = (ctx: Context, value: unknown): ContradictionFinding[] => {
+  return list(ctx, value, 'contradictions', (raw, path) => ({
+    claimA: requireText(ctx, raw.claimA, `${path}.claimA`),
+    sourceA: source(ctx, raw.sourceA, `${path}.sourceA`),
+    claimB: requireText(ctx, raw.claimB, `${path}.claimB`),
+    sourceB: source(ctx, raw.sourceB, `${path}.sourceB`),
+    layer: oneOf<ContradictionLayer>(ctx, raw.layer, CONTRADICTION_LAYERS, 'statement comparison', `${path}.layer`),
+    severity: oneOf(ctx, raw.severity, SEVERITIES, 'Medium', `${path}.severity`),
+    explanation: optionalText(ctx, raw.explanation, `${path}.explanation`),
+  }));
+};
+
+const formatEvidenceId = (n: number) => `E-${String(n).padStart(2, '0')}`;
+
+const validateEvidenceIndex = (ctx: Context, value: unknown): EvidenceIndexItem[] => {
+  const items = list(ctx, value, 'evidenceIndex', (raw, path) => ({
+    id: typeof raw.id === 'string' ? raw.id.trim() : '',
+    description: requireText(ctx, raw.description, `${path}.description`),
+    pageNumber: pageNumber(ctx, raw.pageNumber, `${path}.pageNumber`),
+    documentReference: optionalText(ctx, raw.documentReference, `${path}.documentReference`),
+    documentId: documentId(ctx, raw.documentId, `${path}.documentId`),
+  }));
+
+  // Evidence IDs are cross-referenced from every other section, so they must be unique.
+  const used = new Set<string>();
+  let next = 1;
+  items.forEach((item, index) => {
+    if (item.id && !used.has(item.id)) {
+      used.add(item.id);
+      return;
+    }
+    while (used.has(formatEvidenceId(next)) || items.some(other => other.id === formatEvidenceId(next))) next++;
+    const replacement = formatEvidenceId(next);
+    note(ctx, `evidenceIndex[${index}].id`, item.id ? `Duplicate ID '${item.id}' renumbered to '${replacement}'.` : `Missing ID assigned '${replacement}'.`);
+    item.id = replacement;
+    used.add(replacement);
+  });
+  return items;
+};
+
+const validateActionableOutput = (ctx: Context, value: unknown): AnalysisResult['actionableOutput'] => {
+  const raw = requireObject(value, 'actionableOutput');
+  return {
+    topLiabilities: list(ctx, raw.topLiabilities, 'actionableOutput.topLiabilities', (item, path): TopLiability => ({
+      name: requireText(ctx, item.name, `${path}.name`),
+      severity: oneOf(ctx, item.severity, LIABILITY_SEVERITIES, 'High', `${path}.severity`),
+    })),
+    dishonestyScore: integer(ctx, raw.dishonestyScore, 'actionableOutput.dishonestyScore', 0, 100, 0),
+    recommendedActions: list(ctx, raw.recommendedActions, 'actionableOutput.recommendedActions', (item, path): RecommendedAction => ({
+      jurisdiction: optionalText(ctx, item.jurisdiction, `${path}.jurisdiction`),
+      action: requireText(ctx, item.action, `${path}.action`),
+      legalBasis: optionalText(ctx, item.legalBasis, `${path}.legalBasis`),
+    })),
+    summary: requireText(ctx, raw.summary, 'actionableOutput.summary'),
+  };
+};
+
+const validatePostAnalysisDeclaration = (ctx: Context, value: unknown): AnalysisResult['postAnalysisDeclaration'] => {
+  const raw = requireObject(value, 'postAnalysisDeclaration');
+  return {
+    extractionComplete: bool(ctx, raw.extractionComplete, 'postAnalysisDeclaration.extractionComplete'),
+    integritySealsVerified: bool(ctx, raw.integritySealsVerified, 'postAnalysisDeclaration.integritySealsVerified'),
+    // Events are recorded locally in the audit trail, not reported by the model.
+    logs: '',
+    seal: optionalText(ctx, raw.seal, 'postAnalysisDeclaration.seal'),
+  };
+};
+
+const SECTION_VALIDATORS: { [S in AnalysisSection]: (ctx: Context, value: unknown) => AnalysisSections[S] } = {
+  caseNarrative: (ctx, value) => requireText(ctx, value, 'caseNarrative'),
+  timeline: validateTimeline,
+  evidenceSpotlight: validateEvidenceSpotlight,
+  preAnalysisChecks: validatePreAnalysisChecks,
+  criticalLegalSubjects: validateLegalSubjects,
+  dishonestyDetectionMatrix: validateDishonestyMatrix,
+  contradictions: validateContradictions,
+  evidenceIndex: validateEvidenceIndex,
+  actionableOutput: validateActionableOutput,
+  postAnalysisDeclaration: validatePostAnalysisDeclaration,
+};
+
+// Used when a section still fails after re-prompting, so the report can be
+// sealed with an honest gap rather than not at all.
+export const EMPTY_SECTIONS: AnalysisSections = {
+  caseNarrative: 'The analysis provider did not return a valid case narrative.',
+  timeline: [],
+  evidenceSpotlight: [],
+  preAnalysisChecks: { extractionProtocol: false, preservationFlags: false, scope: false },
+  criticalLegalSubjects: [],
+  dishonestyDetectionMatrix: [],
+  contradictions: [],
+  evidenceIndex: [],
+  actionableOutput: { topLiabilities: [], dishonestyScore: 0, recommendedActions: [], summary: 'The analysis provider did not return a valid summary.' },
+  postAnalysisDeclaration: { extractionComplete: false, integritySealsVerified: false, logs: '', seal: '' },
+};
+
+export const validateAnalysisSections = (
+  response: unknown,
+  sections: AnalysisSection[],
+  documentIds: string[]
+): ValidationOutcome => {
+  const outcome: ValidationOutcome = { sections: {}, corrections: [], failures: [] };
+  if (!isObject(response)) {
+    outcome.failures = sections.map(section => ({ section, reason: 'the response is not a JSON object' }));
+    return outcome;
+  }
+
+  sections.forEach(section => {
+    const ctx: Context = {
+      section,
+      knownDocumentIds: new Set(documentIds),
+      onlyDocumentId: documentIds.length === 1 ? documentIds[0] : null,
+      corrections: [],
+    };
+    try {
+      (outcome.sections as any)[section] = SECTION_VALIDATORS[section](ctx, response[section]);
+      outcome.corrections.push(...ctx.corrections);
+    } catch (error: any) {
+      outcome.failures.push({ section, reason: error.message });
+    }
+  });
+  return outcome;
+};
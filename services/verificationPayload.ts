@@ -0,0 +1,71 @@
+
+import type { AnalysisResult, ReportPayloadVerification } from '../types.ts';
+
+// --- QR verification payload ---
+// The PDF's declarations page carries a QR code encoding this payload, so a
+// printed report can be checked against its sealed data without retyping a
+// 128-character hash. Fields are '|'-separated; the seal goes last because it
+// may itself contain '|'.
+//   VO1|<report ID>|<hash algorithm>|<case hash>|<case SHA-256 hash>|<seal>
+
+const PAYLOAD_PREFIX = 'VO1';
+const PAYLOAD_FIELD_COUNT = 6;
+
+export interface VerificationPayload {
+  reportId: string;
+  hashAlgorithm: string;
+  caseHash: string;
+  caseHashSha256: string;
+  seal: string;
+}
+
+// The first 16 hex digits of a hash, as printed in page footers.
+export const shortHash = (hash: string): string => hash.slice(0, 16).toLowerCase();
+
+// Derived from the analysis itself, so every export of the same analysis
+// carries the same ID, e.g. "VO-20261019T1432-3FA9C1D2".
+export const reportIdFor = (result: AnalysisResult): string => {
+  const hashPart = result.documentHash.slice(0, 8).toUpperCase();
+  const analyzedAt = new Date(result.analyzedAt);
+  if (!result.analyzedAt || isNaN(analyzedAt.getTime())) return `VO-${hashPart}`;
+  const stamp = analyzedAt.toISOString().replace(/[-:]/g, '').slice(0, 13);
+  return `VO-${stamp}-${hashPart}`;
+};
+
+export const buildVerificationPayload = (result: AnalysisResult): string => [
+  PAYLOAD_PREFIX,
+  reportIdFor(result),
+  result.hashAlgorithm || 'SHA-512',
+  result.documentHash.toLowerCase(),
+  (result.documentHashSha256 || '').toLowerCase(),
+  result.postAnalysisDeclaration.seal,
+].join('|');
+
+export const parseVerificationPayload = (text: string): VerificationPayload => {
+  const fields = text.trim().split('|');
+  if (fields[0] !== PAYLOAD_PREFIX || fields.length < PAYLOAD_FIELD_COUNT) {
+    throw new Error('This is not a Verum Omnis report QR code.');
+  }
+  const [, reportId, hashAlgorithm, caseHash, caseHashSha256, ...sealParts] = fields;
+  if (!/^[0-9a-f]+$/i.test(caseHash)) {
+    throw new Error('The QR code does not contain a valid case hash.');
+  }
+  return { reportId, hashAlgorithm, caseHash: caseHash.toLowerCase(), caseHashSha256: caseHashSha256.toLowerCase(), seal: sealParts.join('|') };
+};
+
+// Compares a scanned payload with a loaded report and lists every field that differs.
+export const verifyReportPayload = (text: string, result: AnalysisResult): ReportPayloadVerification => {
+  const payload = parseVerificationPayload(text);
+  const expected = parseVerificationPayload(buildVerificationPayload(result));
+  const mismatches: string[] = [];
+  if (payload.caseHash !== expected.caseHash) mismatches.push(`${expected.hashAlgorithm} case hash`);
+  if (payload.caseHashSha256 && expected.caseHashSha256 && payload.caseHashSha256 !== expected.caseHashSha256) mismatches.push('SHA-256 case hash');
+  if (payload.reportId !== expected.reportId) mismatches.push('report ID');
+  if (payload.seal !== expected.seal) mismatches.push('seal');
+  return {
+    status: mismatches.length === 0 ? 'match' : 'mismatch',
+    reportId: payload.reportId,
+    caseHash: payload.caseHash,
+    mismatches,
+  };
+};
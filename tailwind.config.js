@@ -0,0 +1,8 @@
+/** @type {import('tailwindcss').Config} */
+export default {
+  content: ['./index.html', './index.tsx', './App.tsx', './components/**/*.tsx', './services/**/*.ts'],
+  theme: {
+    extend: {},
+  },
+  plugins: [],
+};
@@ -4,6 +4,7 @@ export interface LegalSubjectFinding {
   keyPoints: string[];
   evidence: string;
   severity: 'Low' | 'Medium' | 'High' | 'Critical';
+  documentIds: string[];
 }
 
 export interface DishonestyFinding {
@@ -11,6 +12,7 @@ export interface DishonestyFinding {
   description: string;
   evidence: string;
   severity: 'Low' | 'Medium' | 'High' | 'Critical';
+  documentIds: string[];
 }
 
 export interface RecommendedAction {
@@ -30,6 +32,7 @@ export interface EvidenceIndexItem {
   description: string;
   pageNumber: number;
   documentReference: string;
+  documentId: string;
 }
 
 export interface EvidenceSpotlightItem {
@@ -37,12 +40,144 @@ export interface EvidenceSpotlightItem {
   significance: string;
   evidenceReference: string;
   pageNumber: number;
+  documentId: string;
+}
+
+// The eight layers of the constitution's contradiction_engine.
+export type ContradictionLayer =
+  | 'timeline analysis'
+  | 'statement comparison'
+  | 'behavioural inconsistencies'
+  | 'document metadata mismatches'
+  | 'financial flows'
+  | 'coercion indicators'
+  | 'rights violations'
+  | 'intent vs action mismatch';
+
+export interface EvidenceSource {
+  documentId: string;
+  pageNumber: number;
+}
+
+export interface ContradictionFinding {
+  claimA: string;
+  sourceA: EvidenceSource;
+  claimB: string;
+  sourceB: EvidenceSource;
+  layer: ContradictionLayer;
+  severity: 'Low' | 'Medium' | 'High' | 'Critical';
+  explanation: string;
+}
+
+// A reconstructed event. Dates are ISO 8601 (YYYY-MM-DD, or YYYY-MM / YYYY when
+// only that precision is known); endDate is set when the event spans a range.
+export interface TimelineEvent {
+  date: string;
+  endDate?: string;
+  event: string;
+  actors: string[];
+  evidenceReference: string;
+  source: EvidenceSource;
+  confidence: 'Low' | 'Medium' | 'High';
+}
+
+// One evidence file within a case. Document IDs follow the 'D-01' pattern.
+export interface CaseDocument {
+  documentId: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+  documentHash: string;
+  hashAlgorithm: string;
+  documentHashSha256: string;
+}
+
+// A repair made while validating a model response. `path` points at the
+// offending value, e.g. 'evidenceIndex[3].pageNumber'.
+export interface AnalysisCorrection {
+  section: string;
+  path: string;
+  message: string;
+}
+
+export type CitationStatus = 'verified' | 'approximate' | 'unverifiable';
+
+// The outcome of checking one citation. `target` is the path of the citing
+// item, e.g. 'evidenceSpotlight[2]' or 'contradictions[0].sourceB'.
+export interface CitationCheck {
+  target: string;
+  status: CitationStatus;
+  detail: string;
+}
+
+export type ReviewDecision = 'accepted' | 'rejected' | 'amended';
+
+// An analyst's decision on one finding. `target` is the path of the finding,
+// as for citation checks, e.g. 'criticalLegalSubjects[1]'. An amended finding
+// is edited in place; `original` keeps the model's version as JSON.
+export interface FindingReview {
+  target: string;
+  decision: ReviewDecision;
+  reviewer: string;
+  reviewedAt: string;
+  // Required when rejecting; optional otherwise.
+  reason: string;
+  original: string;
+}
+
+export type AuditEvent =
+  | 'evidence-ingested'
+  | 'redaction-applied'
+  | 'model-called'
+  | 'response-received'
+  | 'validation-corrected'
+  | 'citations-verified'
+  | 'review-recorded'
+  | 'review-withdrawn'
+  | 'report-exported';
+
+// One entry in a case's hash-chained audit trail (see auditService.ts).
+// `hash` is the SHA-256 of the other fields; the first entry's previousHash
+// is all zeros.
+export interface AuditEntry {
+  sequence: number;
+  timestamp: string;
+  event: AuditEvent;
+  detail: string;
+  previousHash: string;
+  hash: string;
+}
+
+// A bundled jurisdiction profile (see jurisdictionProfiles.ts). Codes are ISO
+// 3166-1 alpha-2 for countries and ISO 3166-2 style for subdivisions, e.g. 'US-CA'.
+export interface JurisdictionProfile {
+  code: string;
+  name: string;
+  legalSystem: string;
+  keyStatutes: string[];
+  // Highest court first.
+  courtHierarchy: string[];
+  limitationBasics: string;
+  // [latitude, longitude] of major cities, used only to suggest a jurisdiction.
+  referencePoints: [number, number][];
+  subdivisions?: JurisdictionProfile[];
+}
+
+// The jurisdiction a case was analysed under. `name` is the full display
+// name, e.g. 'California, United States'.
+export interface CaseJurisdiction {
+  code: string;
+  name: string;
 }
 
 export interface AnalysisResult {
   documentHash: string;
+  hashAlgorithm: string;
+  documentHashSha256: string;
   fileName: string;
+  documents: CaseDocument[];
   caseNarrative: string;
+  timeline: TimelineEvent[];
   evidenceSpotlight: EvidenceSpotlightItem[];
   preAnalysisChecks: {
     extractionProtocol: boolean;
@@ -51,6 +186,7 @@ export interface AnalysisResult {
   };
   criticalLegalSubjects: LegalSubjectFinding[];
   dishonestyDetectionMatrix: DishonestyFinding[];
+  contradictions: ContradictionFinding[];
   evidenceIndex: EvidenceIndexItem[];
   actionableOutput: {
     topLiabilities: TopLiability[];
@@ -64,4 +200,221 @@ export interface AnalysisResult {
     logs: string;
     seal: string;
   };
+  // Automatic repairs applied to the model response before sealing.
+  corrections: AnalysisCorrection[];
+  // Local checks of every cited page, quote and evidence ID against the evidence text.
+  citationChecks: CitationCheck[];
+  // Present only when the case was analysed in triple-AI consensus mode.
+  consensus?: ConsensusReport;
+  // Analyst decisions on individual findings (see reviewService.ts). Results
+  // saved before analyst review existed have none.
+  reviews?: FindingReview[];
+  // Everything done to the case, oldest first. Results saved before the audit
+  // trail existed have none.
+  auditLog?: AuditEntry[];
+  // The jurisdiction chosen by the user; absent when it was left to the analysis.
+  jurisdiction?: CaseJurisdiction;
+  // When the analysis finished (ISO 8601) and which models produced it.
+  analyzedAt: string;
+  models: string[];
+}
+
+// 'untrusted': the signature holds, but was made with a key other than this
+// device's signing key, so it says nothing about who produced the report.
+export type SignatureStatus = 'verified' | 'untrusted' | 'tampered' | 'unsigned';
+
+export interface ReportSignatureInfo {
+  status: SignatureStatus;
+  keyId?: string;
+  algorithm?: string;
+}
+
+export interface EvidenceVerification {
+  status: 'match' | 'mismatch';
+  documentId?: string;
+  fileName: string;
+  computedHash: string;
+  hashAlgorithm: string;
+}
+
+// The outcome of checking a scanned report QR code against a loaded report.
+export interface ReportPayloadVerification {
+  status: 'match' | 'mismatch';
+  reportId: string;
+  caseHash: string;
+  mismatches: string[];
+}
+
+// A file kept with a saved case: an evidence document (slot = its document ID)
+// or the generated report PDF (slot = 'report').
+export interface StoredFileInfo {
+  slot: string;
+  fileName: string;
+  mimeType: string;
+  sizeBytes: number;
+}
+
+// The searchable part of a case in the encrypted local library. Summaries are
+// decrypted when the library is unlocked; results and files only on reopening.
+export interface CaseSummary {
+  id: string;
+  name: string;
+  tags: string[];
+  notes: string;
+  createdAt: string;
+  updatedAt: string;
+  dishonestyScore: number;
+  files: StoredFileInfo[];
+  // The signature status of the report the case was imported from; absent
+  // for cases analysed on this device.
+  importedSignature?: SignatureStatus;
+}
+
+// A turn in the case assistant conversation. Answers cite the evidence inline
+// as "[D-01 p.4]" (see chatService.ts).
+export interface ChatMessage {
+  role: 'user' | 'assistant';
+  text: string;
+  createdAt: string;
+  // The model that wrote an assistant answer, as named by describeModel().
+  model?: string;
+}
+
+export interface StoredCase {
+  summary: CaseSummary;
+  result: AnalysisResult;
+  evidenceFiles: Record<string, File>;
+  reportPdf: Blob | null;
+  conversation: ChatMessage[];
+}
+
+// The stages of an analysis run, in order, as reported to the loader.
+export type AnalysisStage = 'hashing' | 'preparing' | 'uploading' | 'generating' | 'validating' | 'verifying';
+
+export interface AnalysisProgress {
+  stage: AnalysisStage;
+  message: string;
+  // Characters of model output received so far, while the response streams in.
+  receivedChars?: number;
+}
+
+// A case document together with its base64-encoded content, as sent for analysis.
+// Documents too large to send inline are sent as several payloads of extracted
+// text, each covering the 1-based page range in `pages`.
+export interface EvidencePayload {
+  document: CaseDocument;
+  content: string;
+  pages?: { first: number; last: number; total: number };
+}
+
+export type AnalysisProviderId = 'gemini' | 'local-http' | 'fixture';
+
+export interface AnalysisSettings {
+  providerId: AnalysisProviderId;
+  geminiModel: string;
+  // Base URL of an OpenAI-compatible API, e.g. 'http://localhost:11434/v1' for Ollama.
+  localEndpoint: string;
+  localModel: string;
+  localApiKey: string;
+  consensusEnabled: boolean;
+  consensusMembers: ConsensusMember[];
+  // The user's consent to send evidence with no extractable text (images,
+  // scanned PDFs) in its original, unredacted form.
+  allowUnredactedEvidence: boolean;
+}
+
+// One of the independent models queried in consensus mode. The model name
+// overrides geminiModel or localModel; the local endpoint and key are shared.
+export interface ConsensusMember {
+  providerId: AnalysisProviderId;
+  model: string;
+}
+
+export type ConsensusAgreement = 'all' | 'majority' | 'single';
+
+export type ConsensusCategory = 'legalSubject' | 'dishonestyFlag' | 'liability';
+
+// A finding aligned across models, with the models that reported it and the
+// severity each assigned (in the same order).
+export interface ConsensusItem {
+  category: ConsensusCategory;
+  finding: string;
+  agreement: ConsensusAgreement;
+  models: string[];
+  severities: string[];
+}
+
+export interface ConsensusScore {
+  model: string;
+  dishonestyScore: number;
+}
+
+export interface ConsensusReport {
+  // Every configured model, including any that failed to respond; only the
+  // models that responded have a score.
+  models: string[];
+  items: ConsensusItem[];
+  scores: ConsensusScore[];
+}
+
+// --- Report comparison ---
+// Two analyses of a case compared finding by finding (see reportDiffService.ts).
+
+export type DiffCategory = 'legalSubject' | 'dishonestyFlag' | 'liability' | 'recommendedAction' | 'evidenceItem';
+
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'unchanged';
+
+// One finding matched across the two analyses. `before` is empty for an added
+// finding and `after` for a removed one; `changedFields` names the fields
+// that differ between matched findings.
+export interface FindingDiff {
+  category: DiffCategory;
+  status: DiffStatus;
+  before: string;
+  after: string;
+  severityBefore?: string;
+  severityAfter?: string;
+  changedFields: string[];
+}
+
+export interface ReportDiffSide {
+  label: string;
+  analyzedAt: string;
+  models: string[];
+  documentHash: string;
+  dishonestyScore: number;
+}
+
+// `before` is the earlier analysis. `sameEvidence` is false when the two
+// analyses were run over different evidence files.
+export interface ReportDiff {
+  before: ReportDiffSide;
+  after: ReportDiffSide;
+  sameEvidence: boolean;
+  items: FindingDiff[];
+}
+
+// Human-readable report documents generated by the report worker.
+export type ReportDocumentFormat = 'pdf' | 'docx' | 'html';
+
+// --- JSON report export ---
+// The machine-readable report format. Its JSON Schema is generated from these
+// types into schemas/verum-report.schema.json (npm run schema).
+
+export interface ReportExportMetadata {
+  // The .verum.bin schema version the result corresponds to.
+  protocolVersion: number;
+  exportedAt: string;
+  analyzedAt: string;
+  models: string[];
+  caseHash: string;
+  caseHashSha256: string;
+  hashAlgorithm: string;
+  documentCount: number;
+}
+
+export interface ReportExport {
+  format: 'verum-omnis-report';
+  metadata: ReportExportMetadata;
+  result: AnalysisResult;
 }
@@ -1,7 +1,28 @@
 import path from 'path';
+import fs from 'fs';
+import { createHash } from 'crypto';
 import { defineConfig, loadEnv } from 'vite';
+import type { Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
 
+// Emits sw.js from service-worker.js together with the list of every file in
+// the production bundle, so the whole app can be precached for offline use.
+const offlineServiceWorker = (): Plugin => ({
+  name: 'verum-offline-service-worker',
+  apply: 'build',
+  generateBundle(_options, bundle) {
+    const files = Object.keys(bundle).filter(fileName => fileName !== 'index.html').sort();
+    const version = createHash('sha256').update(files.join('\n')).digest('hex').slice(0, 12);
+    const precacheUrls = ['/', '/index.html', ...files.map(fileName => `/${fileName}`)];
+    const source = fs.readFileSync(path.resolve(__dirname, 'service-worker.js'), 'utf8');
+    this.emitFile({
+      type: 'asset',
+      fileName: 'sw.js',
+      source: `const CACHE_NAME = 'verum-omnis-${version}';\nconst PRECACHE_URLS = ${JSON.stringify(precacheUrls)};\n\n${source}`,
+    });
+  },
+});
+
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
@@ -9,7 +30,10 @@ export default defineConfig(({ mode }) => {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), offlineServiceWorker()],
+      worker: {
+        format: 'es',
+      },
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
         'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)